@@ -9,8 +9,13 @@ import type { RecentArtifact } from './lib/extension/recent-artifact';
 import { toErrorMessage } from './lib/extension/to-error-message';
 import { summarizeOutput } from './lib/extension/summarize-output';
 import { buildRunCmdArgs } from './lib/extension/build-run-cmd-args';
-import { buildUploadPayload } from './lib/extension/build-upload-payload';
-import { getSingleWorkspaceFolder } from './lib/extension/get-single-workspace-folder';
+import { buildScriptRunCmd } from './lib/run-cmd/build-script-run-cmd';
+import { prepareCloudUpload } from './lib/extension/prepare-cloud-upload';
+import { pickSessionWorkspaceFolders } from './lib/extension/pick-session-workspace-folders';
+import { removeWorkspaceFolder } from './lib/extension/remove-workspace-folder';
+import { readSessionRecordFile } from './lib/extension/read-session-record-file';
+import { migrateExportJsonl } from './lib/extension/migrate-export-jsonl';
+import type { SessionStatus } from './lib/session-manager/session-status';
 import { resolveWorkspaceDirectoryPath } from './lib/extension/resolve-workspace-directory-path';
 import { listFilesRecursively } from './lib/extension/list-files-recursively';
 import { toWorkspaceRelativeDirectoryPath } from './lib/extension/to-workspace-relative-directory-path';
@@ -21,12 +26,17 @@ import { promptForApiToken } from './lib/extension/prompt-for-api-token';
 import { ensureCloudConfiguration } from './lib/extension/ensure-cloud-configuration';
 import { buildCloudConfigErrorMessage } from './lib/extension/build-cloud-config-error-message';
 import { addRecentArtifact } from './lib/extension/add-recent-artifact';
+import { promptForSecretHits } from './lib/extension/prompt-for-secret-hits';
+import { getCloudAcceptedSchemaVersions } from './lib/extension/get-cloud-accepted-schema-versions';
+import { findRecordSecrets, redactRecordSecrets } from './lib/session-manager/redact-record-secrets';
+import type { TrainingRecord } from './lib/tooling';
+import type { EditorDiagnosticSeverity } from './lib/session-manager/format-editor-diagnostics';
 
 const DEFAULT_SYSTEM_PROMPT =
 	'You are an expert TypeScript/Next.js coding assistant generating high-quality training traces. Be precise, minimal, and deterministic. Read before edit; search before multi-file changes. Keep patches focused, avoid unnecessary dependencies, and maintain current architecture. When ready to change files, call apply_patch. Do not paste code outside tool calls. Validate with lint/test/build when relevant. Surface errors clearly, avoid hidden side effects, and stop once the requested task is fully complete.';
 
 export function activate(context: vscode.ExtensionContext) {
-	const sessionManager = new SessionManager();
+	const sessionManager = new SessionManager(context.globalStorageUri.fsPath);
 	let cachedTasks: CloudTask[] = [];
 	let cloudStatus: CloudConnectionStatus = 'url-missing';
 	let isCloudChecking = false;
@@ -34,13 +44,15 @@ export function activate(context: vscode.ExtensionContext) {
 	const getSidebarState = () => ({
 		taskId: (context.workspaceState.get<string>('dataset.taskId') ?? '').trim(),
 		isSessionActive: sessionManager.hasActiveSession(),
+		packageManager: sessionManager.getActivePackageManager(),
+		runCmd: sessionManager.getRunCmdState(),
 		defaultSystemPrompt:
 			vscode.workspace
 				.getConfiguration('dataset')
 				.get<string>('defaultSystemPrompt', DEFAULT_SYSTEM_PROMPT)
 				.trim() || DEFAULT_SYSTEM_PROMPT,
 		lastRecordPath: context.globalState.get<string>('dataset.lastRecordPath'),
-		lastSessionStatus: context.globalState.get<'draft' | 'ready'>('dataset.lastSessionStatus'),
+		lastSessionStatus: context.globalState.get<SessionStatus>('dataset.lastSessionStatus'),
 		lastSessionSummary: context.globalState.get<{
 			filesChanged: number;
 			commandsRecorded: number;
@@ -65,6 +77,26 @@ export function activate(context: vscode.ExtensionContext) {
 	);
 
 	const refreshSidebar = () => sidebarProvider.refresh();
+	let persistWarningVisible = false;
+	context.subscriptions.push(
+		sessionManager.onDidChangeRunCmdState(() => refreshSidebar()),
+		sessionManager.onDidRunCmdOutput((event) => sidebarProvider.postRunCmdOutput(event)),
+		sessionManager.onDidFailToPersistSession((error) => {
+			if (persistWarningVisible) {
+				return;
+			}
+			persistWarningVisible = true;
+			void vscode.window
+				.showWarningMessage(
+					`The active dataset session was recorded but could not be saved for recovery: ${toErrorMessage(error)}`,
+				)
+				.then(() => {
+					persistWarningVisible = false;
+				});
+		}),
+	);
+	const keepWorktreeAfterStop = () =>
+		vscode.workspace.getConfiguration('dataset').get<boolean>('keepWorktreeAfterStop', false);
 
 	const refreshCloudStatus = async () => {
 		cloudStatus = await getCloudConnectionStatus(context);
@@ -104,6 +136,43 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	})();
 
+	void (async () => {
+		try {
+			const orphan = await sessionManager.findOrphanedSession();
+			if (!orphan) {
+				return;
+			}
+
+			const decision = await vscode.window.showWarningMessage(
+				`Found an unfinished dataset session for task "${orphan.taskId}" (started ${orphan.startedAt}, ${orphan.messageCount} messages, ${orphan.commandsRun} commands). Resume it?`,
+				'Resume',
+				'Stop and Save',
+				'Discard',
+			);
+
+			if (decision === 'Resume') {
+				await sessionManager.resumeOrphanedSession();
+				vscode.window.showInformationMessage('Dataset session resumed.');
+				refreshSidebar();
+				return;
+			}
+
+			if (decision === 'Stop and Save') {
+				await sessionManager.resumeOrphanedSession();
+				refreshSidebar();
+				await vscode.commands.executeCommand('dataset.stopSessionUpload');
+				return;
+			}
+
+			if (decision === 'Discard') {
+				await sessionManager.discardOrphanedSession();
+				vscode.window.showInformationMessage('Unfinished dataset session discarded.');
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Session recovery failed: ${toErrorMessage(error)}`);
+		}
+	})();
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('dataset.selectTask', async () => {
 			let tasks = cachedTasks;
@@ -286,18 +355,25 @@ export function activate(context: vscode.ExtensionContext) {
 
 				const failures: string[] = [];
 				const byPath = new Map(recentArtifacts.map((artifact) => [artifact.path, artifact]));
+				const uploadOptions = {
+					uploadMode: vscode.workspace
+						.getConfiguration('dataset')
+						.get<'full' | 'metadataOnly'>('uploadMode', 'full'),
+					acceptedVersions: getCloudAcceptedSchemaVersions(),
+				};
 
 				for (const artifact of pending) {
 					try {
-						const raw = await fs.readFile(artifact.path, 'utf8');
-						const payload = JSON.parse(raw) as unknown;
-						const upload = await api.createSession(payload);
+						const payload = await readSessionRecordFile(artifact.path);
+						const upload = await api.createSession(
+							await prepareCloudUpload({ outputPath: artifact.path, payload }, sessionManager, uploadOptions),
+						);
 						const existing = byPath.get(artifact.path);
 						if (existing) {
 							existing.cloudSessionId = upload.sessionId;
 						}
-					} catch {
-						failures.push(path.basename(artifact.path));
+					} catch (error) {
+						failures.push(`${path.basename(artifact.path)} (${toErrorMessage(error)})`);
 					}
 				}
 
@@ -351,6 +427,10 @@ export function activate(context: vscode.ExtensionContext) {
 
 				const candidates: Array<{ sessionId: string; messages: unknown[] }> = [];
 				let invalidFormatCount = 0;
+				let secretCount = 0;
+				const detector = await sessionManager.getSecretDetector(
+					(vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath),
+				);
 
 				for (const line of lines) {
 					try {
@@ -372,7 +452,10 @@ export function activate(context: vscode.ExtensionContext) {
 							continue;
 						}
 
-						candidates.push({ sessionId, messages: messagesCandidate });
+						const record = { messages: structuredClone(messagesCandidate) } as TrainingRecord;
+						secretCount += findRecordSecrets(record, detector).length;
+						redactRecordSecrets(record, detector);
+						candidates.push({ sessionId, messages: record.messages });
 					} catch {
 						invalidFormatCount += 1;
 					}
@@ -403,6 +486,7 @@ export function activate(context: vscode.ExtensionContext) {
 					`${invalidFormatCount} invalid line(s).`,
 					`${missingSessionCount} missing session id(s).`,
 					`${duplicateCount} duplicate session id line(s) (last line kept).`,
+					`${secretCount} possible secret(s) redacted.`,
 				].join(' ');
 
 				if (dryRunReady.length === 0) {
@@ -451,10 +535,81 @@ export function activate(context: vscode.ExtensionContext) {
 			if (!artifactPath || typeof artifactPath !== 'string') {
 				return;
 			}
+			const recentArtifacts = context.globalState.get<RecentArtifact[]>('dataset.recentArtifacts') ?? [];
+			const artifact = recentArtifacts.find((entry) => entry.path === artifactPath);
+			if (artifact?.type === 'session') {
+				try {
+					await readSessionRecordFile(artifactPath);
+				} catch (error) {
+					vscode.window.showWarningMessage(`Session record could not be migrated: ${toErrorMessage(error)}`);
+				}
+			}
 			await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(artifactPath));
 		}),
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('dataset.verifySession', async (artifactPath?: string) => {
+			try {
+				const recentArtifacts =
+					context.globalState.get<RecentArtifact[]>('dataset.recentArtifacts') ?? [];
+				let targetPath = typeof artifactPath === 'string' ? artifactPath : '';
+				if (!targetPath) {
+					const picked = await vscode.window.showQuickPick(
+						recentArtifacts
+							.filter((artifact) => artifact.type === 'session')
+							.map((artifact) => ({
+								label: path.basename(artifact.path),
+								description: artifact.status,
+								detail: artifact.path,
+							})),
+						{ placeHolder: 'Select a session record to verify' },
+					);
+					if (!picked) {
+						return;
+					}
+					targetPath = picked.detail;
+				}
+
+				const payload = await readSessionRecordFile(targetPath);
+				const verification = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: 'Replaying session patches…' },
+					() => sessionManager.verifySessionRecord(payload),
+				);
+				payload.verification = verification;
+				if (!verification.ok) {
+					payload.status = 'draft';
+				}
+				await fs.writeFile(targetPath, JSON.stringify(payload, null, 2), 'utf8');
+
+				const artifact = recentArtifacts.find((entry) => entry.path === targetPath);
+				if (artifact) {
+					artifact.status = payload.status;
+					await context.globalState.update('dataset.recentArtifacts', recentArtifacts);
+				}
+				refreshSidebar();
+
+				if (verification.ok) {
+					vscode.window.showInformationMessage(
+						`Session verified: ${verification.operationsReplayed} patch operations reproduce the recorded end state.`,
+					);
+				} else {
+					const details = verification.mismatches
+						.slice(0, 5)
+						.map((mismatch) => `${mismatch.path || '(session)'}: ${mismatch.reason}`)
+						.join('; ');
+					const more =
+						verification.mismatches.length > 5 ? ` (+${verification.mismatches.length - 5} more)` : '';
+					vscode.window.showWarningMessage(
+						`Session verification failed; record marked draft. ${details}${more}`,
+					);
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(toErrorMessage(error));
+			}
+		}),
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('dataset.deleteRecentArtifact', async (artifactPath: string) => {
 			try {
@@ -501,7 +656,7 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'dataset.startSession',
-			async (input?: { systemPrompt?: string; userPrompt?: string }) => {
+			async (input?: { systemPrompt?: string; userPrompt?: string; snapshotDirtyWorkingTree?: boolean }) => {
 			try {
 				const taskId = (context.workspaceState.get<string>('dataset.taskId') ?? '').trim();
 				if (!taskId) {
@@ -525,7 +680,24 @@ export function activate(context: vscode.ExtensionContext) {
 					return;
 				}
 
-				await sessionManager.startSession(taskId, systemPrompt, userPrompt);
+				const folders = await pickSessionWorkspaceFolders();
+				if (!folders) {
+					return;
+				}
+
+				await sessionManager.startSession(
+					taskId,
+					systemPrompt,
+					userPrompt,
+					folders.map((folder) => folder.uri.fsPath),
+					{
+						snapshotDirtyWorkingTree:
+							input?.snapshotDirtyWorkingTree ??
+							vscode.workspace
+								.getConfiguration('dataset')
+								.get<boolean>('snapshotDirtyWorkingTree', false),
+					},
+				);
 				vscode.window.showInformationMessage('Dataset session started.');
 				refreshSidebar();
 			} catch (error) {
@@ -535,6 +707,244 @@ export function activate(context: vscode.ExtensionContext) {
 		),
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'dataset.startSessionInWorktree',
+			async (input?: { systemPrompt?: string; userPrompt?: string; ref?: string }) => {
+				try {
+					const taskId = (context.workspaceState.get<string>('dataset.taskId') ?? '').trim();
+					if (!taskId) {
+						vscode.window.showErrorMessage('Select or create a task before starting a session.');
+						return;
+					}
+					const configuredSystemPrompt = vscode.workspace
+						.getConfiguration('dataset')
+						.get<string>('defaultSystemPrompt', DEFAULT_SYSTEM_PROMPT)
+						.trim();
+					const systemPrompt = (input?.systemPrompt ?? configuredSystemPrompt).trim();
+					const userPrompt = (input?.userPrompt ?? 'Implement the requested change.').trim();
+					if (!systemPrompt || !userPrompt) {
+						vscode.window.showErrorMessage('System and user prompts are required to start a session.');
+						return;
+					}
+
+					const folders = await pickSessionWorkspaceFolders();
+					if (!folders) {
+						return;
+					}
+					if (folders.length !== 1) {
+						throw new Error('Select exactly one repository folder for a worktree session.');
+					}
+
+					const ref =
+						(input?.ref ?? '').trim() ||
+						(
+							await vscode.window.showInputBox({
+								prompt: 'Branch, tag or commit SHA to check out in a temporary worktree',
+								value: 'HEAD',
+								ignoreFocusOut: true,
+							})
+						)?.trim() ||
+						'';
+					if (!ref) {
+						return;
+					}
+
+					const { worktreePath } = await sessionManager.startSessionInWorktree(
+						taskId,
+						systemPrompt,
+						userPrompt,
+						folders[0].uri.fsPath,
+						ref,
+					);
+					vscode.workspace.updateWorkspaceFolders(vscode.workspace.workspaceFolders?.length ?? 0, 0, {
+						uri: vscode.Uri.file(worktreePath),
+						name: `${folders[0].name} @ ${ref}`,
+					});
+					vscode.window.showInformationMessage(`Dataset session started in worktree at ${ref}: ${worktreePath}`);
+					refreshSidebar();
+				} catch (error) {
+					vscode.window.showErrorMessage(toErrorMessage(error));
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('dataset.mineCommits', async (input?: { range?: string }) => {
+			try {
+				const taskId = (context.workspaceState.get<string>('dataset.taskId') ?? '').trim();
+				if (!taskId) {
+					vscode.window.showErrorMessage('Select or create a task before mining commits.');
+					return;
+				}
+				const systemPrompt = vscode.workspace
+					.getConfiguration('dataset')
+					.get<string>('defaultSystemPrompt', DEFAULT_SYSTEM_PROMPT)
+					.trim();
+				if (!systemPrompt) {
+					vscode.window.showErrorMessage('dataset.defaultSystemPrompt is required to mine commits.');
+					return;
+				}
+
+				const folders = await pickSessionWorkspaceFolders();
+				if (!folders) {
+					return;
+				}
+				if (folders.length !== 1) {
+					throw new Error('Select exactly one repository folder to mine commits from.');
+				}
+
+				const range =
+					(input?.range ?? '').trim() ||
+					(
+						await vscode.window.showInputBox({
+							prompt: 'Commit range or SHAs to mine',
+							placeHolder: 'main~20..main or abc1234 def5678',
+							ignoreFocusOut: true,
+						})
+					)?.trim() ||
+					'';
+				if (!range) {
+					return;
+				}
+
+				const mined = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: 'Mining commits…' },
+					() => sessionManager.mineCommits(taskId, systemPrompt, folders[0].uri.fsPath, range),
+				);
+				for (const result of mined.results) {
+					await addRecentArtifact(context, {
+						type: 'session',
+						path: result.outputPath,
+						createdAt: result.payload.createdAt,
+						status: result.payload.status,
+					});
+				}
+				refreshSidebar();
+
+				const skippedSummary = mined.skipped
+					.map((entry) => `${entry.commit.slice(0, 7)} (${entry.reason})`)
+					.join(', ');
+				const message = `Mined ${mined.results.length} commit(s) into local session records.`;
+				if (mined.skipped.length > 0) {
+					vscode.window.showWarningMessage(`${message} Skipped ${mined.skipped.length}: ${skippedSummary}`);
+				} else {
+					vscode.window.showInformationMessage(message);
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(toErrorMessage(error));
+			}
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'dataset.addUserTurn',
+			async (input?: { userMessage?: string; assistantReply?: string }) => {
+				try {
+					if (!sessionManager.hasActiveSession()) {
+						throw new Error('Start a session before adding a user turn.');
+					}
+
+					let assistantReply = input?.assistantReply;
+					let userMessage = (input?.userMessage ?? '').trim();
+					if (!userMessage) {
+						assistantReply = await vscode.window.showInputBox({
+							prompt: 'Optional assistant reply recorded before the follow-up (leave empty to skip)',
+							placeHolder: 'Which file should the new helper live in?',
+							ignoreFocusOut: true,
+						});
+						if (assistantReply === undefined) {
+							return;
+						}
+
+						userMessage =
+							(
+								await vscode.window.showInputBox({
+									prompt: 'Follow-up user message',
+									placeHolder: 'Now also add a unit test for the edge case.',
+									ignoreFocusOut: true,
+								})
+							)?.trim() ?? '';
+					}
+
+					if (!userMessage) {
+						return;
+					}
+
+					const result = await sessionManager.addUserTurn(userMessage, assistantReply);
+					vscode.window.showInformationMessage(`Recorded user turn ${result.turnCount}.`);
+					refreshSidebar();
+				} catch (error) {
+					vscode.window.showErrorMessage(toErrorMessage(error));
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('dataset.addFixErrorsTurn', async () => {
+			try {
+				if (!sessionManager.hasActiveSession()) {
+					throw new Error('Start a session before adding a user turn.');
+				}
+
+				const prompt = sessionManager.buildFixErrorsPrompt();
+				const choice = await vscode.window.showInformationMessage(
+					'Record a follow-up user turn asking to fix these errors?',
+					{ modal: true, detail: prompt },
+					'Record Turn',
+					'Copy',
+				);
+				if (choice === 'Copy') {
+					await vscode.env.clipboard.writeText(prompt);
+					return;
+				}
+				if (choice !== 'Record Turn') {
+					return;
+				}
+
+				const result = await sessionManager.addUserTurn(prompt);
+				vscode.window.showInformationMessage(`Recorded user turn ${result.turnCount}.`);
+				refreshSidebar();
+			} catch (error) {
+				vscode.window.showErrorMessage(toErrorMessage(error));
+			}
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('dataset.addAssistantMessage', async (input?: { content?: string }) => {
+			try {
+				if (!sessionManager.hasActiveSession()) {
+					throw new Error('Start a session before adding assistant messages.');
+				}
+
+				const content =
+					(input?.content ?? '').trim() ||
+					(
+						await vscode.window.showInputBox({
+							prompt: 'Assistant plan or narration to record at the current point',
+							placeHolder: 'I will first search for the existing helper, then update its callers.',
+							ignoreFocusOut: true,
+						})
+					)?.trim() ||
+					'';
+
+				if (!content) {
+					return;
+				}
+
+				await sessionManager.addAssistantMessage(content);
+				vscode.window.showInformationMessage('Recorded assistant message.');
+				refreshSidebar();
+			} catch (error) {
+				vscode.window.showErrorMessage(toErrorMessage(error));
+			}
+		}),
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'dataset.runPnpmCommand',
@@ -545,10 +955,13 @@ export function activate(context: vscode.ExtensionContext) {
 				timeoutMs?: number;
 			}) => {
 				try {
-					const runArgs = buildRunCmdArgs(input);
-					const output = await sessionManager.runAllowedPnpmCommand(runArgs);
+					const runArgs = buildRunCmdArgs({
+						...input,
+						manager: sessionManager.getActivePackageManager() ?? 'pnpm',
+					});
+					const output = await sessionManager.runAllowedCommand(runArgs);
 					vscode.window.showInformationMessage(
-						`Recorded command: pnpm ${runArgs.args.join(' ')} (${summarizeOutput(output)})`,
+						`Recorded command: ${runArgs.cmd} ${runArgs.args.join(' ')} (${summarizeOutput(output)})`,
 					);
 					refreshSidebar();
 				} catch (error) {
@@ -558,6 +971,72 @@ export function activate(context: vscode.ExtensionContext) {
 		),
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('dataset.cancelRunCmd', (input?: { queuedId?: number }) => {
+			const queuedId = typeof input?.queuedId === 'number' ? input.queuedId : undefined;
+			if (!sessionManager.cancelRunCmd(queuedId)) {
+				vscode.window.showInformationMessage(
+					queuedId === undefined ? 'No run_cmd command is running.' : 'That command is no longer queued.',
+				);
+			}
+			refreshSidebar();
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('dataset.runScript', async () => {
+			try {
+				if (!sessionManager.hasActiveSession()) {
+					vscode.window.showWarningMessage('Start a session before running recorded commands.');
+					return;
+				}
+
+				const candidates = await sessionManager.discoverRunCmdScripts();
+				if (candidates.length === 0) {
+					vscode.window.showWarningMessage('No package.json scripts found in the session repositories.');
+					return;
+				}
+
+				const picked = await vscode.window.showQuickPick(
+					candidates.map((candidate) => ({
+						label: candidate.rejection ? `$(circle-slash) ${candidate.script}` : candidate.script,
+						description: `${candidate.packageName ?? path.basename(candidate.repoRoot)} · ${candidate.packageDir}`,
+						detail: candidate.rejection
+							? `Not allowlisted without arguments: ${candidate.rejection}`
+							: `${candidate.manager} ${candidate.runArgs?.args.join(' ') ?? ''} → ${candidate.command}`,
+						candidate,
+					})),
+					{ placeHolder: 'Select a script to record as run_cmd', matchOnDescription: true, matchOnDetail: true },
+				);
+				if (!picked) {
+					return;
+				}
+
+				const extraArgs = await vscode.window.showInputBox({
+					prompt: `Extra arguments for ${picked.candidate.script} (optional, space separated)`,
+					ignoreFocusOut: true,
+				});
+				if (extraArgs === undefined) {
+					return;
+				}
+
+				const runArgs = buildScriptRunCmd(
+					picked.candidate.manager,
+					picked.candidate,
+					extraArgs.split(/\s+/).filter(Boolean),
+					picked.candidate.repoRoot,
+				);
+				const output = await sessionManager.runAllowedCommand(runArgs);
+				vscode.window.showInformationMessage(
+					`Recorded command: ${runArgs.cmd} ${runArgs.args.join(' ')} (${summarizeOutput(output)})`,
+				);
+				refreshSidebar();
+			} catch (error) {
+				vscode.window.showErrorMessage(toErrorMessage(error));
+			}
+		}),
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'dataset.searchRepo',
@@ -601,11 +1080,9 @@ export function activate(context: vscode.ExtensionContext) {
 				});
 
 				if (selected) {
-					const folder = vscode.workspace.workspaceFolders?.[0];
-					if (folder) {
-						const fileUri = vscode.Uri.joinPath(folder.uri, selected);
-						await vscode.commands.executeCommand('vscode.open', fileUri);
-					}
+					const target = sessionManager.resolveSessionPath(selected);
+					const fileUri = vscode.Uri.file(path.join(target.root, target.relativePath));
+					await vscode.commands.executeCommand('vscode.open', fileUri);
 				}
 
 				vscode.window.showInformationMessage(
@@ -624,13 +1101,12 @@ export function activate(context: vscode.ExtensionContext) {
 			'dataset.listAndOpenDirectoryFiles',
 			async (input?: { path?: string }) => {
 				try {
-					const folder = getSingleWorkspaceFolder();
 					const providedPath = (input?.path ?? '').trim();
 					const enteredPath =
 						providedPath ||
 						(
 							await vscode.window.showInputBox({
-								prompt: 'Directory path to list and open all files (workspace-relative)',
+								prompt: 'Directory path to list and open all files (workspace-relative, prefixed with the folder name in multi-root sessions)',
 								placeHolder: 'src or src/components',
 								ignoreFocusOut: true,
 							})
@@ -641,25 +1117,26 @@ export function activate(context: vscode.ExtensionContext) {
 						return;
 					}
 
-					const directoryPath = resolveWorkspaceDirectoryPath(folder.uri.fsPath, enteredPath);
+					const target = sessionManager.resolveSessionPath(enteredPath);
+					const directoryPath = resolveWorkspaceDirectoryPath(target.root, target.relativePath);
 					const stat = await fs.stat(directoryPath).catch(() => undefined);
 					if (!stat || !stat.isDirectory()) {
 						throw new Error('Directory not found inside workspace.');
 					}
 
-					const files = await listFilesRecursively(directoryPath, folder.uri.fsPath);
+					const files = await listFilesRecursively(directoryPath, target.root);
 					if (files.length === 0) {
 						vscode.window.showInformationMessage('No files found in the selected directory.');
 						return;
 					}
 
 					await sessionManager.recordListTreeAndReadFiles(
-						toWorkspaceRelativeDirectoryPath(folder.uri.fsPath, directoryPath),
-						files,
+						toWorkspaceRelativeDirectoryPath(target.root, directoryPath, target.prefix),
+						files.map((file) => `${target.prefix}${file}`),
 					);
 
 					for (const file of files) {
-						const fileUri = vscode.Uri.joinPath(folder.uri, file);
+						const fileUri = vscode.Uri.file(path.join(target.root, file));
 						await vscode.commands.executeCommand('vscode.open', fileUri);
 					}
 
@@ -679,8 +1156,11 @@ export function activate(context: vscode.ExtensionContext) {
 			try {
 				const snapshot = await sessionManager.submitFileChangesCheckpoint();
 				vscode.window.showInformationMessage(
-					`Submitted file changes (${snapshot.filesChanged} files, ${snapshot.operationsApplied} patch operations). You can continue with pnpm commands.`,
+					`Submitted checkpoint ${snapshot.checkpoint} (${snapshot.filesChanged} files, ${snapshot.operationsApplied} patch operations). You can continue with pnpm commands and submit again.`,
 				);
+				if (snapshot.warnings.length > 0) {
+					vscode.window.showWarningMessage(snapshot.warnings.join(' '));
+				}
 				refreshSidebar();
 			} catch (error) {
 				vscode.window.showErrorMessage(toErrorMessage(error));
@@ -689,9 +1169,61 @@ export function activate(context: vscode.ExtensionContext) {
 	);
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand('dataset.stopSessionUpload', async () => {
+		vscode.commands.registerCommand(
+			'dataset.recordDiagnostics',
+			async (input?: { minSeverity?: EditorDiagnosticSeverity; path?: string }) => {
+				try {
+					if (!sessionManager.hasActiveSession()) {
+						throw new Error('Start a session before recording diagnostics.');
+					}
+
+					let minSeverity = input?.minSeverity;
+					if (!minSeverity) {
+						const picked = await vscode.window.showQuickPick(
+							[
+								{ label: 'Errors', severity: 'error' as const },
+								{ label: 'Errors and warnings', severity: 'warning' as const },
+								{ label: 'Errors, warnings and info', severity: 'info' as const },
+								{ label: 'Everything, including hints', severity: 'hint' as const },
+							],
+							{ placeHolder: 'Which Problems panel entries should repo.diagnostics record?' },
+						);
+						if (!picked) {
+							return;
+						}
+						minSeverity = picked.severity;
+					}
+
+					const result = await sessionManager.recordDiagnostics({ minSeverity, path: input?.path });
+					vscode.window.showInformationMessage(
+						`Recorded repo.diagnostics with ${result.count} problem${result.count === 1 ? '' : 's'}.`,
+					);
+					refreshSidebar();
+				} catch (error) {
+					vscode.window.showErrorMessage(toErrorMessage(error));
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('dataset.stopSessionUpload', async (input?: { finalSummary?: string }) => {
 			try {
-				const result = await sessionManager.stopAndBuildLocalRecord(context);
+				const providedSummary = (input?.finalSummary ?? '').trim();
+				const worktreePath = sessionManager.getActiveWorktreePath();
+				const result = await sessionManager.stopAndBuildLocalRecord(context, {
+					resolveFinalSummary: async (defaultSummary) =>
+						providedSummary ||
+						(await vscode.window.showInputBox({
+							prompt: 'Final assistant summary (Escape keeps the generated summary)',
+							value: defaultSummary,
+							ignoreFocusOut: true,
+						})),
+					resolveSecretHits: promptForSecretHits,
+				});
+				if (worktreePath && !keepWorktreeAfterStop()) {
+					removeWorkspaceFolder(worktreePath);
+				}
 				await addRecentArtifact(context, {
 					type: 'session',
 					path: result.outputPath,
@@ -709,6 +1241,25 @@ export function activate(context: vscode.ExtensionContext) {
 				const warningThreshold = vscode.workspace
 					.getConfiguration('dataset')
 					.get<number>('maxChangedFilesWarning', 50);
+				if (result.payload.verification && !result.payload.verification.ok) {
+					vscode.window.showWarningMessage(
+						`Replay verification failed for ${result.payload.verification.mismatches.length} file(s); the record was saved as draft. Run Dataset: Verify Session for details.`,
+					);
+				}
+				if (result.payload.status === 'needs-review' && result.payload.lint) {
+					const failedRules = result.payload.lint.rules
+						.filter((rule) => !rule.passed)
+						.map((rule) => rule.id)
+						.join(', ');
+					vscode.window.showWarningMessage(`Session saved as needs-review; failed record checks: ${failedRules}.`);
+				}
+				if (result.payload.omittedFiles?.length) {
+					vscode.window.showInformationMessage(
+						`${result.payload.omittedFiles.length} binary file(s) were recorded without content: ${result.payload.omittedFiles
+							.map((entry) => entry.path)
+							.join(', ')}`,
+					);
+				}
 				if (result.payload.metrics.filesChanged > warningThreshold) {
 					vscode.window.showWarningMessage(
 						`Large session detected (${result.payload.metrics.filesChanged} changed files). Consider smaller sessions for cleaner training data.`,
@@ -716,7 +1267,10 @@ export function activate(context: vscode.ExtensionContext) {
 				}
 				const api = await getCloudApiClient(context);
 				if (api) {
-					const uploadPayload = buildUploadPayload(result, uploadMode);
+					const uploadPayload = await prepareCloudUpload(result, sessionManager, {
+						uploadMode,
+						acceptedVersions: getCloudAcceptedSchemaVersions(),
+					});
 					const upload = await api.createSession(uploadPayload);
 					await addRecentArtifact(context, {
 						type: 'session',
@@ -781,7 +1335,7 @@ export function activate(context: vscode.ExtensionContext) {
 					exportDir,
 					`${taskId}-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`,
 				);
-				await fs.writeFile(outputPath, jsonl, 'utf8');
+				await fs.writeFile(outputPath, migrateExportJsonl(jsonl), 'utf8');
 				await addRecentArtifact(context, {
 					type: 'export',
 					path: outputPath,
@@ -805,10 +1359,18 @@ export function activate(context: vscode.ExtensionContext) {
 	);
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand('dataset.discardSession', () => {
-			sessionManager.discardSession();
-			vscode.window.showInformationMessage('Dataset session discarded.');
-			refreshSidebar();
+		vscode.commands.registerCommand('dataset.discardSession', async () => {
+			try {
+				const worktreePath = sessionManager.getActiveWorktreePath();
+				await sessionManager.discardSession();
+				if (worktreePath && !keepWorktreeAfterStop()) {
+					removeWorkspaceFolder(worktreePath);
+				}
+				vscode.window.showInformationMessage('Dataset session discarded.');
+				refreshSidebar();
+			} catch (error) {
+				vscode.window.showErrorMessage(toErrorMessage(error));
+			}
 		}),
 	);
 }
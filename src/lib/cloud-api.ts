@@ -1,3 +1,5 @@
+import type { SessionStatus } from './session-manager/session-status';
+
 export type CloudTask = {
 	id: string;
 	name: string;
@@ -45,8 +47,8 @@ export class CloudApiClient {
 	public async updateSessionRecord(
 		sessionId: string,
 		record: { messages: unknown[] },
-	): Promise<{ sessionId: string; status: 'draft' | 'ready' }> {
-		return this.request<{ sessionId: string; status: 'draft' | 'ready' }>(
+	): Promise<{ sessionId: string; status: SessionStatus }> {
+		return this.request<{ sessionId: string; status: SessionStatus }>(
 			'PUT',
 			`/sessions/${encodeURIComponent(sessionId)}`,
 			record,
@@ -0,0 +1,34 @@
+import type { CommandDiagnostic } from './command-diagnostic';
+
+const MAX_PROMPT_DIAGNOSTICS = 30;
+
+function formatLocation(diagnostic: CommandDiagnostic): string {
+	if (!diagnostic.file) {
+		return '';
+	}
+	const position = diagnostic.line ? `:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ''}` : '';
+	return `${diagnostic.file}${position} `;
+}
+
+export function buildFixErrorsPrompt(command: string, diagnostics: CommandDiagnostic[]): string {
+	const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+	const listed = errors.length > 0 ? errors : diagnostics;
+	const lines = listed
+		.slice(0, MAX_PROMPT_DIAGNOSTICS)
+		.map(
+			(diagnostic) =>
+				`- ${formatLocation(diagnostic)}${diagnostic.code ? `[${diagnostic.code}] ` : ''}${diagnostic.message}`,
+		);
+	if (listed.length > MAX_PROMPT_DIAGNOSTICS) {
+		lines.push(`- …and ${listed.length - MAX_PROMPT_DIAGNOSTICS} more`);
+	}
+
+	const noun = errors.length > 0 ? 'error' : 'problem';
+	return [
+		`\`${command}\` reports ${listed.length} ${noun}${listed.length === 1 ? '' : 's'}:`,
+		'',
+		...lines,
+		'',
+		`Fix ${listed.length === 1 ? 'it' : 'them'} without changing unrelated behavior, then rerun \`${command}\`.`,
+	].join('\n');
+}
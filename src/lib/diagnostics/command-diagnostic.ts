@@ -0,0 +1,11 @@
+export type DiagnosticTool = 'tsc' | 'eslint' | 'vitest' | 'jest' | 'next';
+
+export type CommandDiagnostic = {
+	tool: DiagnosticTool;
+	severity: 'error' | 'warning';
+	file?: string;
+	line?: number;
+	column?: number;
+	code?: string;
+	message: string;
+};
@@ -0,0 +1,32 @@
+import type { CommandDiagnostic } from './command-diagnostic';
+import { parseEslintDiagnostics } from './parse-eslint-diagnostics';
+import { parseNextBuildDiagnostics } from './parse-next-build-diagnostics';
+import { parseTestRunnerDiagnostics } from './parse-test-runner-diagnostics';
+import { parseTscDiagnostics } from './parse-tsc-diagnostics';
+
+export const MAX_COMMAND_DIAGNOSTICS = 200;
+
+export function parseCommandDiagnostics(output: string): CommandDiagnostic[] {
+	const normalized = output.replace(/\r\n?/g, '\n');
+	const seen = new Set<string>();
+	const diagnostics: CommandDiagnostic[] = [];
+
+	for (const diagnostic of [
+		...parseTscDiagnostics(normalized),
+		...parseEslintDiagnostics(normalized),
+		...parseTestRunnerDiagnostics(normalized),
+		...parseNextBuildDiagnostics(normalized),
+	]) {
+		const key = [diagnostic.file, diagnostic.line, diagnostic.column, diagnostic.code, diagnostic.message].join('|');
+		if (seen.has(key)) {
+			continue;
+		}
+		seen.add(key);
+		diagnostics.push(diagnostic);
+		if (diagnostics.length >= MAX_COMMAND_DIAGNOSTICS) {
+			break;
+		}
+	}
+
+	return diagnostics;
+}
@@ -0,0 +1,85 @@
+import type { CommandDiagnostic } from './command-diagnostic';
+
+const STYLISH_FILE_HEADER =
+	/^(?:(?:\/|[A-Za-z]:[\\/]).*|[\w.@-][^\s:]*\.(?:[cm]?[jt]sx?|vue|svelte|astro|json|md|mdx|html?|css|scss|ya?ml))$/;
+const STYLISH_MESSAGE = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.*?)(?:\s{2,}(@?[\w-]+(?:\/[\w-]+)*))?\s*$/;
+
+type EslintJsonResult = {
+	filePath?: unknown;
+	messages?: Array<{
+		line?: unknown;
+		column?: unknown;
+		severity?: unknown;
+		message?: unknown;
+		ruleId?: unknown;
+	}>;
+};
+
+function parseJsonReport(output: string): CommandDiagnostic[] | undefined {
+	const start = output.indexOf('[{"filePath"');
+	const end = output.lastIndexOf(']');
+	if (start < 0 || end < start) {
+		return undefined;
+	}
+
+	let results: EslintJsonResult[];
+	try {
+		results = JSON.parse(output.slice(start, end + 1)) as EslintJsonResult[];
+	} catch {
+		return undefined;
+	}
+
+	const diagnostics: CommandDiagnostic[] = [];
+	for (const result of results) {
+		for (const message of result.messages ?? []) {
+			if (typeof message.message !== 'string') {
+				continue;
+			}
+			diagnostics.push({
+				tool: 'eslint',
+				severity: message.severity === 2 ? 'error' : 'warning',
+				file: typeof result.filePath === 'string' ? result.filePath : undefined,
+				line: typeof message.line === 'number' ? message.line : undefined,
+				column: typeof message.column === 'number' ? message.column : undefined,
+				code: typeof message.ruleId === 'string' ? message.ruleId : undefined,
+				message: message.message,
+			});
+		}
+	}
+	return diagnostics;
+}
+
+function parseStylishReport(output: string): CommandDiagnostic[] {
+	const diagnostics: CommandDiagnostic[] = [];
+	let file: string | undefined;
+
+	for (const line of output.split('\n')) {
+		if (!line.trim()) {
+			file = undefined;
+			continue;
+		}
+		if (!/^\s/.test(line)) {
+			file = STYLISH_FILE_HEADER.test(line.trim()) ? line.trim() : undefined;
+			continue;
+		}
+
+		const match = file ? line.match(STYLISH_MESSAGE) : null;
+		if (match) {
+			diagnostics.push({
+				tool: 'eslint',
+				severity: match[3] as CommandDiagnostic['severity'],
+				file,
+				line: Number(match[1]),
+				column: Number(match[2]),
+				code: match[5],
+				message: match[4].trim(),
+			});
+		}
+	}
+
+	return diagnostics;
+}
+
+export function parseEslintDiagnostics(output: string): CommandDiagnostic[] {
+	return parseJsonReport(output) ?? parseStylishReport(output);
+}
@@ -0,0 +1,59 @@
+import type { CommandDiagnostic } from './command-diagnostic';
+
+const FILE_HEADER = /^\.\/(\S+?)(?::(\d+):(\d+))?\s*$/;
+const BUILD_ERROR = /^([A-Z][A-Za-z ]*?(?:error|Error|not found)):\s*(.*)$/;
+const LINT_MESSAGE = /^(\d+):(\d+)\s+(Error|Warning):\s+(.*?)(?:\s{2,}(@?[\w-]+(?:\/[\w-]+)*))?\s*$/;
+
+export function parseNextBuildDiagnostics(output: string): CommandDiagnostic[] {
+	const diagnostics: CommandDiagnostic[] = [];
+	let header: { file: string; line?: number; column?: number } | undefined;
+
+	for (const line of output.split('\n')) {
+		const text = line.trim();
+		const fileHeader = text.match(FILE_HEADER);
+		if (fileHeader) {
+			header = {
+				file: fileHeader[1],
+				line: fileHeader[2] ? Number(fileHeader[2]) : undefined,
+				column: fileHeader[3] ? Number(fileHeader[3]) : undefined,
+			};
+			continue;
+		}
+		if (!header) {
+			continue;
+		}
+		if (!text) {
+			header = undefined;
+			continue;
+		}
+
+		const lintMessage = text.match(LINT_MESSAGE);
+		if (lintMessage) {
+			diagnostics.push({
+				tool: 'next',
+				severity: lintMessage[3] === 'Error' ? 'error' : 'warning',
+				file: header.file,
+				line: Number(lintMessage[1]),
+				column: Number(lintMessage[2]),
+				code: lintMessage[5],
+				message: lintMessage[4].trim(),
+			});
+			continue;
+		}
+
+		const buildError = text.match(BUILD_ERROR);
+		if (buildError) {
+			diagnostics.push({
+				tool: 'next',
+				severity: 'error',
+				file: header.file,
+				line: header.line,
+				column: header.column,
+				message: `${buildError[1]}: ${buildError[2]}`.trim(),
+			});
+			header = undefined;
+		}
+	}
+
+	return diagnostics;
+}
@@ -0,0 +1,92 @@
+import type { CommandDiagnostic } from './command-diagnostic';
+
+const VITEST_FAIL = /^\s*FAIL\s+(\S+?)\s+>\s+(.+?)\s*$/;
+const VITEST_LOCATION = /^\s*❯\s+(\S+?):(\d+):(\d+)\s*$/;
+const JEST_FAIL = /^\s*FAIL\s+(\S+)\s*$/;
+const JEST_TEST = /^\s*●\s+(.+?)\s*$/;
+const JEST_LOCATION = /^\s*at\s+(?:.*?\()?(\S+?):(\d+):(\d+)\)?\s*$/;
+const SECTION_BREAK = /^\s*(?:PASS|FAIL)\s|^\s*Test (?:Files|Suites):|^\s*⎯{3,}/;
+
+type PendingFailure = {
+	diagnostic: CommandDiagnostic;
+	file: string;
+	located: boolean;
+};
+
+function sameFile(candidate: string, file: string): boolean {
+	const normalizedCandidate = candidate.replace(/\\/g, '/');
+	const normalizedFile = file.replace(/\\/g, '/').replace(/^\.\//, '');
+	return normalizedCandidate === normalizedFile || normalizedCandidate.endsWith(`/${normalizedFile}`);
+}
+
+export function parseTestRunnerDiagnostics(output: string): CommandDiagnostic[] {
+	const diagnostics: CommandDiagnostic[] = [];
+	let jestFile: string | undefined;
+	let pending: PendingFailure | undefined;
+	let testName = '';
+
+	const flush = () => {
+		if (pending) {
+			diagnostics.push(pending.diagnostic);
+		}
+		pending = undefined;
+	};
+
+	for (const line of output.split('\n')) {
+		const vitestFail = line.match(VITEST_FAIL);
+		if (vitestFail) {
+			flush();
+			jestFile = undefined;
+			testName = vitestFail[2];
+			pending = {
+				file: vitestFail[1],
+				located: false,
+				diagnostic: { tool: 'vitest', severity: 'error', file: vitestFail[1], message: testName },
+			};
+			continue;
+		}
+
+		const jestFail = line.match(JEST_FAIL);
+		if (jestFail) {
+			flush();
+			jestFile = jestFail[1];
+			continue;
+		}
+
+		const jestTest = jestFile ? line.match(JEST_TEST) : null;
+		if (jestTest && jestFile) {
+			flush();
+			testName = jestTest[1];
+			pending = {
+				file: jestFile,
+				located: false,
+				diagnostic: { tool: 'jest', severity: 'error', file: jestFile, message: testName },
+			};
+			continue;
+		}
+
+		if (!pending) {
+			continue;
+		}
+		if (SECTION_BREAK.test(line)) {
+			flush();
+			jestFile = undefined;
+			continue;
+		}
+
+		const location = line.match(VITEST_LOCATION) ?? line.match(JEST_LOCATION);
+		if (location && !pending.located && sameFile(location[1], pending.file)) {
+			pending.diagnostic.line = Number(location[2]);
+			pending.diagnostic.column = Number(location[3]);
+			pending.located = true;
+			continue;
+		}
+		const text = line.trim();
+		if (text && pending.diagnostic.message === testName && !location && !/^[>|\d]/.test(text)) {
+			pending.diagnostic.message = `${testName}: ${text}`;
+		}
+	}
+	flush();
+
+	return diagnostics;
+}
@@ -0,0 +1,46 @@
+import type { CommandDiagnostic } from './command-diagnostic';
+
+const PAREN_LOCATION = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/;
+const PRETTY_LOCATION = /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/;
+const NO_LOCATION = /^(error|warning) (TS\d+): (.*)$/;
+
+export function parseTscDiagnostics(output: string): CommandDiagnostic[] {
+	const diagnostics: CommandDiagnostic[] = [];
+	let continued: CommandDiagnostic | undefined;
+
+	for (const line of output.split('\n')) {
+		if (continued && /^\s{2,}\S/.test(line)) {
+			continued.message = `${continued.message} ${line.trim()}`;
+			continue;
+		}
+		continued = undefined;
+
+		const located = line.match(PAREN_LOCATION) ?? line.match(PRETTY_LOCATION);
+		if (located) {
+			const diagnostic: CommandDiagnostic = {
+				tool: 'tsc',
+				severity: located[4] as CommandDiagnostic['severity'],
+				file: located[1].trim(),
+				line: Number(located[2]),
+				column: Number(located[3]),
+				code: located[5],
+				message: located[6].trim(),
+			};
+			diagnostics.push(diagnostic);
+			continued = PAREN_LOCATION.test(line) ? diagnostic : undefined;
+			continue;
+		}
+
+		const global = line.match(NO_LOCATION);
+		if (global) {
+			diagnostics.push({
+				tool: 'tsc',
+				severity: global[1] as CommandDiagnostic['severity'],
+				code: global[2],
+				message: global[3].trim(),
+			});
+		}
+	}
+
+	return diagnostics;
+}
@@ -1,54 +1,49 @@
-import type { RunCmdArgs } from '../tooling';
+import type { AllowedRunCmd, RunCmdArgs } from '../tooling';
+import { formatAllowedRunCmd } from '../run-cmd/format-allowed-run-cmd';
+import type { PackageManager } from '../run-cmd/package-manager';
 
 export function buildRunCmdArgs(input: {
+	manager: PackageManager;
 	preset: 'install' | 'add' | 'addDev' | 'remove' | 'lint' | 'test' | 'build';
 	filter?: string;
 	packages?: string;
 	timeoutMs?: number;
 }): RunCmdArgs {
-	const args: string[] = [];
-	const filter = (input.filter ?? '').trim();
-	if (filter) {
-		args.push('--filter', filter);
-	}
+	const filter = (input.filter ?? '').trim() || undefined;
 
 	const packages = (input.packages ?? '')
 		.split(/\s+/)
 		.map((pkg) => pkg.trim())
 		.filter(Boolean);
 
+	let allowed: AllowedRunCmd;
 	switch (input.preset) {
 		case 'install':
-			args.push('i');
+			allowed = { kind: 'install', filter };
 			break;
 		case 'add':
-			if (packages.length === 0) {
-				throw new Error('Provide at least one package for pnpm add.');
-			}
-			args.push('add', ...packages);
-			break;
 		case 'addDev':
 			if (packages.length === 0) {
-				throw new Error('Provide at least one package for pnpm add -D.');
+				throw new Error(`Provide at least one package for ${input.manager} add${input.preset === 'addDev' ? ' -D' : ''}.`);
 			}
-			args.push('add', '-D', ...packages);
+			allowed = { kind: 'add', filter, dev: input.preset === 'addDev', packages };
 			break;
 		case 'remove':
 			if (packages.length === 0) {
-				throw new Error('Provide at least one package for pnpm remove.');
+				throw new Error(`Provide at least one package for ${input.manager} remove.`);
 			}
-			args.push('remove', ...packages);
+			allowed = { kind: 'remove', filter, packages };
 			break;
 		case 'lint':
 		case 'test':
 		case 'build':
-			args.push(input.preset);
+			allowed = { kind: input.preset, filter };
 			break;
 	}
 
 	return {
-		cmd: 'pnpm',
-		args,
+		cmd: input.manager,
+		args: formatAllowedRunCmd(input.manager, allowed),
 		timeoutMs: input.timeoutMs,
 	};
 }
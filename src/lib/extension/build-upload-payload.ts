@@ -1,16 +1,66 @@
 import type { BuiltSessionResult } from '../session-manager';
+import type { SecretDetector } from '../secret-detector/create-secret-detector';
+import { redactRecordSecrets } from '../session-manager/redact-record-secrets';
+import type { PayloadAnonymizer } from '../session-manager/create-payload-anonymizer';
+import { anonymizeRecord } from '../session-manager/anonymize-record';
+import { getRequiredRecordSchemaVersion } from '../record-schema';
+
+const REDACTED_LOCAL_PATH = '[redacted-local-path]';
 
 export function buildUploadPayload(
 	result: BuiltSessionResult,
 	uploadMode: 'full' | 'metadataOnly',
+	privacy: { detector: SecretDetector; anonymizer?: PayloadAnonymizer },
 ): BuiltSessionResult['payload'] {
+	const record = structuredClone(result.payload.record);
+	redactRecordSecrets(record, privacy.detector);
+
 	if (uploadMode === 'full') {
-		return result.payload;
+		const { anonymizer } = privacy;
+		if (!anonymizer) {
+			return { ...result.payload, schemaVersion: getRequiredRecordSchemaVersion(record), record };
+		}
+		anonymizeRecord(record, anonymizer);
+		return {
+			...result.payload,
+			schemaVersion: getRequiredRecordSchemaVersion(record),
+			repo: {
+				...result.payload.repo,
+				root: REDACTED_LOCAL_PATH,
+				remote: anonymizer.remote(result.payload.repo.remote),
+			},
+			repos: result.payload.repos.map((repo) => ({
+				...repo,
+				root: REDACTED_LOCAL_PATH,
+				remote: anonymizer.remote(repo.remote),
+			})),
+			metrics: {
+				...result.payload.metrics,
+				commandResults: result.payload.metrics.commandResults.map((commandResult) => ({
+					...commandResult,
+					diagnostics: commandResult.diagnostics?.map((diagnostic) => ({
+						...diagnostic,
+						file: diagnostic.file === undefined ? undefined : anonymizer.text(diagnostic.file),
+						message: anonymizer.text(diagnostic.message),
+					})),
+				})),
+			},
+			verification: result.payload.verification && {
+				...result.payload.verification,
+				mismatches: result.payload.verification.mismatches.map((mismatch) => ({
+					path: anonymizer.text(mismatch.path),
+					reason: anonymizer.text(mismatch.reason),
+				})),
+			},
+			patchWarnings: result.payload.patchWarnings?.map(anonymizer.text),
+			record,
+		};
 	}
 
-	const baseMessages = result.payload.record.messages.filter(
-		(message) => message.role === 'system' || message.role === 'user',
-	);
+	const baseMessages = record.messages.filter((message) => message.role === 'system' || message.role === 'user');
+	if (privacy.anonymizer) {
+		anonymizeRecord({ messages: baseMessages }, privacy.anonymizer);
+	}
 
 	const metadataRecord = {
 		messages: [
@@ -24,14 +74,19 @@ export function buildUploadPayload(
 
 	return {
 		...result.payload,
+		schemaVersion: getRequiredRecordSchemaVersion(metadataRecord),
 		repo: {
 			...result.payload.repo,
-			root: '[redacted-local-path]',
+			root: REDACTED_LOCAL_PATH,
 			remote: undefined,
 		},
+		repos: result.payload.repos.map((repo) => ({ ...repo, root: REDACTED_LOCAL_PATH, remote: undefined })),
 		metrics: {
 			filesChanged: result.payload.metrics.filesChanged,
+			checkpoints: result.payload.metrics.checkpoints,
+			turnCount: result.payload.metrics.turnCount,
 			commandsRun: [],
+			commandResults: [],
 		},
 		status: 'draft',
 		record: metadataRecord,
@@ -0,0 +1,11 @@
+import * as vscode from 'vscode';
+import { LATEST_RECORD_SCHEMA_VERSION } from '../record-schema';
+
+export function getCloudAcceptedSchemaVersions(): number[] {
+	const configured = vscode.workspace
+		.getConfiguration('dataset')
+		.get<unknown[]>('cloudAcceptedSchemaVersions', [1, LATEST_RECORD_SCHEMA_VERSION]);
+	return (Array.isArray(configured) ? configured : []).filter(
+		(version): version is number => typeof version === 'number' && Number.isInteger(version),
+	);
+}
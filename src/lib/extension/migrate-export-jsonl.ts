@@ -0,0 +1,26 @@
+import { migrateSessionRecord } from '../record-schema';
+
+export function migrateExportJsonl(jsonl: string): string {
+	return jsonl
+		.split(/\r?\n/)
+		.map((line) => {
+			const trimmed = line.trim();
+			if (!trimmed) {
+				return line;
+			}
+
+			let parsed: unknown;
+			try {
+				parsed = JSON.parse(trimmed);
+			} catch {
+				return line;
+			}
+			if (!parsed || typeof parsed !== 'object' || !('record' in parsed)) {
+				return line;
+			}
+
+			const migration = migrateSessionRecord(parsed);
+			return migration.migrated ? JSON.stringify(migration.payload) : line;
+		})
+		.join('\n');
+}
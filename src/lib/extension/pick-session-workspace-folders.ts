@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+
+export async function pickSessionWorkspaceFolders(): Promise<vscode.WorkspaceFolder[] | undefined> {
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	if (folders.length === 0) {
+		throw new Error('Open a workspace folder to use dataset tools.');
+	}
+
+	if (folders.length === 1) {
+		return [folders[0]];
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		folders.map((folder) => ({
+			label: folder.name,
+			description: folder.uri.fsPath,
+			picked: folder.index === 0,
+			folder,
+		})),
+		{
+			canPickMany: true,
+			placeHolder: 'Select the workspace folder(s) to record in this session',
+			ignoreFocusOut: true,
+		},
+	);
+
+	if (!picked || picked.length === 0) {
+		return undefined;
+	}
+
+	return picked.map((item) => item.folder);
+}
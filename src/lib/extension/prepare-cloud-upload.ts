@@ -0,0 +1,16 @@
+import type { BuiltSessionResult, SessionManager } from '../session-manager';
+import { assertRecordSchemaVersionAccepted } from '../record-schema';
+import { buildUploadPayload } from './build-upload-payload';
+
+export async function prepareCloudUpload(
+	result: BuiltSessionResult,
+	privacy: Pick<SessionManager, 'getSecretDetector' | 'getPayloadAnonymizer'>,
+	options: { uploadMode: 'full' | 'metadataOnly'; acceptedVersions: number[] },
+): Promise<BuiltSessionResult['payload']> {
+	const uploadPayload = buildUploadPayload(result, options.uploadMode, {
+		detector: await privacy.getSecretDetector(result.payload.repos.map((repo) => repo.root)),
+		anonymizer: privacy.getPayloadAnonymizer(result.payload.repos),
+	});
+	assertRecordSchemaVersionAccepted(uploadPayload, options.acceptedVersions);
+	return uploadPayload;
+}
@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+import type { SecretHit, SecretHitAction } from '../session-manager/secret-types';
+
+const MAX_LISTED_HITS = 20;
+
+export async function promptForSecretHits(hits: SecretHit[]): Promise<SecretHitAction> {
+	const listed = hits
+		.slice(0, MAX_LISTED_HITS)
+		.map((hit) => `${hit.path ?? hit.source}:${hit.line} (${hit.rule})`);
+	if (hits.length > MAX_LISTED_HITS) {
+		listed.push(`…and ${hits.length - MAX_LISTED_HITS} more`);
+	}
+
+	const choice = await vscode.window.showWarningMessage(
+		`The record contains ${hits.length} possible secret(s).`,
+		{
+			modal: true,
+			detail: `${listed.join('\n')}\n\nRedact replaces matches with [REDACTED]. Exclude files drops the affected files from the record and redacts the rest.`,
+		},
+		'Redact',
+		'Exclude files',
+		'Abort',
+	);
+
+	if (choice === 'Redact') {
+		return 'redact';
+	}
+	if (choice === 'Exclude files') {
+		return 'exclude';
+	}
+	return 'abort';
+}
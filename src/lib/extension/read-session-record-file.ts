@@ -0,0 +1,12 @@
+import * as fs from 'node:fs/promises';
+import type { BuiltSessionResult } from '../session-manager';
+import { migrateSessionRecord } from '../record-schema';
+
+export async function readSessionRecordFile(filePath: string): Promise<BuiltSessionResult['payload']> {
+	const raw = await fs.readFile(filePath, 'utf8');
+	const migration = migrateSessionRecord<BuiltSessionResult['payload']>(JSON.parse(raw));
+	if (migration.migrated) {
+		await fs.writeFile(filePath, JSON.stringify(migration.payload, null, 2), 'utf8');
+	}
+	return migration.payload;
+}
@@ -1,7 +1,9 @@
+import type { SessionStatus } from '../session-manager/session-status';
+
 export type RecentArtifact = {
 	type: 'session' | 'export';
 	path: string;
 	createdAt: string;
-	status?: 'draft' | 'ready';
+	status?: SessionStatus;
 	cloudSessionId?: string;
 };
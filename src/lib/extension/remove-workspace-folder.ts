@@ -0,0 +1,13 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+
+export function removeWorkspaceFolder(folderPath: string): void {
+	const target = path.resolve(folderPath);
+	const folder = vscode.workspace.workspaceFolders?.find(
+		(candidate) => path.resolve(candidate.uri.fsPath) === target,
+	);
+	if (!folder) {
+		return;
+	}
+	vscode.workspace.updateWorkspaceFolders(folder.index, 1);
+}
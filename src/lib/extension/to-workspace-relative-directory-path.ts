@@ -3,10 +3,11 @@ import * as path from 'node:path';
 export function toWorkspaceRelativeDirectoryPath(
 	workspaceRoot: string,
 	absoluteDirectoryPath: string,
+	prefix = '',
 ): string {
 	const relative = path.relative(workspaceRoot, absoluteDirectoryPath).replace(/\\/g, '/');
 	if (!relative || relative === '.') {
-		return '.';
+		return prefix ? `./${prefix.replace(/\/$/, '')}` : '.';
 	}
-	return `./${relative}`;
+	return `./${prefix}${relative}`;
 }
@@ -8,6 +8,10 @@ export function makeUser(content: string) {
 	return { role: 'user' as const, content };
 }
 
+export function makeAssistantText(content: string) {
+	return { role: 'assistant' as const, content };
+}
+
 export function makeToolCallMessage(
 	callId: string,
 	toolName: ToolName,
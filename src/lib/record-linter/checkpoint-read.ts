@@ -0,0 +1,7 @@
+// Checkpoints insert a repo.readFile before each patched file so the record carries its old content; the agent never
+// asked for these reads, so they carry their own call id prefix.
+export const CHECKPOINT_READ_CALL_PREFIX = 'checkpoint_read';
+
+export function isCheckpointReadCallId(callId: string): boolean {
+	return callId.startsWith(`${CHECKPOINT_READ_CALL_PREFIX}_`);
+}
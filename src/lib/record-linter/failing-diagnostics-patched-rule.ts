@@ -0,0 +1,52 @@
+import type { ApplyPatchArgs } from '../tooling';
+import { listToolCalls } from './list-tool-calls';
+import type { RecordLintRule } from './types';
+
+// Diagnostics inside the session's repos are stored repo-relative; anything else (other checkouts, global
+// caches) stays absolute. Dependencies can't be patched either, so neither counts.
+function isPatchableRepoPath(file: string): boolean {
+	return !/^(?:[\\/]|[A-Za-z]:[\\/]|~|<tmp>|\.\.(?:[\\/]|$))/.test(file) && !/(?:^|[\\/])node_modules[\\/]/.test(file);
+}
+
+export const failingDiagnosticsPatchedRule: RecordLintRule = {
+	id: 'failing-diagnostics-patched',
+	description: 'Every repo file with an error reported by a failing command was patched afterwards.',
+	requiresCommands: true,
+	check: ({ record, commandOutcomes }) => {
+		const unpatched = new Map<string, string>();
+
+		for (const { call, args } of listToolCalls(record)) {
+			if (call.function.name === 'run_cmd') {
+				const outcome = commandOutcomes.get(call.id);
+				if (!outcome?.failed) {
+					continue;
+				}
+				for (const diagnostic of outcome.diagnostics ?? []) {
+					if (
+						diagnostic.severity === 'error' &&
+						diagnostic.file &&
+						isPatchableRepoPath(diagnostic.file) &&
+						!unpatched.has(diagnostic.file)
+					) {
+						unpatched.set(diagnostic.file, call.id);
+					}
+				}
+				continue;
+			}
+			if (call.function.name !== 'apply_patch') {
+				continue;
+			}
+
+			for (const operation of (args as Partial<ApplyPatchArgs>).data?.action?.operations ?? []) {
+				unpatched.delete(operation.path);
+				if (operation.type === 'move_file') {
+					unpatched.delete(operation.from);
+				}
+			}
+		}
+
+		return [...unpatched].map(
+			([file, callId]) => `${callId}: ${file} has errors but no later apply_patch touched it`,
+		);
+	},
+};
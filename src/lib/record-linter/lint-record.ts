@@ -0,0 +1,37 @@
+import { failingDiagnosticsPatchedRule } from './failing-diagnostics-patched-rule';
+import { readBeforeEditRule } from './read-before-edit-rule';
+import { searchBeforeMultiEditRule } from './search-before-multi-edit-rule';
+import type { RecordLintContext, RecordLintReport, RecordLintRule } from './types';
+import { validationAfterLastPatchRule } from './validation-after-last-patch-rule';
+
+export const DEFAULT_RECORD_LINT_RULES: RecordLintRule[] = [
+	readBeforeEditRule,
+	searchBeforeMultiEditRule,
+	validationAfterLastPatchRule,
+	failingDiagnosticsPatchedRule,
+];
+
+// Mined commits have no recorded commands or agent reads, so rules that judge those would always fail on them.
+export function listMinedCommitLintRules(rules: RecordLintRule[]): RecordLintRule[] {
+	return rules.filter((rule) => !rule.requiresCommands && !rule.requiresRecordedReads);
+}
+
+export function lintRecord(
+	context: RecordLintContext,
+	rules: RecordLintRule[] = DEFAULT_RECORD_LINT_RULES,
+): RecordLintReport {
+	const results = rules.map((rule) => {
+		const violations = rule.check(context);
+		return {
+			id: rule.id,
+			description: rule.description,
+			passed: violations.length === 0,
+			violations,
+		};
+	});
+
+	return {
+		passed: results.every((result) => result.passed),
+		rules: results,
+	};
+}
@@ -0,0 +1,28 @@
+import type { ToolCall, TrainingRecord } from '../tooling';
+
+export type ParsedToolCall = {
+	call: ToolCall;
+	args: Record<string, unknown>;
+};
+
+export function listToolCalls(record: TrainingRecord): ParsedToolCall[] {
+	const calls: ParsedToolCall[] = [];
+
+	for (const message of record.messages) {
+		if (message.role !== 'assistant' || !('tool_calls' in message)) {
+			continue;
+		}
+
+		for (const call of message.tool_calls) {
+			let args: Record<string, unknown>;
+			try {
+				args = JSON.parse(call.function.arguments) as Record<string, unknown>;
+			} catch {
+				args = {};
+			}
+			calls.push({ call, args });
+		}
+	}
+
+	return calls;
+}
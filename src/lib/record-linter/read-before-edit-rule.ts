@@ -0,0 +1,51 @@
+import type { ApplyPatchArgs } from '../tooling';
+import { isCheckpointReadCallId } from './checkpoint-read';
+import { listToolCalls } from './list-tool-calls';
+import type { RecordLintRule } from './types';
+
+export const readBeforeEditRule: RecordLintRule = {
+	id: 'read-before-edit',
+	description: 'Every updated, moved or deleted file was read (or created) before the patch that changes it.',
+	requiresRecordedReads: true,
+	check: ({ record }) => {
+		const known = new Set<string>();
+		const violations: string[] = [];
+
+		for (const { call, args } of listToolCalls(record)) {
+			if (call.function.name === 'repo.readFile') {
+				if (typeof args.path === 'string' && !isCheckpointReadCallId(call.id)) {
+					known.add(args.path);
+				}
+				continue;
+			}
+			if (call.function.name !== 'apply_patch') {
+				continue;
+			}
+
+			const operations = (args as Partial<ApplyPatchArgs>).data?.action?.operations ?? [];
+			for (const operation of operations) {
+				const sourcePath = operation.type === 'move_file' ? operation.from : operation.path;
+				const needsRead =
+					operation.type === 'update_file' ||
+					operation.type === 'move_file' ||
+					operation.type === 'delete_file' ||
+					(operation.type === 'binary_file' && operation.action === 'update');
+				if (needsRead && !known.has(sourcePath)) {
+					violations.push(`${call.id}: ${operation.type} ${sourcePath} without a prior repo.readFile`);
+				}
+			}
+			for (const operation of operations) {
+				if (operation.type === 'delete_file') {
+					known.delete(operation.path);
+					continue;
+				}
+				if (operation.type === 'move_file') {
+					known.delete(operation.from);
+				}
+				known.add(operation.path);
+			}
+		}
+
+		return violations;
+	},
+};
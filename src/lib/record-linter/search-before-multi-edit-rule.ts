@@ -0,0 +1,44 @@
+import type { ApplyPatchArgs } from '../tooling';
+import type { RecordLintRule } from './types';
+
+export const searchBeforeMultiEditRule: RecordLintRule = {
+	id: 'search-before-multi-edit',
+	description: 'Patches touching more than one file are preceded by repo.search in the same user turn.',
+	check: ({ record }) => {
+		const violations: string[] = [];
+		let searchedThisTurn = false;
+
+		for (const message of record.messages) {
+			if (message.role === 'user') {
+				searchedThisTurn = false;
+				continue;
+			}
+			if (message.role !== 'assistant' || !('tool_calls' in message)) {
+				continue;
+			}
+
+			for (const call of message.tool_calls) {
+				if (call.function.name === 'repo.search') {
+					searchedThisTurn = true;
+					continue;
+				}
+				if (call.function.name !== 'apply_patch') {
+					continue;
+				}
+
+				let operations: ApplyPatchArgs['data']['action']['operations'];
+				try {
+					operations = (JSON.parse(call.function.arguments) as ApplyPatchArgs).data?.action?.operations ?? [];
+				} catch {
+					continue;
+				}
+				const touched = new Set(operations.map((operation) => operation.path));
+				if (touched.size > 1 && !searchedThisTurn) {
+					violations.push(`${call.id}: patch touches ${touched.size} files without a prior repo.search`);
+				}
+			}
+		}
+
+		return violations;
+	},
+};
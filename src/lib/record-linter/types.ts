@@ -0,0 +1,36 @@
+import type { CommandDiagnostic } from '../diagnostics/command-diagnostic';
+import type { TrainingRecord } from '../tooling';
+
+export type RecordLintContext = {
+	record: TrainingRecord;
+	commandOutcomes: Map<
+		string,
+		{
+			failed: boolean;
+			exitCode?: number | null;
+			timedOut?: boolean;
+			validation?: boolean;
+			diagnostics?: CommandDiagnostic[];
+		}
+	>;
+};
+
+export type RecordLintRule = {
+	id: string;
+	description: string;
+	requiresCommands?: boolean;
+	requiresRecordedReads?: boolean;
+	check: (context: RecordLintContext) => string[];
+};
+
+export type RecordLintRuleResult = {
+	id: string;
+	description: string;
+	passed: boolean;
+	violations: string[];
+};
+
+export type RecordLintReport = {
+	passed: boolean;
+	rules: RecordLintRuleResult[];
+};
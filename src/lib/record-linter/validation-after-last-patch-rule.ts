@@ -0,0 +1,46 @@
+import { isValidationRunCmdArgs } from '../run-cmd/is-validation-run-cmd';
+import type { RunCmdArgs } from '../tooling';
+import { listToolCalls } from './list-tool-calls';
+import type { RecordLintRule } from './types';
+
+export const validationAfterLastPatchRule: RecordLintRule = {
+	id: 'validation-after-last-patch-passed',
+	description: 'A validation command (lint, test, build, typecheck) ran after the last patch and its final run passed.',
+	requiresCommands: true,
+	check: ({ record, commandOutcomes }) => {
+		const calls = listToolCalls(record);
+		const lastPatchIndex = calls.map((entry) => entry.call.function.name).lastIndexOf('apply_patch');
+		if (lastPatchIndex < 0) {
+			return ['record has no apply_patch call'];
+		}
+
+		const validations = calls.slice(lastPatchIndex + 1).filter(({ call, args }) => {
+			if (call.function.name !== 'run_cmd') {
+				return false;
+			}
+			const validation = commandOutcomes.get(call.id)?.validation;
+			if (validation !== undefined) {
+				return validation;
+			}
+			return Array.isArray((args as Partial<RunCmdArgs>).args) && isValidationRunCmdArgs(args as RunCmdArgs);
+		});
+		const lastValidation = validations[validations.length - 1];
+		if (!lastValidation) {
+			return ['no validation command ran after the last apply_patch'];
+		}
+
+		const outcome = commandOutcomes.get(lastValidation.call.id);
+		if (!outcome) {
+			return [`${lastValidation.call.id}: outcome of the last validation command is unknown`];
+		}
+		if (outcome.exitCode === undefined) {
+			return outcome.failed ? [`${lastValidation.call.id}: last validation command failed`] : [];
+		}
+		if (outcome.timedOut) {
+			return [`${lastValidation.call.id}: last validation command timed out`];
+		}
+		return outcome.exitCode === 0
+			? []
+			: [`${lastValidation.call.id}: last validation command exited with ${outcome.exitCode ?? 'no exit code'}`];
+	},
+};
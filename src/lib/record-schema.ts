@@ -0,0 +1,131 @@
+import { collectApplyPatchOperations } from './session-manager/collect-apply-patch-operations';
+import type { TrainingRecord } from './tooling';
+
+export type RecordSchemaVersion = 1 | 2;
+
+export const LATEST_RECORD_SCHEMA_VERSION: RecordSchemaVersion = 2;
+
+export const MOVE_FILE_RECORD_SCHEMA_VERSION: RecordSchemaVersion = 2;
+
+type VersionedPayload = Record<string, unknown>;
+
+type RecordMigration = (payload: VersionedPayload) => VersionedPayload;
+
+const RECORD_MIGRATIONS: Record<number, RecordMigration> = {
+	0: migrateUnversionedToV1,
+	1: migrateV1ToV2,
+};
+
+export function getRecordSchemaVersion(payload: unknown): number {
+	if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+		throw new Error('Session record must be a JSON object.');
+	}
+
+	const version = (payload as VersionedPayload).schemaVersion;
+	if (version === undefined) {
+		return 0;
+	}
+	if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+		throw new Error(`Invalid session record schemaVersion: ${JSON.stringify(version)}`);
+	}
+	return version;
+}
+
+export function migrateSessionRecord<T>(
+	payload: unknown,
+	targetVersion: RecordSchemaVersion = LATEST_RECORD_SCHEMA_VERSION,
+): { payload: T; fromVersion: number; migrated: boolean } {
+	const fromVersion = getRecordSchemaVersion(payload);
+	if (fromVersion > LATEST_RECORD_SCHEMA_VERSION) {
+		throw new Error(
+			`Session record schemaVersion ${fromVersion} is newer than this extension supports (${LATEST_RECORD_SCHEMA_VERSION}).`,
+		);
+	}
+
+	let current = payload as VersionedPayload;
+	let version = fromVersion;
+	while (version < targetVersion) {
+		const migration = RECORD_MIGRATIONS[version];
+		if (!migration) {
+			throw new Error(`No migration registered from session record schemaVersion ${version}.`);
+		}
+		current = migration(current);
+		version = getRecordSchemaVersion(current);
+	}
+
+	const record = current.record as { messages?: unknown } | undefined;
+	if (!record || !Array.isArray(record.messages)) {
+		throw new Error('Session record is missing record.messages.');
+	}
+
+	return { payload: current as T, fromVersion, migrated: version !== fromVersion };
+}
+
+// Stamp the oldest version that can read the record, so consumers that predate move_file keep accepting
+// records that only use delete_file + create_file.
+export function getRequiredRecordSchemaVersion(record: TrainingRecord): RecordSchemaVersion {
+	return collectApplyPatchOperations(record).some((operation) => operation.type === 'move_file')
+		? MOVE_FILE_RECORD_SCHEMA_VERSION
+		: 1;
+}
+
+export function assertRecordSchemaVersionAccepted(payload: unknown, acceptedVersions: number[]): void {
+	const version = getRecordSchemaVersion(payload);
+	if (!acceptedVersions.includes(version)) {
+		throw new Error(
+			`Cloud does not accept record schemaVersion ${version} (accepted: ${acceptedVersions.join(', ') || 'none'}).`,
+		);
+	}
+}
+
+function migrateUnversionedToV1(payload: VersionedPayload): VersionedPayload {
+	const repo = (payload.repo ?? {}) as Record<string, unknown>;
+	const record = (payload.record ?? {}) as { messages?: Array<{ role?: unknown }> };
+	const metrics = (payload.metrics ?? {}) as Record<string, unknown>;
+	const messages = Array.isArray(record.messages) ? record.messages : [];
+
+	return {
+		...payload,
+		schemaVersion: 1,
+		repos: Array.isArray(payload.repos)
+			? payload.repos
+			: [
+					{
+						...repo,
+						prefix: '',
+						baseRef: payload.baseRef,
+						headRef: payload.headRef ?? payload.baseRef,
+						baseline: 'head',
+					},
+				],
+		metrics: {
+			...metrics,
+			checkpoints: typeof metrics.checkpoints === 'number' ? metrics.checkpoints : 1,
+			turnCount:
+				typeof metrics.turnCount === 'number'
+					? metrics.turnCount
+					: messages.filter((message) => message.role === 'user').length,
+			commandsRun: Array.isArray(metrics.commandsRun) ? metrics.commandsRun : [],
+			commandResults: listCommandResults(metrics),
+		},
+	};
+}
+
+function migrateV1ToV2(payload: VersionedPayload): VersionedPayload {
+	const metrics = (payload.metrics ?? {}) as Record<string, unknown>;
+	return {
+		...payload,
+		schemaVersion: 2,
+		metrics: { ...metrics, commandResults: listCommandResults(metrics) },
+	};
+}
+
+function listCommandResults(metrics: Record<string, unknown>): unknown[] {
+	if (Array.isArray(metrics.commandResults)) {
+		return metrics.commandResults;
+	}
+	const commandsRun = Array.isArray(metrics.commandsRun) ? metrics.commandsRun : [];
+	return commandsRun
+		.filter((command): command is string => typeof command === 'string')
+		.map((command) => ({ command, exitCode: null, signal: null, timedOut: false, cancelled: false }));
+}
@@ -0,0 +1,40 @@
+import type { AllowedRunCmd, RunCmdArgs } from '../tooling';
+import type { DiscoveredScript } from './discover-package-scripts';
+import { formatAllowedRunCmd } from './format-allowed-run-cmd';
+import type { PackageManager } from './package-manager';
+
+function selectWorkspace(
+	manager: PackageManager,
+	script: Pick<DiscoveredScript, 'packageDir' | 'packageName'>,
+): string | undefined {
+	if (script.packageDir === '.') {
+		return undefined;
+	}
+	if (script.packageName) {
+		return script.packageName;
+	}
+	if (manager === 'yarn') {
+		throw new Error(`yarn workspace needs a package name, but ${script.packageDir}/package.json has none.`);
+	}
+	return `./${script.packageDir}`;
+}
+
+export function buildScriptRunCmd(
+	manager: PackageManager,
+	script: Pick<DiscoveredScript, 'script' | 'packageDir' | 'packageName'>,
+	extraArgs: string[],
+	cwd?: string,
+): RunCmdArgs {
+	const filter = selectWorkspace(manager, script);
+	const name = script.script;
+	const allowed: AllowedRunCmd =
+		(name === 'lint' || name === 'test' || name === 'build') && extraArgs.length === 0
+			? { kind: name, filter }
+			: { kind: 'script', name, args: extraArgs, filter };
+
+	return {
+		cmd: manager,
+		args: formatAllowedRunCmd(manager, allowed),
+		cwd,
+	};
+}
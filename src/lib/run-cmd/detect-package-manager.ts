@@ -0,0 +1,66 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { isPackageManager, type PackageManager } from './package-manager';
+
+export type DetectedPackageManager = {
+	manager: PackageManager;
+	source: string;
+};
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+	['pnpm-lock.yaml', 'pnpm'],
+	['bun.lock', 'bun'],
+	['bun.lockb', 'bun'],
+	['yarn.lock', 'yarn'],
+	['package-lock.json', 'npm'],
+	['npm-shrinkwrap.json', 'npm'],
+];
+
+async function readPackageManagerField(dir: string): Promise<PackageManager | undefined> {
+	try {
+		const parsed = JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf8')) as {
+			packageManager?: unknown;
+		};
+		if (typeof parsed.packageManager !== 'string') {
+			return undefined;
+		}
+		const name = parsed.packageManager.split('@')[0].trim();
+		return isPackageManager(name) ? name : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+async function exists(filePath: string): Promise<boolean> {
+	try {
+		await fs.access(filePath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+export async function detectPackageManager(cwd: string, repoRoot: string): Promise<DetectedPackageManager> {
+	const root = path.resolve(repoRoot);
+	let dir = path.resolve(cwd);
+
+	while (true) {
+		const fromField = await readPackageManagerField(dir);
+		if (fromField) {
+			return { manager: fromField, source: path.join(dir, 'package.json') };
+		}
+		for (const [lockfile, manager] of LOCKFILES) {
+			if (await exists(path.join(dir, lockfile))) {
+				return { manager, source: path.join(dir, lockfile) };
+			}
+		}
+
+		const parent = path.dirname(dir);
+		if (dir === root || parent === dir || path.relative(root, dir).startsWith('..')) {
+			break;
+		}
+		dir = parent;
+	}
+
+	return { manager: 'pnpm', source: 'default' };
+}
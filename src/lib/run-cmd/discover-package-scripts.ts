@@ -0,0 +1,94 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { globMatch } from '../session-manager/glob-match';
+
+export type DiscoveredScript = {
+	script: string;
+	command: string;
+	packageDir: string;
+	packageName?: string;
+};
+
+type PackageJson = {
+	name?: unknown;
+	scripts?: unknown;
+	workspaces?: unknown;
+};
+
+async function readPackageJson(filePath: string): Promise<PackageJson | undefined> {
+	try {
+		return JSON.parse(await fs.readFile(filePath, 'utf8')) as PackageJson;
+	} catch {
+		return undefined;
+	}
+}
+
+async function readPnpmWorkspacePatterns(repoRoot: string): Promise<string[]> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(path.join(repoRoot, 'pnpm-workspace.yaml'), 'utf8');
+	} catch {
+		return [];
+	}
+
+	const patterns: string[] = [];
+	let inPackages = false;
+	for (const line of raw.split(/\r?\n/)) {
+		if (/^packages\s*:/.test(line)) {
+			inPackages = true;
+			continue;
+		}
+		if (inPackages && /^\S/.test(line)) {
+			break;
+		}
+		const match = inPackages ? line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/) : null;
+		if (match) {
+			patterns.push(match[1]);
+		}
+	}
+	return patterns;
+}
+
+function readWorkspacesField(pkg: PackageJson | undefined): string[] {
+	const field = pkg?.workspaces;
+	const list = Array.isArray(field) ? field : (field as { packages?: unknown } | undefined)?.packages;
+	return Array.isArray(list) ? list.filter((entry): entry is string => typeof entry === 'string') : [];
+}
+
+function isWorkspaceDir(dir: string, patterns: string[]): boolean {
+	const matches = (pattern: string) => {
+		const normalized = pattern.replace(/^\.\//, '').replace(/\/$/, '');
+		return dir === normalized || globMatch(dir, normalized);
+	};
+	const included = patterns.some((pattern) => !pattern.startsWith('!') && matches(pattern));
+	const excluded = patterns.some((pattern) => pattern.startsWith('!') && matches(pattern.slice(1)));
+	return included && !excluded;
+}
+
+function listScripts(pkg: PackageJson | undefined, packageDir: string): DiscoveredScript[] {
+	if (!pkg?.scripts || typeof pkg.scripts !== 'object') {
+		return [];
+	}
+	const packageName = typeof pkg.name === 'string' && pkg.name.trim() ? pkg.name.trim() : undefined;
+	return Object.entries(pkg.scripts as Record<string, unknown>)
+		.filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+		.map(([script, command]) => ({ script, command, packageDir, packageName }));
+}
+
+export async function discoverPackageScripts(repoRoot: string, packageJsonPaths: string[]): Promise<DiscoveredScript[]> {
+	const rootPackage = await readPackageJson(path.join(repoRoot, 'package.json'));
+	const patterns = [...readWorkspacesField(rootPackage), ...(await readPnpmWorkspacePatterns(repoRoot))];
+	const scripts = listScripts(rootPackage, '.');
+	if (patterns.length === 0) {
+		return scripts;
+	}
+
+	const workspaceDirs = packageJsonPaths
+		.map((entry) => path.posix.dirname(entry.replace(/\\/g, '/')))
+		.filter((dir) => dir !== '.' && isWorkspaceDir(dir, patterns))
+		.sort((a, b) => a.localeCompare(b));
+	for (const dir of workspaceDirs) {
+		scripts.push(...listScripts(await readPackageJson(path.join(repoRoot, dir, 'package.json')), dir));
+	}
+	return scripts;
+}
@@ -0,0 +1,79 @@
+import type { AllowedRunCmd, PresetRunCmd } from '../tooling';
+import type { PackageManager } from './package-manager';
+import { formatScriptInvocation, isScriptRunCmd } from './script-invocation';
+
+function formatPnpm(cmd: PresetRunCmd): string[] {
+	const prefix = cmd.filter ? ['--filter', cmd.filter] : [];
+	switch (cmd.kind) {
+		case 'install':
+			return [...prefix, 'i'];
+		case 'add':
+			return [...prefix, 'add', ...(cmd.dev ? ['-D'] : []), ...cmd.packages];
+		case 'remove':
+			return [...prefix, 'remove', ...cmd.packages];
+		default:
+			return cmd.recursive ? ['-r', cmd.kind] : [...prefix, cmd.kind];
+	}
+}
+
+function formatNpm(cmd: PresetRunCmd): string[] {
+	const prefix = cmd.filter ? ['--workspace', cmd.filter] : [];
+	switch (cmd.kind) {
+		case 'install':
+			return [...prefix, 'install'];
+		case 'add':
+			return [...prefix, 'install', ...(cmd.dev ? ['--save-dev'] : []), ...cmd.packages];
+		case 'remove':
+			return [...prefix, 'uninstall', ...cmd.packages];
+		default:
+			return cmd.recursive ? ['--workspaces', 'run', cmd.kind] : [...prefix, 'run', cmd.kind];
+	}
+}
+
+function formatYarn(cmd: PresetRunCmd): string[] {
+	const prefix = cmd.filter ? ['workspace', cmd.filter] : [];
+	switch (cmd.kind) {
+		case 'install':
+			return cmd.filter ? ['workspaces', 'focus', cmd.filter] : ['install'];
+		case 'add':
+			return [...prefix, 'add', ...(cmd.dev ? ['-D'] : []), ...cmd.packages];
+		case 'remove':
+			return [...prefix, 'remove', ...cmd.packages];
+		default:
+			return cmd.recursive ? ['workspaces', 'foreach', '-A', 'run', cmd.kind] : [...prefix, cmd.kind];
+	}
+}
+
+function formatBun(cmd: PresetRunCmd): string[] {
+	switch (cmd.kind) {
+		case 'install':
+			return cmd.filter ? ['install', '--filter', cmd.filter] : ['install'];
+		case 'add':
+		case 'remove':
+			if (cmd.filter) {
+				throw new Error(`bun ${cmd.kind} has no workspace filter; run it without a filter.`);
+			}
+			return cmd.kind === 'add' ? ['add', ...(cmd.dev ? ['-d'] : []), ...cmd.packages] : ['remove', ...cmd.packages];
+		default:
+			if (cmd.recursive) {
+				return ['--filter', '*', 'run', cmd.kind];
+			}
+			return cmd.filter ? ['--filter', cmd.filter, 'run', cmd.kind] : ['run', cmd.kind];
+	}
+}
+
+export function formatAllowedRunCmd(manager: PackageManager, cmd: AllowedRunCmd): string[] {
+	if (isScriptRunCmd(cmd)) {
+		return formatScriptInvocation(manager, cmd);
+	}
+	switch (manager) {
+		case 'pnpm':
+			return formatPnpm(cmd);
+		case 'npm':
+			return formatNpm(cmd);
+		case 'yarn':
+			return formatYarn(cmd);
+		case 'bun':
+			return formatBun(cmd);
+	}
+}
@@ -0,0 +1,23 @@
+import { parseAllowedRunCmd, type AllowedRunCmd, type RunCmdArgs } from '../tooling';
+import { isScriptRunCmd } from './script-invocation';
+
+const VALIDATION_SCRIPTS = new Set(['lint', 'test', 'build', 'typecheck', 'type-check', 'tsc', 'check']);
+const VALIDATION_BINARIES = new Set(['tsc', 'eslint', 'vitest', 'jest', 'mocha', 'biome']);
+
+export function isValidationRunCmd(cmd: AllowedRunCmd): boolean {
+	if (!isScriptRunCmd(cmd)) {
+		return cmd.kind === 'lint' || cmd.kind === 'test' || cmd.kind === 'build';
+	}
+	if (cmd.validation !== undefined) {
+		return cmd.validation;
+	}
+	return cmd.kind === 'exec' ? VALIDATION_BINARIES.has(cmd.name) : VALIDATION_SCRIPTS.has(cmd.name.split(':')[0]);
+}
+
+export function isValidationRunCmdArgs(args: RunCmdArgs): boolean {
+	try {
+		return isValidationRunCmd(parseAllowedRunCmd(args));
+	} catch {
+		return false;
+	}
+}
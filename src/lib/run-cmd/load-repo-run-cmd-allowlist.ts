@@ -0,0 +1,24 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { normalizeRunCmdAllowRules, type RunCmdAllowRule } from './run-cmd-allow-rule';
+
+export const REPO_RUN_CMD_ALLOWLIST_PATH = '.agent-dataset/run-cmd-allowlist.json';
+
+export async function loadRepoRunCmdAllowlist(repoRoot: string): Promise<RunCmdAllowRule[]> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(path.join(repoRoot, REPO_RUN_CMD_ALLOWLIST_PATH), 'utf8');
+	} catch {
+		return [];
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(raw);
+	} catch (error) {
+		throw new Error(
+			`${REPO_RUN_CMD_ALLOWLIST_PATH}: invalid JSON (${error instanceof Error ? error.message : String(error)})`,
+		);
+	}
+	return normalizeRunCmdAllowRules(parsed, REPO_RUN_CMD_ALLOWLIST_PATH);
+}
@@ -0,0 +1,58 @@
+import type { ScriptRunCmd } from '../tooling';
+import type { PackageManager } from './package-manager';
+import { describeRunCmdAllowRule, type RunCmdAllowRule } from './run-cmd-allow-rule';
+import { splitScriptInvocation } from './script-invocation';
+
+function checkRule(manager: PackageManager, invocation: ScriptRunCmd, rule: RunCmdAllowRule): string | undefined {
+	if (rule.managers && !rule.managers.includes(manager)) {
+		return `only enabled for ${rule.managers.join(', ')}`;
+	}
+	if ((invocation.filter || invocation.recursive) && !rule.filter) {
+		return 'workspace selectors are not allowed by this rule';
+	}
+
+	const patterns = (rule.args ?? []).map((pattern) => new RegExp(`^(?:${pattern})$`));
+	for (const arg of invocation.args) {
+		if (!patterns.some((pattern) => pattern.test(arg))) {
+			return patterns.length === 0
+				? `no trailing arguments allowed (got ${JSON.stringify(arg)})`
+				: `argument ${JSON.stringify(arg)} matches none of ${(rule.args ?? []).map((pattern) => `/${pattern}/`).join(', ')}`;
+		}
+	}
+	return undefined;
+}
+
+export function matchRunCmdRules(
+	manager: PackageManager,
+	args: string[],
+	rules: RunCmdAllowRule[],
+	presetReason: string,
+): ScriptRunCmd {
+	let invocation: ScriptRunCmd;
+	try {
+		invocation = splitScriptInvocation(manager, args);
+	} catch (error) {
+		throw new Error(
+			`run_cmd args not in allowlist: built-in presets: ${presetReason}; configured rules: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	const candidates = rules.filter((rule) =>
+		invocation.kind === 'script' ? rule.script === invocation.name : rule.exec === invocation.name,
+	);
+	if (candidates.length === 0) {
+		throw new Error(
+			`run_cmd args not in allowlist: built-in presets: ${presetReason}; no rule allows ${invocation.kind === 'script' ? 'script' : 'exec'} '${invocation.name}'`,
+		);
+	}
+
+	const failures: string[] = [];
+	for (const rule of candidates) {
+		const reason = checkRule(manager, invocation, rule);
+		if (!reason) {
+			return { ...invocation, rule: describeRunCmdAllowRule(rule), validation: rule.validation };
+		}
+		failures.push(`${describeRunCmdAllowRule(rule)}: ${reason}`);
+	}
+	throw new Error(`run_cmd args not in allowlist: ${failures.join('; ')}`);
+}
@@ -0,0 +1,7 @@
+export type PackageManager = 'pnpm' | 'npm' | 'yarn' | 'bun';
+
+export const PACKAGE_MANAGERS: readonly PackageManager[] = ['pnpm', 'npm', 'yarn', 'bun'];
+
+export function isPackageManager(value: unknown): value is PackageManager {
+	return typeof value === 'string' && (PACKAGE_MANAGERS as readonly string[]).includes(value);
+}
@@ -0,0 +1,53 @@
+import type { PresetRunCmd } from '../tooling';
+import { assertNonEmptyNoSpaceNoDash, isAllowedCmdWord, takePackages } from './run-cmd-token';
+
+const ALL_WORKSPACES = '*';
+
+function isInstallWord(value: string): boolean {
+	return value === 'i' || value === 'install';
+}
+
+function isDevFlag(value: string): boolean {
+	return value === '-d' || value === '-D' || value === '--dev';
+}
+
+function takeFilter(value: string): string {
+	if (value !== ALL_WORKSPACES) {
+		assertNonEmptyNoSpaceNoDash(value, 'filter');
+	}
+	return value;
+}
+
+export function parseBunRunCmd(args: string[]): PresetRunCmd {
+	if (args.length === 4 && args[0] === '--filter' && args[2] === 'run' && isAllowedCmdWord(args[3])) {
+		const filter = takeFilter(args[1]);
+		return filter === ALL_WORKSPACES ? { kind: args[3], recursive: true } : { kind: args[3], filter };
+	}
+
+	if (args.length === 3 && isInstallWord(args[0]) && args[1] === '--filter') {
+		return { kind: 'install', filter: takeFilter(args[2]) };
+	}
+
+	if (args[0] === '--filter') {
+		throw new Error('run_cmd args not in allowlist (--filter)');
+	}
+
+	if (args.length === 2 && args[0] === 'run' && isAllowedCmdWord(args[1])) {
+		return { kind: args[1] };
+	}
+
+	if (args.length === 1 && isInstallWord(args[0])) {
+		return { kind: 'install' };
+	}
+
+	if (args.length >= 2 && args[0] === 'add') {
+		const dev = isDevFlag(args[1]);
+		return { kind: 'add', dev, packages: takePackages(args.slice(dev ? 2 : 1), 'bun add') };
+	}
+
+	if (args.length >= 2 && (args[0] === 'remove' || args[0] === 'rm')) {
+		return { kind: 'remove', packages: takePackages(args.slice(1), 'bun remove') };
+	}
+
+	throw new Error('run_cmd args not in allowlist');
+}
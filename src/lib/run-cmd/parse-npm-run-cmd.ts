@@ -0,0 +1,62 @@
+import type { PresetRunCmd } from '../tooling';
+import { assertNonEmptyNoSpaceNoDash, isAllowedCmdWord, takePackages } from './run-cmd-token';
+
+function isInstallWord(value: string): boolean {
+	return value === 'i' || value === 'install' || value === 'add';
+}
+
+function isUninstallWord(value: string): boolean {
+	return value === 'uninstall' || value === 'remove' || value === 'rm';
+}
+
+function isDevFlag(value: string): boolean {
+	return value === '-D' || value === '--save-dev';
+}
+
+function parseScript(rest: string[]): 'lint' | 'test' | 'build' | undefined {
+	if (rest.length === 2 && rest[0] === 'run' && isAllowedCmdWord(rest[1])) {
+		return rest[1];
+	}
+	if (rest.length === 1 && rest[0] === 'test') {
+		return 'test';
+	}
+	return undefined;
+}
+
+export function parseNpmRunCmd(args: string[]): PresetRunCmd {
+	if (args.length >= 1 && (args[0] === '--workspaces' || args[0] === '-ws')) {
+		const script = parseScript(args.slice(1));
+		if (script) {
+			return { kind: script, recursive: true };
+		}
+		throw new Error('run_cmd args not in allowlist (--workspaces)');
+	}
+
+	let filter: string | undefined;
+	let rest = args;
+	if (args.length >= 2 && (args[0] === '--workspace' || args[0] === '-w')) {
+		assertNonEmptyNoSpaceNoDash(args[1], 'workspace');
+		filter = args[1];
+		rest = args.slice(2);
+	}
+
+	const script = parseScript(rest);
+	if (script) {
+		return { kind: script, filter };
+	}
+
+	if (rest.length === 1 && isInstallWord(rest[0])) {
+		return { kind: 'install', filter };
+	}
+
+	if (rest.length >= 2 && isInstallWord(rest[0])) {
+		const dev = isDevFlag(rest[1]);
+		return { kind: 'add', filter, dev, packages: takePackages(rest.slice(dev ? 2 : 1), 'npm install') };
+	}
+
+	if (rest.length >= 2 && isUninstallWord(rest[0])) {
+		return { kind: 'remove', filter, packages: takePackages(rest.slice(1), 'npm uninstall') };
+	}
+
+	throw new Error(filter ? 'run_cmd args not in allowlist (--workspace)' : 'run_cmd args not in allowlist');
+}
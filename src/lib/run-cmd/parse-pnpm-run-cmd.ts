@@ -0,0 +1,56 @@
+import type { PresetRunCmd } from '../tooling';
+import { assertNonEmptyNoSpaceNoDash, isAllowedCmdWord, takePackages } from './run-cmd-token';
+
+function isInstallWord(value: string): value is 'i' | 'install' {
+	return value === 'i' || value === 'install';
+}
+
+function isDevFlag(value: string): boolean {
+	return value === '-D' || value === '--save-dev' || value === '--save-dev=true';
+}
+
+function parseWorkspaceCommand(rest: string[], filter?: string): PresetRunCmd | undefined {
+	if (rest.length === 1 && isAllowedCmdWord(rest[0])) {
+		return { kind: rest[0], filter };
+	}
+
+	if (rest.length === 1 && isInstallWord(rest[0])) {
+		return { kind: 'install', filter };
+	}
+
+	if (rest.length >= 2 && rest[0] === 'add') {
+		const dev = isDevFlag(rest[1]);
+		return { kind: 'add', filter, dev, packages: takePackages(rest.slice(dev ? 2 : 1), 'pnpm add') };
+	}
+
+	if (rest.length >= 2 && rest[0] === 'remove') {
+		return { kind: 'remove', filter, packages: takePackages(rest.slice(1), 'pnpm remove') };
+	}
+
+	return undefined;
+}
+
+export function parsePnpmRunCmd(args: string[]): PresetRunCmd {
+	if (args.length >= 2 && args[0] === '--filter') {
+		assertNonEmptyNoSpaceNoDash(args[1], 'filter');
+		const parsed = parseWorkspaceCommand(args.slice(2), args[1]);
+		if (!parsed) {
+			throw new Error('run_cmd args not in allowlist (filtered)');
+		}
+		return parsed;
+	}
+
+	if (args.length >= 1 && args[0] === '-r') {
+		const rest = args.slice(1);
+		if (rest.length === 1 && isAllowedCmdWord(rest[0])) {
+			return { kind: rest[0], recursive: true };
+		}
+		throw new Error('run_cmd args not in allowlist (-r)');
+	}
+
+	const parsed = parseWorkspaceCommand(args);
+	if (!parsed) {
+		throw new Error('run_cmd args not in allowlist');
+	}
+	return parsed;
+}
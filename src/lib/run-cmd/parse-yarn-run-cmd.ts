@@ -0,0 +1,59 @@
+import type { PresetRunCmd } from '../tooling';
+import { assertNonEmptyNoSpaceNoDash, isAllowedCmdWord, takePackages } from './run-cmd-token';
+
+function isDevFlag(value: string): boolean {
+	return value === '-D' || value === '--dev';
+}
+
+function parseScript(rest: string[]): 'lint' | 'test' | 'build' | undefined {
+	if (rest.length === 1 && isAllowedCmdWord(rest[0])) {
+		return rest[0];
+	}
+	if (rest.length === 2 && rest[0] === 'run' && isAllowedCmdWord(rest[1])) {
+		return rest[1];
+	}
+	return undefined;
+}
+
+export function parseYarnRunCmd(args: string[]): PresetRunCmd {
+	if (args.length === 3 && args[0] === 'workspaces' && args[1] === 'focus') {
+		assertNonEmptyNoSpaceNoDash(args[2], 'workspace');
+		return { kind: 'install', filter: args[2] };
+	}
+
+	if (args.length >= 3 && args[0] === 'workspaces' && args[1] === 'foreach') {
+		const rest = args.slice(2);
+		if (rest.length === 3 && (rest[0] === '-A' || rest[0] === '--all') && rest[1] === 'run' && isAllowedCmdWord(rest[2])) {
+			return { kind: rest[2], recursive: true };
+		}
+		throw new Error('run_cmd args not in allowlist (workspaces foreach)');
+	}
+
+	let filter: string | undefined;
+	let rest = args;
+	if (args.length >= 2 && args[0] === 'workspace') {
+		assertNonEmptyNoSpaceNoDash(args[1], 'workspace');
+		filter = args[1];
+		rest = args.slice(2);
+	}
+
+	const script = parseScript(rest);
+	if (script) {
+		return { kind: script, filter };
+	}
+
+	if (!filter && rest.length === 1 && rest[0] === 'install') {
+		return { kind: 'install' };
+	}
+
+	if (rest.length >= 2 && rest[0] === 'add') {
+		const dev = isDevFlag(rest[1]);
+		return { kind: 'add', filter, dev, packages: takePackages(rest.slice(dev ? 2 : 1), 'yarn add') };
+	}
+
+	if (rest.length >= 2 && rest[0] === 'remove') {
+		return { kind: 'remove', filter, packages: takePackages(rest.slice(1), 'yarn remove') };
+	}
+
+	throw new Error(filter ? 'run_cmd args not in allowlist (workspace)' : 'run_cmd args not in allowlist');
+}
@@ -0,0 +1,65 @@
+import { isPackageManager, type PackageManager } from './package-manager';
+
+export type RunCmdAllowRule = {
+	script?: string;
+	exec?: string;
+	args?: string[];
+	filter?: boolean;
+	managers?: PackageManager[];
+	validation?: boolean;
+};
+
+export function describeRunCmdAllowRule(rule: RunCmdAllowRule): string {
+	return rule.script !== undefined ? `script:${rule.script}` : `exec:${rule.exec}`;
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+export function normalizeRunCmdAllowRules(raw: unknown, source: string): RunCmdAllowRule[] {
+	if (!Array.isArray(raw)) {
+		throw new Error(`${source}: run_cmd allowlist must be an array of rules.`);
+	}
+
+	return raw.map((entry, index) => {
+		const label = `${source}[${index}]`;
+		if (!entry || typeof entry !== 'object') {
+			throw new Error(`${label}: rule must be an object.`);
+		}
+		const candidate = entry as Record<string, unknown>;
+		const script = typeof candidate.script === 'string' ? candidate.script.trim() : undefined;
+		const exec = typeof candidate.exec === 'string' ? candidate.exec.trim() : undefined;
+		if (Boolean(script) === Boolean(exec)) {
+			throw new Error(`${label}: rule needs exactly one of "script" or "exec".`);
+		}
+		if (candidate.args !== undefined && !isStringArray(candidate.args)) {
+			throw new Error(`${label}: "args" must be an array of regular expressions.`);
+		}
+		for (const pattern of candidate.args ?? []) {
+			try {
+				new RegExp(pattern);
+			} catch {
+				throw new Error(`${label}: invalid args pattern ${JSON.stringify(pattern)}.`);
+			}
+		}
+		if (
+			candidate.managers !== undefined &&
+			!(Array.isArray(candidate.managers) && candidate.managers.every(isPackageManager))
+		) {
+			throw new Error(`${label}: "managers" must list pnpm, npm, yarn or bun.`);
+		}
+		if (candidate.validation !== undefined && typeof candidate.validation !== 'boolean') {
+			throw new Error(`${label}: "validation" must be true or false.`);
+		}
+
+		return {
+			script: script || undefined,
+			exec: exec || undefined,
+			args: candidate.args as string[] | undefined,
+			filter: candidate.filter === true,
+			managers: candidate.managers as PackageManager[] | undefined,
+			validation: candidate.validation as boolean | undefined,
+		};
+	});
+}
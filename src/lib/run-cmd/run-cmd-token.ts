@@ -0,0 +1,17 @@
+export function assertNonEmptyNoSpaceNoDash(value: string, label: string): void {
+	if (!value || /\s/.test(value) || value.startsWith('-')) {
+		throw new Error(`${label} must be non-empty, contain no spaces, and not start with '-'.`);
+	}
+}
+
+export function isAllowedCmdWord(value: string): value is 'lint' | 'test' | 'build' {
+	return value === 'lint' || value === 'test' || value === 'build';
+}
+
+export function takePackages(packages: string[], label: string): string[] {
+	if (packages.length === 0) {
+		throw new Error(`${label} requires at least 1 package`);
+	}
+	packages.forEach((pkg) => assertNonEmptyNoSpaceNoDash(pkg, 'package'));
+	return packages;
+}
@@ -0,0 +1,121 @@
+import type { AllowedRunCmd, ScriptRunCmd } from '../tooling';
+import type { PackageManager } from './package-manager';
+import { assertNonEmptyNoSpaceNoDash } from './run-cmd-token';
+
+type Prefix = { filter?: string; recursive?: boolean; rest: string[] };
+
+function takePrefix(manager: PackageManager, args: string[]): Prefix {
+	switch (manager) {
+		case 'pnpm':
+			if (args[0] === '--filter' && args.length >= 2) {
+				assertNonEmptyNoSpaceNoDash(args[1], 'filter');
+				return { filter: args[1], rest: args.slice(2) };
+			}
+			return args[0] === '-r' ? { recursive: true, rest: args.slice(1) } : { rest: args };
+		case 'npm':
+			if ((args[0] === '--workspace' || args[0] === '-w') && args.length >= 2) {
+				assertNonEmptyNoSpaceNoDash(args[1], 'workspace');
+				return { filter: args[1], rest: args.slice(2) };
+			}
+			return args[0] === '--workspaces' || args[0] === '-ws'
+				? { recursive: true, rest: args.slice(1) }
+				: { rest: args };
+		case 'yarn':
+			if (args[0] === 'workspace' && args.length >= 2) {
+				assertNonEmptyNoSpaceNoDash(args[1], 'workspace');
+				return { filter: args[1], rest: args.slice(2) };
+			}
+			if (args[0] === 'workspaces' && args[1] === 'foreach' && (args[2] === '-A' || args[2] === '--all')) {
+				return { recursive: true, rest: args.slice(3) };
+			}
+			return { rest: args };
+		case 'bun':
+			if (args[0] === '--filter' && args.length >= 2) {
+				if (args[1] === '*') {
+					return { recursive: true, rest: args.slice(2) };
+				}
+				assertNonEmptyNoSpaceNoDash(args[1], 'filter');
+				return { filter: args[1], rest: args.slice(2) };
+			}
+			return { rest: args };
+	}
+}
+
+export function isScriptRunCmd(cmd: AllowedRunCmd): cmd is ScriptRunCmd {
+	return cmd.kind === 'script' || cmd.kind === 'exec';
+}
+
+function stripSeparator(args: string[]): string[] {
+	return args[0] === '--' ? args.slice(1) : args;
+}
+
+export function splitScriptInvocation(manager: PackageManager, args: string[]): ScriptRunCmd {
+	const { filter, recursive, rest } = takePrefix(manager, args);
+	const [verb, name, ...trailing] = rest;
+	if (!verb) {
+		throw new Error('missing script or binary name');
+	}
+
+	const execVerb = manager === 'bun' ? 'x' : 'exec';
+	if (verb === execVerb) {
+		if (recursive || (filter && manager === 'bun')) {
+			throw new Error(`${manager} ${execVerb} cannot be combined with a workspace selector here`);
+		}
+		const execArgs = manager === 'npm' ? stripSeparator(rest.slice(1)) : rest.slice(1);
+		const [binary, ...binaryArgs] = execArgs;
+		if (!binary) {
+			throw new Error(`${manager} ${execVerb} needs a binary name`);
+		}
+		assertNonEmptyNoSpaceNoDash(binary, 'binary');
+		return { kind: 'exec', name: binary, args: binaryArgs, filter };
+	}
+
+	if (verb === 'run' || verb === 'run-script') {
+		if (!name) {
+			throw new Error(`${manager} ${verb} needs a script name`);
+		}
+		assertNonEmptyNoSpaceNoDash(name, 'script');
+		if (manager === 'npm' && trailing.length > 0 && trailing[0] !== '--') {
+			throw new Error("npm run needs '--' before script arguments");
+		}
+		return { kind: 'script', name, args: stripSeparator(trailing), filter, recursive };
+	}
+
+	if (manager === 'npm' || manager === 'bun') {
+		throw new Error(`${manager} scripts must be invoked with 'run'`);
+	}
+	assertNonEmptyNoSpaceNoDash(verb, 'script');
+	return { kind: 'script', name: verb, args: stripSeparator(rest.slice(1)), filter, recursive };
+}
+
+export function formatScriptInvocation(manager: PackageManager, cmd: ScriptRunCmd): string[] {
+	let prefix: string[] = [];
+	if (cmd.recursive) {
+		prefix = {
+			pnpm: ['-r'],
+			npm: ['--workspaces'],
+			yarn: ['workspaces', 'foreach', '-A'],
+			bun: ['--filter', '*'],
+		}[manager];
+	} else if (cmd.filter) {
+		prefix = {
+			pnpm: ['--filter', cmd.filter],
+			npm: ['--workspace', cmd.filter],
+			yarn: ['workspace', cmd.filter],
+			bun: ['--filter', cmd.filter],
+		}[manager];
+	}
+
+	if (cmd.kind === 'exec') {
+		if (cmd.recursive || (cmd.filter && manager === 'bun')) {
+			throw new Error(`${manager} exec cannot be combined with a workspace selector here.`);
+		}
+		if (manager === 'bun') {
+			return ['x', cmd.name, ...cmd.args];
+		}
+		return [...prefix, 'exec', ...(manager === 'npm' ? ['--'] : []), cmd.name, ...cmd.args];
+	}
+
+	const trailing = manager === 'npm' && cmd.args.length > 0 ? ['--', ...cmd.args] : cmd.args;
+	return [...prefix, 'run', cmd.name, ...trailing];
+}
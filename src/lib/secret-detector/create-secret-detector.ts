@@ -0,0 +1,129 @@
+import { isSecretAllowlisted, type SecretAllowlistEntry } from './secret-allowlist';
+import { BUILT_IN_SECRET_RULES, type SecretRule } from './secret-rule';
+import { shannonEntropy } from './shannon-entropy';
+
+export const HIGH_ENTROPY_RULE_ID = 'high-entropy';
+
+const REDACTED = '[REDACTED]';
+const HASH_OR_DATA_PREFIX = /(?:sha\d+-|base64,)$/;
+
+export type SecretEntropyOptions = {
+	enabled: boolean;
+	minLength: number;
+	threshold: number;
+};
+
+export const DEFAULT_SECRET_ENTROPY_OPTIONS: SecretEntropyOptions = {
+	enabled: true,
+	minLength: 32,
+	threshold: 4.3,
+};
+
+export type SecretDetectorOptions = {
+	customPatterns?: string[];
+	disabledRules?: string[];
+	entropy?: SecretEntropyOptions;
+	allowlist?: SecretAllowlistEntry[];
+};
+
+export type SecretMatch = {
+	rule: string;
+	start: number;
+	end: number;
+};
+
+export type SecretDetector = {
+	find(text: string, filePath?: string): SecretMatch[];
+	redact(text: string, filePath?: string): string;
+};
+
+function describeCustomPattern(source: string): string {
+	return `custom:${source.length > 40 ? `${source.slice(0, 37)}...` : source}`;
+}
+
+function compileCustomRules(patterns: string[]): SecretRule[] {
+	const rules: SecretRule[] = [];
+	for (const pattern of patterns) {
+		try {
+			rules.push({ id: describeCustomPattern(pattern), pattern: new RegExp(pattern, 'g') });
+		} catch {
+			continue;
+		}
+	}
+	return rules;
+}
+
+function findRuleMatches(rule: SecretRule, text: string): SecretMatch[] {
+	const flags = new Set(`${rule.pattern.flags}gd`);
+	const regex = new RegExp(rule.pattern.source, [...flags].join(''));
+	const matches: SecretMatch[] = [];
+	for (const match of text.matchAll(regex)) {
+		const span = match.indices?.[rule.secretGroup ?? 0];
+		if (span && span[1] > span[0]) {
+			matches.push({ rule: rule.id, start: span[0], end: span[1] });
+		}
+	}
+	return matches;
+}
+
+function findHighEntropyMatches(text: string, options: SecretEntropyOptions): SecretMatch[] {
+	const regex = new RegExp(`[A-Za-z0-9+/=_-]{${Math.max(8, Math.floor(options.minLength))},}`, 'g');
+	const matches: SecretMatch[] = [];
+	for (const match of text.matchAll(regex)) {
+		const token = match[0];
+		const start = match.index ?? 0;
+		if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/[0-9]/.test(token)) {
+			continue;
+		}
+		if (/^sha\d+-/.test(token) || HASH_OR_DATA_PREFIX.test(text.slice(Math.max(0, start - 8), start))) {
+			continue;
+		}
+		if (shannonEntropy(token) >= options.threshold) {
+			matches.push({ rule: HIGH_ENTROPY_RULE_ID, start, end: start + token.length });
+		}
+	}
+	return matches;
+}
+
+export function createSecretDetector(options: SecretDetectorOptions = {}): SecretDetector {
+	const disabled = new Set(options.disabledRules ?? []);
+	const rules = [
+		...BUILT_IN_SECRET_RULES.filter((rule) => !disabled.has(rule.id)),
+		...compileCustomRules(options.customPatterns ?? []),
+	];
+	const entropy = options.entropy ?? DEFAULT_SECRET_ENTROPY_OPTIONS;
+	const allowlist = options.allowlist ?? [];
+
+	const find = (text: string, filePath?: string): SecretMatch[] => {
+		const byPosition = (left: SecretMatch, right: SecretMatch) => left.start - right.start || right.end - left.end;
+		const candidates = rules.flatMap((rule) => findRuleMatches(rule, text)).sort(byPosition);
+		if (entropy.enabled && !disabled.has(HIGH_ENTROPY_RULE_ID)) {
+			candidates.push(...findHighEntropyMatches(text, entropy));
+		}
+
+		const covered: SecretMatch[] = [];
+		const matches: SecretMatch[] = [];
+		for (const candidate of candidates) {
+			if (covered.some((match) => candidate.start < match.end && match.start < candidate.end)) {
+				continue;
+			}
+			covered.push(candidate);
+			const value = text.slice(candidate.start, candidate.end);
+			if (!isSecretAllowlisted(allowlist, { rule: candidate.rule, value }, filePath)) {
+				matches.push(candidate);
+			}
+		}
+		return matches.sort(byPosition);
+	};
+
+	return {
+		find,
+		redact: (text, filePath) => {
+			let redacted = text;
+			for (const match of find(text, filePath).reverse()) {
+				redacted = `${redacted.slice(0, match.start)}${REDACTED}${redacted.slice(match.end)}`;
+			}
+			return redacted;
+		},
+	};
+}
@@ -0,0 +1,24 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { normalizeSecretAllowlist, type SecretAllowlistEntry } from './secret-allowlist';
+
+export const REPO_SECRET_ALLOWLIST_PATH = '.agent-dataset/secret-allowlist.json';
+
+export async function loadRepoSecretAllowlist(repoRoot: string): Promise<SecretAllowlistEntry[]> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(path.join(repoRoot, REPO_SECRET_ALLOWLIST_PATH), 'utf8');
+	} catch {
+		return [];
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(raw);
+	} catch (error) {
+		throw new Error(
+			`${REPO_SECRET_ALLOWLIST_PATH}: invalid JSON (${error instanceof Error ? error.message : String(error)})`,
+		);
+	}
+	return normalizeSecretAllowlist(parsed, REPO_SECRET_ALLOWLIST_PATH);
+}
@@ -0,0 +1,72 @@
+import { globMatch } from '../session-manager/glob-match';
+
+export type SecretAllowlistEntry = {
+	value?: string;
+	pattern?: string;
+	rule?: string;
+	paths?: string[];
+};
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+export function normalizeSecretAllowlist(raw: unknown, source: string): SecretAllowlistEntry[] {
+	if (!Array.isArray(raw)) {
+		throw new Error(`${source}: secret allowlist must be an array of entries.`);
+	}
+
+	return raw.map((entry, index) => {
+		const label = `${source}[${index}]`;
+		if (typeof entry === 'string') {
+			if (!entry) {
+				throw new Error(`${label}: value must not be empty.`);
+			}
+			return { value: entry };
+		}
+		if (!entry || typeof entry !== 'object') {
+			throw new Error(`${label}: entry must be a string or an object.`);
+		}
+		const candidate = entry as Record<string, unknown>;
+		for (const key of ['value', 'pattern', 'rule'] as const) {
+			if (candidate[key] !== undefined && typeof candidate[key] !== 'string') {
+				throw new Error(`${label}: "${key}" must be a string.`);
+			}
+		}
+		if (candidate.paths !== undefined && !isStringArray(candidate.paths)) {
+			throw new Error(`${label}: "paths" must be an array of globs.`);
+		}
+		if (!candidate.value && !candidate.pattern && !candidate.rule && !candidate.paths) {
+			throw new Error(`${label}: entry needs at least one of "value", "pattern", "rule" or "paths".`);
+		}
+		if (typeof candidate.pattern === 'string') {
+			try {
+				new RegExp(candidate.pattern);
+			} catch {
+				throw new Error(`${label}: invalid pattern ${JSON.stringify(candidate.pattern)}.`);
+			}
+		}
+
+		return {
+			value: (candidate.value as string | undefined) || undefined,
+			pattern: (candidate.pattern as string | undefined) || undefined,
+			rule: (candidate.rule as string | undefined) || undefined,
+			paths: candidate.paths as string[] | undefined,
+		};
+	});
+}
+
+export function isSecretAllowlisted(
+	entries: SecretAllowlistEntry[],
+	match: { rule: string; value: string },
+	filePath?: string,
+): boolean {
+	return entries.some(
+		(entry) =>
+			(entry.rule === undefined || entry.rule === match.rule) &&
+			(entry.value === undefined || entry.value === match.value) &&
+			(entry.pattern === undefined || new RegExp(entry.pattern).test(match.value)) &&
+			(entry.paths === undefined ||
+				(filePath !== undefined && entry.paths.some((glob) => globMatch(filePath, glob)))),
+	);
+}
@@ -0,0 +1,62 @@
+export type SecretRule = {
+	id: string;
+	pattern: RegExp;
+	secretGroup?: number;
+};
+
+export const BUILT_IN_SECRET_RULES: SecretRule[] = [
+	{
+		id: 'private-key',
+		pattern:
+			/-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----(?:[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----|[^\n]*)/g,
+	},
+	{ id: 'aws-access-key-id', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g },
+	{
+		id: 'aws-secret-access-key',
+		pattern: /aws_?(?:secret_?access_?key|secret_?key)["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+		secretGroup: 1,
+	},
+	{ id: 'gcp-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g },
+	{ id: 'gcp-service-account-key-id', pattern: /"private_key_id"\s*:\s*"([0-9a-f]{40})"/g, secretGroup: 1 },
+	{
+		id: 'azure-storage-key',
+		pattern: /\b(?:AccountKey|SharedAccessKey)=([A-Za-z0-9+/]{40,88}={0,2})/g,
+		secretGroup: 1,
+	},
+	{ id: 'azure-client-secret', pattern: /\b[A-Za-z0-9_~.]{3}\dQ~[A-Za-z0-9_~.-]{31,34}(?![A-Za-z0-9_~.-])/g },
+	{ id: 'stripe-key', pattern: /\b(?:sk|rk)_(?:live|test)_[0-9A-Za-z]{24,}\b/g },
+	{ id: 'stripe-webhook-secret', pattern: /\bwhsec_[0-9A-Za-z]{32,}\b/g },
+	{ id: 'slack-token', pattern: /\bxox[abposr]-[0-9A-Za-z-]{10,}/g },
+	{
+		id: 'slack-webhook',
+		pattern: /https:\/\/hooks\.slack\.com\/(?:services|workflows)\/[A-Za-z0-9+/]{20,}/g,
+	},
+	{ id: 'anthropic-api-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{32,}/g },
+	{ id: 'openai-api-key', pattern: /\bsk-(?!ant-)(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{32,}/g },
+	{ id: 'github-token', pattern: /\b(?:ghp|gho|ghu|ghs|ghr|github_pat)_[A-Za-z0-9_]{20,}/g },
+	{ id: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+	{
+		id: 'database-url-password',
+		pattern:
+			/\b(?:postgres(?:ql)?|mysql|mariadb|mssql|sqlserver|mongodb(?:\+srv)?|rediss?|amqps?):\/\/[^\s:/@"']+:([^\s@/"']+)@/g,
+		secretGroup: 1,
+	},
+	{
+		id: 'secret-assignment',
+		pattern:
+			/(?:api[-_]?key|secret|token|passw(?:or)?d|credentials?)["']?\s*[:=]\s*(["'])([^\s"']{8,})\1/gi,
+		secretGroup: 2,
+	},
+	{
+		id: 'secret-unquoted-assignment',
+		pattern: /(?:api[-_ ]?key|token|secret)\s*[:=]\s*([^\s"'$;,(){}[\]]+)(?!\S)/gi,
+		secretGroup: 1,
+	},
+	{
+		id: 'secret-env-assignment',
+		pattern:
+			/^[ \t]*(?:export[ \t]+|-[ \t]+)?["']?[\w.-]*(?:api[-_]?key|secret|token|passw(?:or)?d|pwd)["']?[ \t]*[:=][ \t]*["']?([^\s"'$#;,[][^\s"'#;,]*)(?=["']?[ \t]*(?:#|$))/gim,
+		secretGroup: 1,
+	},
+	{ id: 'secret-key-prefix', pattern: /\b(?:sk|pk)_[A-Za-z0-9]{16,}\b/g },
+];
@@ -0,0 +1,17 @@
+export function shannonEntropy(value: string): number {
+	if (!value) {
+		return 0;
+	}
+
+	const counts = new Map<string, number>();
+	for (const char of value) {
+		counts.set(char, (counts.get(char) ?? 0) + 1);
+	}
+
+	let entropy = 0;
+	for (const count of counts.values()) {
+		const probability = count / value.length;
+		entropy -= probability * Math.log2(probability);
+	}
+	return entropy;
+}
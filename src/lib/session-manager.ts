@@ -1,5 +1,7 @@
 import * as path from 'node:path';
 import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import { createHash } from 'node:crypto';
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
 import type { ExtensionContext } from 'vscode';
@@ -7,6 +9,7 @@ import * as vscode from 'vscode';
 import {
 	addApplyPatch,
 	addRunCmd,
+	makeAssistantText,
 	makeSystem,
 	makeToolCallMessage,
 	makeToolResultMessage,
@@ -15,15 +18,90 @@ import {
 import {
 	normalizeRunCmdArgs,
 	parseAllowedRunCmd,
+	type AllowedRunCmd,
 	type ApplyPatchOperation,
+	type RepoDiagnosticsArgs,
 	type RunCmdArgs,
 	type TrainingRecord,
 } from './tooling';
-import { RunCmdTerminal } from './session-manager/run-cmd-terminal';
+import { RunCmdTerminal, type RunCmdResult } from './session-manager/run-cmd-terminal';
+import { RunCmdQueue, type RunCmdQueueState } from './session-manager/run-cmd-queue';
+import type { RunCmdOutputEvent } from './session-manager/run-cmd-output-types';
+import { createAnsiStreamStripper, stripAnsi } from './session-manager/strip-ansi';
+import { truncateCommandOutput, type OutputTruncationStrategy } from './session-manager/truncate-command-output';
+import { isScriptRunCmd } from './run-cmd/script-invocation';
+import { formatRunCmdResult, type RunCmdResultFormat } from './session-manager/format-run-cmd-result';
+import { detectPackageManager } from './run-cmd/detect-package-manager';
+import { isPackageManager, type PackageManager } from './run-cmd/package-manager';
+import { buildScriptRunCmd } from './run-cmd/build-script-run-cmd';
+import { discoverPackageScripts, type DiscoveredScript } from './run-cmd/discover-package-scripts';
+import { loadRepoRunCmdAllowlist } from './run-cmd/load-repo-run-cmd-allowlist';
+import { normalizeRunCmdAllowRules, type RunCmdAllowRule } from './run-cmd/run-cmd-allow-rule';
 import { normalizeSearchPath } from './session-manager/normalize-search-path';
 import { runRepoSearch } from './session-manager/run-repo-search';
 import { globMatch } from './session-manager/glob-match';
 import type { RepoSearchResult } from './session-manager/search-types';
+import type { ActiveSession, OmittedFile, RunCmdEvent, SessionRepo } from './session-manager/active-session';
+import { getRequiredRecordSchemaVersion, type RecordSchemaVersion } from './record-schema';
+import type { SessionStatus } from './session-manager/session-status';
+import { DEFAULT_RECORD_LINT_RULES, lintRecord, listMinedCommitLintRules } from './record-linter/lint-record';
+import type { RecordLintContext, RecordLintReport, RecordLintRule } from './record-linter/types';
+import { isValidationRunCmd, isValidationRunCmdArgs } from './run-cmd/is-validation-run-cmd';
+import { writeActiveSessionWal } from './session-manager/write-active-session-wal';
+import { readActiveSessionWal } from './session-manager/read-active-session-wal';
+import { writeActiveSessionLock } from './session-manager/write-active-session-lock';
+import { readActiveSessionLock } from './session-manager/read-active-session-lock';
+import { ACTIVE_SESSION_HEARTBEAT_MS, isActiveSessionLockLive } from './session-manager/is-active-session-lock-live';
+import { captureWorkingTreeSnapshot } from './session-manager/capture-working-tree-snapshot';
+import { buildSnapshotRef, removeSnapshotRefs } from './session-manager/snapshot-refs';
+import { collectPatchedPaths } from './session-manager/collect-patched-paths';
+import { buildDefaultFinalSummary } from './session-manager/build-default-final-summary';
+import { selectSessionRepo } from './session-manager/select-session-repo';
+import { stageSessionChanges } from './session-manager/stage-session-changes';
+import { expandAnonymizedPath } from './session-manager/expand-anonymized-path';
+import { isRepeatedDiagnosticsResult } from './session-manager/is-repeated-diagnostics-result';
+import { findMinedCommitSkipReason } from './session-manager/find-mined-commit-skip-reason';
+import { findCheckpointInsertIndex } from './session-manager/find-checkpoint-insert-index';
+import { CHECKPOINT_READ_CALL_PREFIX } from './record-linter/checkpoint-read';
+import { pickMinedCommitBranch } from './session-manager/pick-mined-commit-branch';
+import { findRepoForAbsolutePath } from './session-manager/find-repo-for-absolute-path';
+import { createDetachedWorktree } from './session-manager/create-detached-worktree';
+import { buildWorktreePath } from './session-manager/build-worktree-path';
+import { removeWorktree } from './session-manager/remove-worktree';
+import { collectApplyPatchOperations } from './session-manager/collect-apply-patch-operations';
+import { applyUnifiedDiff } from './session-manager/apply-unified-diff';
+import { reconstructRecordedContent } from './session-manager/reconstruct-recorded-content';
+import { buildUpdateDiff } from './session-manager/build-update-diff';
+import { sortApplyPatchOperations } from './session-manager/sort-apply-patch-operations';
+import { appendUserTurn } from './session-manager/append-user-turn';
+import { countUserTurns } from './session-manager/count-user-turns';
+import { hasPatchInLastTurn } from './session-manager/has-patch-in-last-turn';
+import type { SessionVerification } from './session-manager/verification-types';
+import { excludeRecordPaths, findRecordSecrets, redactRecordSecrets } from './session-manager/redact-record-secrets';
+import type { RecordRedaction, SecretHit, SecretHitAction } from './session-manager/secret-types';
+import {
+	createSecretDetector,
+	DEFAULT_SECRET_ENTROPY_OPTIONS,
+	type SecretDetector,
+	type SecretEntropyOptions,
+} from './secret-detector/create-secret-detector';
+import { normalizeSecretAllowlist } from './secret-detector/secret-allowlist';
+import { loadRepoSecretAllowlist } from './secret-detector/load-repo-secret-allowlist';
+import {
+	createPayloadAnonymizer,
+	type PayloadAnonymizer,
+	type RemoteAnonymization,
+} from './session-manager/create-payload-anonymizer';
+import { anonymizeRecord } from './session-manager/anonymize-record';
+import type { CommandDiagnostic } from './diagnostics/command-diagnostic';
+import { parseCommandDiagnostics } from './diagnostics/parse-command-diagnostics';
+import { buildFixErrorsPrompt } from './diagnostics/build-fix-errors-prompt';
+import {
+	EDITOR_DIAGNOSTIC_SEVERITIES,
+	formatEditorDiagnostics,
+	type EditorDiagnostic,
+	type EditorDiagnosticSeverity,
+} from './session-manager/format-editor-diagnostics';
 
 const execFileAsync = promisify(execFile);
 
@@ -36,49 +114,24 @@ const DEFAULT_IGNORE_GLOBS = [
 	'out/**',
 ];
 
-const DEFAULT_REDACTION_PATTERNS = [
-	'(?:ghp|github_pat)_[A-Za-z0-9_]{20,}',
-	'(?:sk|pk)_[A-Za-z0-9]{16,}',
-	'[A-Za-z0-9_\\-]{24,}\\.[A-Za-z0-9_\\-]{20,}\\.[A-Za-z0-9_\\-]{20,}',
-	"(api[-_ ]?key|token|secret)\\s*[:=]\\s*[^\\s\"']+",
-];
-
 const DEFAULT_MAX_COMMAND_OUTPUT_CHARS = 50_000;
 
-type ActiveSession = {
-	taskId: string;
-	systemPrompt: string;
-	userPrompt: string;
-	baseRef: string;
-	repoRoot: string;
-	repoName: string;
-	branch: string;
-	remote?: string;
-	commandsRun: string[];
-	runCmdEvents: RunCmdEvent[];
-	record: TrainingRecord;
-	callSeq: number;
-	fileChangesSubmitted: boolean;
-	submittedFilesChanged: number;
-	startedAt: string;
-	lastSearchResults: Set<string>;
-	readFilesRecorded: Set<string>;
-};
+const MAX_RECORDED_DIAGNOSTICS = 200;
 
-type RunCmdEvent = {
-	args: RunCmdArgs;
-	output: string;
-};
+const DEFAULT_MINE_COMMITS_MAX_FILES_CHANGED = 20;
+
+const DEFAULT_MINE_COMMITS_EXCLUDE_MESSAGE_PATTERNS = ['^(wip|fixup!|squash!)', '^Revert "', '^Merge '];
 
 type NameStatusChange =
 	| { kind: 'M'; path: string }
 	| { kind: 'A'; path: string }
 	| { kind: 'D'; path: string }
-	| { kind: 'R'; oldPath: string; newPath: string };
+	| { kind: 'R'; oldPath: string; newPath: string; similarity: number };
 
 export type BuiltSessionResult = {
 	outputPath: string;
 	payload: {
+		schemaVersion: RecordSchemaVersion;
 		taskId: string;
 		repo: {
 			name: string;
@@ -86,96 +139,338 @@ export type BuiltSessionResult = {
 			branch: string;
 			remote?: string;
 		};
+		repos: Array<{
+			name: string;
+			root: string;
+			prefix: string;
+			branch: string;
+			remote?: string;
+			baseRef: string;
+			headRef: string;
+			endRef?: string;
+			baseline: 'head' | 'snapshot';
+		}>;
 		baseRef: string;
+		headRef: string;
+		worktree?: {
+			ref: string;
+		};
+		minedCommit?: {
+			sha: string;
+			parent: string;
+		};
 		createdAt: string;
 		startedAt: string;
 		metrics: {
 			filesChanged: number;
+			checkpoints: number;
+			turnCount: number;
 			commandsRun: string[];
+			commandResults: Array<{
+				command: string;
+				exitCode: number | null;
+				signal: string | null;
+				timedOut: boolean;
+				cancelled: boolean;
+				startedAt?: string;
+				durationMs?: number;
+				diagnostics?: CommandDiagnostic[];
+			}>;
 		};
-		status: 'draft' | 'ready';
+		status: SessionStatus;
+		lint?: RecordLintReport;
+		verification?: SessionVerification;
+		patchWarnings?: string[];
+		omittedFiles?: OmittedFile[];
+		redaction?: RecordRedaction;
 		record: TrainingRecord;
 	};
 };
 
+export type StartSessionOptions = {
+	snapshotDirtyWorkingTree?: boolean;
+};
+
+export type StopSessionOptions = {
+	resolveFinalSummary?: (defaultSummary: string) => Promise<string | undefined>;
+	resolveSecretHits?: (hits: SecretHit[]) => Promise<SecretHitAction>;
+};
+
+export type MineCommitsResult = {
+	results: BuiltSessionResult[];
+	skipped: Array<{ commit: string; reason: string }>;
+};
+
+export type RunCmdScriptCandidate = DiscoveredScript & {
+	repoRoot: string;
+	manager: PackageManager;
+	runArgs?: RunCmdArgs;
+	rejection?: string;
+};
+
+export type OrphanedSessionSummary = {
+	taskId: string;
+	startedAt: string;
+	updatedAt: string;
+	messageCount: number;
+	commandsRun: number;
+};
+
 export class SessionManager {
 	private activeSession: ActiveSession | undefined;
+	private stoppingSession: ActiveSession | undefined;
 	private runCmdTerminal: RunCmdTerminal | undefined;
+	private readonly runCmdQueue = new RunCmdQueue();
+	private walQueue: Promise<void> = Promise.resolve();
+	private sessionLockTimer: ReturnType<typeof setInterval> | undefined;
+
+	private readonly runCmdOutputEmitter = new vscode.EventEmitter<RunCmdOutputEvent>();
+	private readonly persistFailureEmitter = new vscode.EventEmitter<Error>();
+
+	public readonly onDidChangeRunCmdState = this.runCmdQueue.onDidChange;
+	public readonly onDidRunCmdOutput = this.runCmdOutputEmitter.event;
+	public readonly onDidFailToPersistSession = this.persistFailureEmitter.event;
+
+	public constructor(private readonly storageRoot: string) {}
 
 	public hasActiveSession(): boolean {
 		return this.activeSession !== undefined;
 	}
 
-	public async startSession(taskId: string, systemPrompt: string, userPrompt: string): Promise<void> {
+	public async findOrphanedSession(): Promise<OrphanedSessionSummary | undefined> {
+		if (this.activeSession) {
+			return undefined;
+		}
+
+		const wal = await this.findOrphanedWal();
+		if (!wal) {
+			return undefined;
+		}
+
+		return {
+			taskId: wal.session.taskId,
+			startedAt: wal.session.startedAt,
+			updatedAt: wal.updatedAt,
+			messageCount: wal.session.record.messages.length,
+			commandsRun: wal.session.commandsRun.length,
+		};
+	}
+
+	public async resumeOrphanedSession(): Promise<void> {
 		if (this.activeSession) {
 			throw new Error('A session is already active. Stop or discard it first.');
 		}
 
-		const repoRoot = this.getSingleWorkspaceRoot();
-		await this.ensureGitRepo(repoRoot);
-		await this.ensureCleanWorkingTree(repoRoot);
+		const wal = await this.findOrphanedWal();
+		if (!wal) {
+			throw new Error('No unfinished session found for this workspace.');
+		}
 
-		const baseRef = await this.gitLine(repoRoot, ['rev-parse', 'HEAD']);
-		const branch = await this.gitLine(repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD']);
-		const repoName = path.basename(repoRoot);
+		this.activeSession = wal.session;
+		this.holdSessionLock(wal.session);
+	}
 
-		let remote: string | undefined;
-		try {
-			remote = await this.gitLine(repoRoot, ['remote', 'get-url', 'origin']);
-		} catch {
-			remote = undefined;
+	public async discardOrphanedSession(): Promise<void> {
+		if (this.activeSession) {
+			throw new Error('A session is active. Discard it from the sidebar instead.');
+		}
+
+		const wal = await this.findOrphanedWal();
+		if (wal) {
+			await this.releaseSnapshotRefs(wal.session);
+			await this.releaseWorktree(wal.session);
+			await this.removeWal(wal.session);
+		}
+	}
+
+	public async startSession(
+		taskId: string,
+		systemPrompt: string,
+		userPrompt: string,
+		roots: string[],
+		options: StartSessionOptions = {},
+	): Promise<void> {
+		if (this.activeSession) {
+			throw new Error('A session is already active. Stop or discard it first.');
+		}
+
+		if (roots.length === 0) {
+			throw new Error('Select at least one workspace folder for the session.');
+		}
+
+		const repoStates: Array<{ repoRoot: string; isDirty: boolean }> = [];
+		for (const root of roots) {
+			await this.ensureGitRepo(root);
+			const repoRoot = path.resolve(await this.gitLine(root, ['rev-parse', '--show-toplevel']));
+			if (repoStates.some((state) => state.repoRoot === repoRoot)) {
+				continue;
+			}
+			const isDirty = await this.isWorkingTreeDirty(repoRoot);
+			if (isDirty && !options.snapshotDirtyWorkingTree) {
+				throw new Error(
+					'Repository is not clean. Commit or stash changes before starting a session, or start from a snapshot baseline.',
+				);
+			}
+			repoStates.push({ repoRoot, isDirty });
+		}
+		const sessionKey = this.getSessionKey(repoStates.map((state) => state.repoRoot));
+		const repos: SessionRepo[] = [];
+		for (const { repoRoot, isDirty } of repoStates) {
+			repos.push(
+				await this.describeRepo(repoRoot, isDirty ? buildSnapshotRef(sessionKey, 'baseline') : undefined),
+			);
 		}
+		this.assignRepoPrefixes(repos);
 
 		this.activeSession = {
 			taskId,
 			systemPrompt,
 			userPrompt,
-			baseRef,
-			repoRoot,
-			repoName,
-			branch,
-			remote,
+			repos,
+			packageManager: await this.resolvePackageManager(repos[0].root, repos[0].root),
 			commandsRun: [],
 			runCmdEvents: [],
 			record: {
 				messages: [makeSystem(systemPrompt), makeUser(userPrompt)],
 			},
 			callSeq: 0,
-			fileChangesSubmitted: false,
-			submittedFilesChanged: 0,
+			checkpointCount: 0,
 			startedAt: new Date().toISOString(),
 			lastSearchResults: new Set<string>(),
 			readFilesRecorded: new Set<string>(),
 		};
+		this.holdSessionLock(this.activeSession);
+		await this.persistActiveSession(this.activeSession);
+	}
+
+	public async startSessionInWorktree(
+		taskId: string,
+		systemPrompt: string,
+		userPrompt: string,
+		sourceRoot: string,
+		ref: string,
+	): Promise<{ worktreePath: string }> {
+		if (this.activeSession) {
+			throw new Error('A session is already active. Stop or discard it first.');
+		}
+
+		const trimmedRef = ref.trim();
+		if (!trimmedRef) {
+			throw new Error('A branch, tag or commit SHA is required.');
+		}
+
+		await this.ensureGitRepo(sourceRoot);
+		const repoRoot = path.resolve(await this.gitLine(sourceRoot, ['rev-parse', '--show-toplevel']));
+		const commit = await this.gitLine(repoRoot, ['rev-parse', '--verify', `${trimmedRef}^{commit}`]);
+		const repoName = path.basename(repoRoot);
+		const worktreePath = buildWorktreePath(repoName);
+
+		await createDetachedWorktree(repoRoot, commit, worktreePath);
+		try {
+			await this.startSession(taskId, systemPrompt, userPrompt, [worktreePath]);
+		} catch (error) {
+			await removeWorktree(repoRoot, worktreePath).catch(() => undefined);
+			throw error;
+		}
+
+		const session = this.activeSession as ActiveSession | undefined;
+		if (session) {
+			session.repos[0].name = repoName;
+			session.repos[0].branch = trimmedRef;
+			session.worktree = { sourceRoot: repoRoot, path: worktreePath, ref: trimmedRef };
+			await this.persistActiveSession(session);
+		}
+
+		return { worktreePath };
+	}
+
+	public getActivePackageManager(): PackageManager | undefined {
+		if (!this.activeSession) {
+			return undefined;
+		}
+		return this.activeSession.packageManager ?? 'pnpm';
+	}
+
+	public getActiveWorktreePath(): string | undefined {
+		return this.activeSession?.worktree?.path;
+	}
+
+	public resolveSessionPath(rawPath: string): { root: string; prefix: string; relativePath: string } {
+		if (!this.activeSession) {
+			throw new Error('Start a session before resolving repository paths.');
+		}
+
+		const selection = selectSessionRepo(this.activeSession.repos, rawPath.trim());
+		if (!selection) {
+			const folders = this.activeSession.repos.map((repo) => repo.prefix).join(', ');
+			throw new Error(`Path must start with one of the session folders: ${folders}`);
+		}
+
+		return {
+			root: selection.repo.root,
+			prefix: selection.repo.prefix,
+			relativePath: selection.rest,
+		};
 	}
 
-	public discardSession(): void {
+	public async discardSession(): Promise<void> {
+		const session = this.activeSession;
 		this.activeSession = undefined;
+		this.runCmdQueue.cancelQueued();
+		if (session) {
+			await this.releaseSnapshotRefs(session);
+			await this.releaseWorktree(session);
+			await this.removeWal(session);
+		}
+	}
+
+	public async addUserTurn(userMessage: string, assistantReply?: string): Promise<{ turnCount: number }> {
+		if (!this.activeSession) {
+			throw new Error('Start a session before adding a user turn.');
+		}
+		this.assertSessionNotStopping();
+
+		const turnCount = appendUserTurn(this.activeSession.record, userMessage, assistantReply);
+		await this.persistActiveSession(this.activeSession);
+
+		return { turnCount };
+	}
+
+	public async addAssistantMessage(content: string): Promise<void> {
+		if (!this.activeSession) {
+			throw new Error('Start a session before adding assistant messages.');
+		}
+		this.assertSessionNotStopping();
+
+		const trimmed = content.trim();
+		if (!trimmed) {
+			throw new Error('Assistant message is required.');
+		}
+
+		this.activeSession.record.messages.push(makeAssistantText(trimmed));
+		await this.persistActiveSession(this.activeSession);
 	}
 
 	public async recordOpenedFile(filePath: string): Promise<void> {
-		if (!this.activeSession || !filePath) {
+		if (!this.activeSession || this.stoppingSession || !filePath) {
 			return;
 		}
 
-		const normalizedFilePath = path.resolve(filePath);
-		const repoRoot = this.activeSession.repoRoot;
-		const normalizedRoot = path.resolve(repoRoot);
-		const withSep = `${normalizedRoot}${path.sep}`;
-
-		if (!normalizedFilePath.startsWith(withSep) && normalizedFilePath !== normalizedRoot) {
+		const match = findRepoForAbsolutePath(this.activeSession.repos, filePath);
+		if (!match) {
 			return;
 		}
 
-		const relativePath = path.relative(repoRoot, normalizedFilePath).replace(/\\/g, '/');
-		if (!relativePath || relativePath.startsWith('..')) {
+		const normalizedFilePath = path.resolve(filePath);
+		if (!match.relativePath || match.relativePath.startsWith('..')) {
 			return;
 		}
 
-		if (!this.isIncludedPath(relativePath)) {
+		if (!this.isIncludedPath(match.relativePath)) {
 			return;
 		}
 
+		const relativePath = `${match.repo.prefix}${match.relativePath}`;
 		if (!this.activeSession.lastSearchResults.has(relativePath)) {
 			return;
 		}
@@ -184,21 +479,26 @@ export class SessionManager {
 			return;
 		}
 
+		if (await this.isBinaryFile(normalizedFilePath)) {
+			return;
+		}
+
 		const callId = this.nextCallId(this.activeSession, 'read');
 		this.activeSession.record.messages.push(makeToolCallMessage(callId, 'repo.readFile', { path: relativePath }));
 
 		try {
-			const content = await this.readTextFile(normalizedFilePath);
+			const content = await this.readTextFile(normalizedFilePath, 'repo.readFile');
 			this.activeSession.record.messages.push(makeToolResultMessage(callId, content));
 		} catch {
 			this.activeSession.record.messages.push(makeToolResultMessage(callId, '[unable to read file]'));
 		}
 
 		this.activeSession.readFilesRecorded.add(relativePath);
+		await this.persistActiveSession(this.activeSession);
 	}
 
 	public addManualBrowseCandidates(paths: string[]): void {
-		if (!this.activeSession) {
+		if (!this.activeSession || this.stoppingSession) {
 			return;
 		}
 
@@ -215,6 +515,7 @@ export class SessionManager {
 		if (!this.activeSession) {
 			throw new Error('Start a session before listing and reading repository files.');
 		}
+		this.assertSessionNotStopping();
 
 		const normalizedDirectoryPath = directoryPath.trim() || '.';
 		const normalizedFiles = files
@@ -240,14 +541,19 @@ export class SessionManager {
 				continue;
 			}
 
+			const selection = selectSessionRepo(this.activeSession.repos, file);
+			if (selection && (await this.isBinaryFile(path.join(selection.repo.root, selection.rest)))) {
+				continue;
+			}
+
 			const readCallId = this.nextCallId(this.activeSession, 'read');
 			this.activeSession.record.messages.push(
 				makeToolCallMessage(readCallId, 'repo.readFile', { path: file }),
 			);
 
 			try {
-				const absolutePath = path.join(this.activeSession.repoRoot, file);
-				const content = await this.readTextFile(absolutePath);
+				const absolutePath = this.toAbsolutePath(this.activeSession, file);
+				const content = await this.readTextFile(absolutePath, 'repo.readFile');
 				this.activeSession.record.messages.push(makeToolResultMessage(readCallId, content));
 			} catch {
 				this.activeSession.record.messages.push(
@@ -257,6 +563,31 @@ export class SessionManager {
 
 			this.activeSession.readFilesRecorded.add(file);
 		}
+
+		await this.persistActiveSession(this.activeSession);
+	}
+
+	public async recordDiagnostics(
+		options: { minSeverity?: EditorDiagnosticSeverity; path?: string } = {},
+	): Promise<{ count: number }> {
+		if (!this.activeSession) {
+			throw new Error('Start a session before recording diagnostics.');
+		}
+		this.assertSessionNotStopping();
+
+		const args: RepoDiagnosticsArgs = { minSeverity: options.minSeverity ?? this.getDiagnosticsMinSeverity() };
+		const rawPath = (options.path ?? '').replace(/\\/g, '/').trim().replace(/^\.\//, '').replace(/\/+$/, '');
+		if (rawPath && rawPath !== '.') {
+			args.path = rawPath;
+		}
+		const diagnostics = this.collectEditorDiagnostics(this.activeSession, args);
+		this.appendDiagnosticsToRecord(
+			this.activeSession,
+			args,
+			formatEditorDiagnostics(diagnostics, MAX_RECORDED_DIAGNOSTICS),
+		);
+		await this.persistActiveSession(this.activeSession);
+		return { count: diagnostics.length };
 	}
 
 	public async searchRepo(
@@ -266,6 +597,7 @@ export class SessionManager {
 		if (!this.activeSession) {
 			throw new Error('Start a session before running repo search.');
 		}
+		this.assertSessionNotStopping();
 
 		const trimmedQuery = query.trim();
 		if (!trimmedQuery) {
@@ -273,27 +605,48 @@ export class SessionManager {
 		}
 
 		const rawPath = (options?.path ?? '').trim();
-		const normalizedPath = normalizeSearchPath(rawPath, this.activeSession.repoRoot);
 		const rawLimit = options?.maxResults;
 		const maxResults =
 			typeof rawLimit === 'number' && Number.isFinite(rawLimit) && rawLimit > 0
 				? Math.floor(rawLimit)
 				: 20;
 
-		const results = await runRepoSearch(
-			this.activeSession.repoRoot,
-			trimmedQuery,
-			normalizedPath.grepPath,
-			maxResults,
-			(this.isIncludedPath).bind(this),
-		);
+		const selection = selectSessionRepo(this.activeSession.repos, rawPath);
+		const targets = selection
+			? [{ repo: selection.repo, normalizedPath: normalizeSearchPath(selection.rest, selection.repo.root) }]
+			: this.activeSession.repos.map((repo) => ({
+					repo,
+					normalizedPath: normalizeSearchPath('', repo.root),
+			  }));
+
+		const results: RepoSearchResult[] = [];
+		for (const target of targets) {
+			if (results.length >= maxResults) {
+				break;
+			}
+			const repoResults = await runRepoSearch(
+				target.repo.root,
+				trimmedQuery,
+				target.normalizedPath.grepPath,
+				maxResults - results.length,
+				(this.isIncludedPath).bind(this),
+			);
+			results.push(
+				...repoResults.map((result) => ({ ...result, path: `${target.repo.prefix}${result.path}` })),
+			);
+		}
+
+		this.assertSessionNotStopping();
 		const callId = this.nextCallId(this.activeSession, 'search');
 		const searchArgs: { query: string; path?: string; maxResults: number } = {
 			query: trimmedQuery,
 			maxResults,
 		};
-		if (normalizedPath.recordedPath) {
-			searchArgs.path = normalizedPath.recordedPath;
+		const recordedPath = selection
+			? this.toRecordedSearchPath(selection.repo, targets[0].normalizedPath.recordedPath)
+			: undefined;
+		if (recordedPath) {
+			searchArgs.path = recordedPath;
 		}
 		this.activeSession.record.messages.push(
 			makeToolCallMessage(callId, 'repo.search', searchArgs),
@@ -303,43 +656,211 @@ export class SessionManager {
 		);
 
 		this.activeSession.lastSearchResults = new Set(results.map((result) => result.path));
+		await this.persistActiveSession(this.activeSession);
 		return results;
 	}
 
-	public async runAllowedPnpmCommand(input: RunCmdArgs): Promise<string> {
+	public async runAllowedCommand(input: RunCmdArgs): Promise<string> {
 		if (!this.activeSession) {
 			throw new Error('Start a session before running recorded commands.');
 		}
+		this.assertSessionNotStopping();
 
 		const normalized = normalizeRunCmdArgs(input);
-		parseAllowedRunCmd(normalized);
-
-		const cwd = normalized.cwd ?? this.activeSession.repoRoot;
+		const cwd = this.resolveRunCmdCwd(normalized.cwd);
+		const repoRoot = findRepoForAbsolutePath(this.activeSession.repos, cwd)?.repo.root;
+		if (!repoRoot) {
+			throw new Error(`run_cmd cwd is outside the session repositories: ${cwd}`);
+		}
+		const manager = await this.resolvePackageManager(cwd, repoRoot);
+		if (normalized.cmd !== manager) {
+			throw new Error(
+				`This repository uses ${manager}; recording '${normalized.cmd}' would misrepresent the command that ran.`,
+			);
+		}
+		const allowed = parseAllowedRunCmd(normalized, await this.getRunCmdAllowRules(repoRoot));
 		const recordedArgs: RunCmdArgs = {
 			...normalized,
 			cwd,
 		};
 		const timeoutMs = normalized.timeoutMs ?? 120_000;
+		const command = `${normalized.cmd} ${normalized.args.join(' ')}`;
+
+		return this.runCmdQueue.run(command, this.isRunCmdQueueEnabled(), async () => {
+			const session = this.activeSession;
+			if (!session) {
+				throw new Error(`The session ended before ${command} started.`);
+			}
+			this.assertSessionNotStopping();
+
+			this.runCmdOutputEmitter.fire({ kind: 'started', command, startedAt: new Date().toISOString() });
+			const stripper = createAnsiStreamStripper();
+			const subscription = this.getOrCreateRunCmdTerminal().onDidOutput((chunk) => {
+				const text = stripper.push(chunk);
+				if (text) {
+					this.runCmdOutputEmitter.fire({ kind: 'output', text });
+				}
+			});
+			const { output: rawOutput, ...result } = await this.runCommandWithLiveTerminal(
+				recordedArgs,
+				cwd,
+				timeoutMs,
+			).finally(() => subscription.dispose());
+			const rest = stripper.flush();
+			if (rest) {
+				this.runCmdOutputEmitter.fire({ kind: 'output', text: rest });
+			}
+
+			const detector = await this.getSecretDetector(session.repos.map((repo) => repo.root));
+			const cleanedOutput = detector.redact(stripAnsi(rawOutput));
+			const output = this.truncateOutput(cleanedOutput, allowed);
+			const diagnostics = parseCommandDiagnostics(cleanedOutput).map((diagnostic) =>
+				this.resolveDiagnosticPath(session, diagnostic, cwd),
+			);
+			const finished = {
+				kind: 'finished' as const,
+				command,
+				exitCode: result.exitCode,
+				timedOut: result.timedOut,
+				cancelled: result.cancelled,
+				durationMs: result.durationMs,
+			};
+			if (this.activeSession !== session) {
+				this.runCmdOutputEmitter.fire({ ...finished, notRecordedReason: 'the session ended while it was running' });
+				throw new Error(`The session ended while ${command} was running; it was not recorded.`);
+			}
+			if (this.stoppingSession === session) {
+				this.runCmdOutputEmitter.fire({ ...finished, notRecordedReason: 'the session was stopping' });
+				throw new Error(`The session was stopping when ${command} finished; it was not recorded.`);
+			}
+			if (result.cancelled && this.getCancelledRunCmdMode() === 'drop') {
+				this.runCmdOutputEmitter.fire({ ...finished, notRecordedReason: 'cancelled commands are dropped' });
+				throw new Error(`Cancelled ${command}; it was not recorded.`);
+			}
+
+			const recorded = formatRunCmdResult(output, result, this.getRunCmdResultFormat());
+			session.runCmdEvents.push({
+				args: recordedArgs,
+				output,
+				...result,
+				validation: isValidationRunCmd(allowed),
+				diagnostics: diagnostics.length > 0 ? diagnostics : undefined,
+			});
+			session.commandsRun.push(command);
+			const callId = this.nextCallId(session, 'run_cmd');
+			addRunCmd(session.record, callId, recordedArgs, recorded);
+			await this.persistActiveSession(session);
+			this.runCmdOutputEmitter.fire({
+				...finished,
+				recorded: await this.previewSavedRunCmdResult(session, callId, recordedArgs, recorded),
+			});
 
-		const { output: rawOutput, failed } = await this.runPnpmWithLiveTerminal(recordedArgs, cwd, timeoutMs);
-		const output = this.truncateOutput(this.redactOutput(this.stripAnsi(rawOutput)));
+			if (result.cancelled) {
+				throw new Error(`Cancelled ${command}; recorded as cancelled.`);
+			}
+			if (result.failed) {
+				throw new Error(output || 'run_cmd failed');
+			}
+
+			return output;
+		});
+	}
+
+	public buildFixErrorsPrompt(): string {
+		const event = this.activeSession?.runCmdEvents
+			.slice()
+			.reverse()
+			.find((candidate) => candidate.failed && candidate.diagnostics?.length);
+		if (!event?.diagnostics) {
+			throw new Error('No failing run_cmd with parsed diagnostics in this session.');
+		}
+		return buildFixErrorsPrompt(`${event.args.cmd} ${event.args.args.join(' ')}`, event.diagnostics);
+	}
+
+	public getRunCmdState(): RunCmdQueueState {
+		return this.runCmdQueue.getState();
+	}
+
+	public cancelRunCmd(queuedId?: number): boolean {
+		if (queuedId !== undefined) {
+			return this.runCmdQueue.cancelQueued(queuedId) > 0;
+		}
+		return this.runCmdTerminal?.cancel() ?? false;
+	}
+
+	public async discoverRunCmdScripts(): Promise<RunCmdScriptCandidate[]> {
+		if (!this.activeSession) {
+			throw new Error('Start a session before discovering scripts.');
+		}
 
-		this.activeSession.runCmdEvents.push({ args: recordedArgs, output });
-		this.activeSession.commandsRun.push(`pnpm ${normalized.args.join(' ')}`);
-		addRunCmd(this.activeSession.record, this.nextCallId(this.activeSession, 'run_cmd'), recordedArgs, output);
+		const candidates: RunCmdScriptCandidate[] = [];
+		for (const repo of this.activeSession.repos) {
+			const manager = await this.resolvePackageManager(repo.root, repo.root);
+			const rules = await this.getRunCmdAllowRules(repo.root);
+			const packageJsonPaths = (
+				await this.git(repo.root, ['ls-files', '--', 'package.json', ':(glob)**/package.json'])
+			)
+				.split('\n')
+				.map((line) => line.trim())
+				.filter(Boolean);
+			for (const script of await discoverPackageScripts(repo.root, packageJsonPaths)) {
+				let rejection: string | undefined;
+				let runArgs: RunCmdArgs | undefined;
+				try {
+					runArgs = buildScriptRunCmd(manager, script, [], repo.root);
+					parseAllowedRunCmd(runArgs, rules);
+				} catch (error) {
+					rejection = error instanceof Error ? error.message : String(error);
+				}
+				candidates.push({ ...script, repoRoot: repo.root, manager, runArgs, rejection });
+			}
+		}
+		return candidates;
+	}
 
-		if (failed) {
-			throw new Error(output || 'run_cmd failed');
+	public async getSecretDetector(repoRoots: string[] = []): Promise<SecretDetector> {
+		const config = vscode.workspace.getConfiguration('dataset');
+		const entropy = {
+			...DEFAULT_SECRET_ENTROPY_OPTIONS,
+			...config.get<Partial<SecretEntropyOptions>>('secretDetection.entropy', {}),
+		};
+		const allowlist = normalizeSecretAllowlist(
+			config.get<unknown[]>('secretDetection.allowlist', []),
+			'dataset.secretDetection.allowlist',
+		);
+		for (const repoRoot of repoRoots) {
+			allowlist.push(...(await loadRepoSecretAllowlist(this.resolveRecordedRoot(repoRoot))));
 		}
 
-		return output;
+		return createSecretDetector({
+			customPatterns: config.get<string[]>('redactionPatterns', []),
+			disabledRules: config.get<string[]>('secretDetection.disabledRules', []),
+			entropy,
+			allowlist,
+		});
+	}
+
+	public getPayloadAnonymizer(roots: Array<{ root: string; prefix: string }>): PayloadAnonymizer | undefined {
+		const config = vscode.workspace.getConfiguration('dataset');
+		if (!config.get<boolean>('anonymization.enabled', true)) {
+			return undefined;
+		}
+		const remoteMode = config.get<string>('anonymization.remote', 'keep');
+		return createPayloadAnonymizer({
+			roots,
+			homeDir: os.homedir(),
+			tmpDir: os.tmpdir(),
+			username: os.userInfo().username,
+			hostname: os.hostname(),
+			remoteMode: remoteMode === 'hash' || remoteMode === 'drop' ? (remoteMode as RemoteAnonymization) : 'keep',
+		});
 	}
 
-	private async runPnpmWithLiveTerminal(
+	private async runCommandWithLiveTerminal(
 		args: RunCmdArgs,
 		cwd: string,
 		timeoutMs: number,
-	): Promise<{ output: string; failed: boolean }> {
+	): Promise<RunCmdResult> {
 		const terminal = this.getOrCreateRunCmdTerminal();
 		return terminal.runCommand(args, cwd, timeoutMs);
 	}
@@ -351,77 +872,100 @@ export class SessionManager {
 		return this.runCmdTerminal;
 	}
 
-	public async submitFileChangesCheckpoint(): Promise<{ filesChanged: number; operationsApplied: number }> {
+	public async submitFileChangesCheckpoint(): Promise<{
+		checkpoint: number;
+		filesChanged: number;
+		operationsApplied: number;
+		warnings: string[];
+	}> {
 		if (!this.activeSession) {
 			throw new Error('Start a session before submitting file changes.');
 		}
+		this.assertSessionNotStopping();
 
-		if (this.activeSession.fileChangesSubmitted) {
-			throw new Error('File changes already submitted for this session.');
-		}
-
+		await this.autoRecordDiagnostics(this.activeSession);
 		const snapshot = await this.appendFileChangesToRecord(this.activeSession);
 		if (snapshot.operationsApplied === 0) {
-			throw new Error('No file changes found to submit.');
+			throw new Error('No file changes found since the last checkpoint.');
 		}
 
-		this.activeSession.fileChangesSubmitted = true;
-		this.activeSession.submittedFilesChanged = snapshot.filesChanged;
+		await this.persistActiveSession(this.activeSession);
 
 		return {
+			checkpoint: this.activeSession.checkpointCount,
 			filesChanged: snapshot.filesChanged,
 			operationsApplied: snapshot.operationsApplied,
+			warnings: snapshot.warnings,
 		};
 	}
 
-	public async stopAndBuildLocalRecord(context: ExtensionContext): Promise<BuiltSessionResult> {
+	public async stopAndBuildLocalRecord(
+		context: ExtensionContext,
+		options: StopSessionOptions = {},
+	): Promise<BuiltSessionResult> {
 		if (!this.activeSession) {
 			throw new Error('No active session to stop.');
 		}
 
+		this.assertSessionNotStopping();
 		const session = this.activeSession;
-		let filesChanged = session.submittedFilesChanged;
-		let hasApplyPatch = this.recordHasApplyPatch(session.record);
+		this.stoppingSession = session;
+		try {
+			return await this.buildStoppedSessionRecord(context, session, options);
+		} finally {
+			this.stoppingSession = undefined;
+		}
+	}
+
+	private assertSessionNotStopping(): void {
+		if (this.stoppingSession && this.stoppingSession === this.activeSession) {
+			throw new Error('The session is stopping; try again once the stop finishes or is cancelled.');
+		}
+	}
 
-		if (!session.fileChangesSubmitted) {
-			const snapshot = await this.appendFileChangesToRecord(session);
-			filesChanged = snapshot.filesChanged;
-			hasApplyPatch = snapshot.operationsApplied > 0;
+	private async buildStoppedSessionRecord(
+		context: ExtensionContext,
+		session: ActiveSession,
+		options: StopSessionOptions,
+	): Promise<BuiltSessionResult> {
+		const redaction = await stageSessionChanges(session, async (staged) => {
+			await this.autoRecordDiagnostics(staged);
+			await this.appendFileChangesToRecord(staged);
+			return this.redactSessionSecrets(staged, options.resolveSecretHits);
+		});
+		await this.persistActiveSession(session);
+		const hasApplyPatch = hasPatchInLastTurn(session.record);
+		let filesChanged = 0;
+		for (const repo of session.repos) {
+			const changes = await this.getNameStatusChanges(repo.root, repo.baseRef, repo.checkpointRef);
+			filesChanged += changes.filter((change) => this.isIncludedChange(change)).length;
 		}
 
-		const ranValidationCommand = session.commandsRun.some((command) =>
-			/(^|\s)(lint|test|build)(\s|$)/.test(command),
+		const lint = lintRecord(
+			{ record: session.record, commandOutcomes: this.collectCommandOutcomes(session) },
+			this.getEnabledLintRules(),
 		);
-		const status: 'draft' | 'ready' = hasApplyPatch && ranValidationCommand ? 'ready' : 'draft';
+		const status: SessionStatus = !hasApplyPatch ? 'draft' : lint.passed ? 'ready' : 'needs-review';
 
-		const payload = {
-			taskId: session.taskId,
-			repo: {
-				name: session.repoName,
-				root: session.repoRoot,
-				branch: session.branch,
-				remote: session.remote,
-			},
-			baseRef: session.baseRef,
-			createdAt: new Date().toISOString(),
-			startedAt: session.startedAt,
-			metrics: {
-				filesChanged,
-				commandsRun: session.commandsRun,
-			},
-			status,
-			record: {
-				messages: [...session.record.messages, { role: 'assistant' as const, content: 'Done.' }],
-			},
-		};
+		const defaultSummary = buildDefaultFinalSummary(
+			collectPatchedPaths(session.record),
+			this.findLastValidationResult(session),
+		);
+		const authoredSummary = options.resolveFinalSummary
+			? await options.resolveFinalSummary(defaultSummary)
+			: undefined;
+		const finalSummary = authoredSummary?.trim() || defaultSummary;
 
-		const outputRoot = path.join(context.globalStorageUri.fsPath, 'sessions');
-		await fs.mkdir(outputRoot, { recursive: true });
-		const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
-		const outputPath = path.join(outputRoot, fileName);
-		await fs.writeFile(outputPath, JSON.stringify(payload, null, 2), 'utf8');
+		const payload = this.buildSessionPayload(session, { filesChanged, status, lint, finalSummary, redaction });
+		await this.attachVerification(payload);
+		this.anonymizePayload(payload, this.listAnonymizedRoots(session));
+		const outputPath = await this.writeSessionRecord(payload);
 
 		this.activeSession = undefined;
+		this.runCmdQueue.cancelQueued();
+		await this.releaseSnapshotRefs(session);
+		await this.releaseWorktree(session);
+		await this.removeWal(session);
 		void context.globalState.update('dataset.lastRecordPath', outputPath);
 
 		return {
@@ -430,80 +974,699 @@ export class SessionManager {
 		};
 	}
 
-	private nextCallId(session: ActiveSession, prefix: string): string {
-		session.callSeq += 1;
-		return `${prefix}_${session.callSeq}`;
-	}
+	public async mineCommits(
+		taskId: string,
+		systemPrompt: string,
+		sourceRoot: string,
+		commitSpec: string,
+	): Promise<MineCommitsResult> {
+		await this.ensureGitRepo(sourceRoot);
+		const repoRoot = path.resolve(await this.gitLine(sourceRoot, ['rev-parse', '--show-toplevel']));
+		const commits = await this.resolveCommitSpec(repoRoot, commitSpec);
+		if (commits.length === 0) {
+			throw new Error('No commits matched the given range or SHAs.');
+		}
 
-	private recordHasApplyPatch(record: TrainingRecord): boolean {
-		return record.messages.some((message) => {
-			if (message.role !== 'assistant' || !('tool_calls' in message)) {
-				return false;
+		const repoTemplate = await this.describeRepo(repoRoot);
+		const maxFilesChanged = this.getMineCommitsMaxFilesChanged();
+		const ignoreGlobs = this.getMineCommitsIgnoreGlobs();
+		const excludeMessageRegexes = this.getMineCommitsExcludeMessageRegexes();
+		const results: BuiltSessionResult[] = [];
+		const skipped: MineCommitsResult['skipped'] = [];
+
+		for (const commit of commits) {
+			const parents = (await this.gitLine(repoRoot, ['rev-list', '--parents', '-n', '1', commit]))
+				.split(' ')
+				.slice(1);
+			const message = (await this.git(repoRoot, ['log', '-1', '--format=%B', commit])).trim();
+			const parent = parents[0];
+			const changes =
+				parents.length === 1
+					? (await this.getNameStatusChanges(repoRoot, parent, commit)).filter((change) =>
+							this.isIncludedChange(change, ignoreGlobs),
+						)
+					: [];
+			const skipReason = findMinedCommitSkipReason({
+				parents,
+				message,
+				changedFiles: changes.length,
+				maxFilesChanged,
+				excludeMessageRegexes,
+			});
+			if (skipReason) {
+				skipped.push({ commit, reason: skipReason });
+				continue;
 			}
-			return message.tool_calls.some((call) => call.function.name === 'apply_patch');
-		});
-	}
-
-	private async appendFileChangesToRecord(
-		session: ActiveSession,
-	): Promise<{ filesChanged: number; operationsApplied: number }> {
-		const changes = await this.getNameStatusChanges(session.repoRoot, session.baseRef);
-		const filtered = changes.filter((change) => this.isIncludedChange(change));
 
-		for (const change of filtered) {
-			if (change.kind === 'M' || change.kind === 'D' || change.kind === 'A') {
-				if (session.readFilesRecorded.has(change.path)) {
+			try {
+				const session: ActiveSession = {
+					taskId,
+					systemPrompt,
+					userPrompt: message,
+					repos: [
+						{
+							...repoTemplate,
+							branch: await this.findMinedCommitBranch(repoRoot, commit, repoTemplate.branch),
+							baseRef: parent,
+							headRef: commit,
+							checkpointRef: parent,
+						},
+					],
+					commandsRun: [],
+					runCmdEvents: [],
+					record: {
+						messages: [makeSystem(systemPrompt), makeUser(message)],
+					},
+					callSeq: 0,
+					checkpointCount: 0,
+					startedAt: await this.gitLine(repoRoot, ['log', '-1', '--format=%aI', commit]),
+					lastSearchResults: new Set<string>(),
+					readFilesRecorded: new Set<string>(),
+				};
+				const snapshot = await this.appendFileChangesToRecord(session, {
+					resolveToRef: async () => commit,
+					extraIgnoreGlobs: ignoreGlobs,
+				});
+				if (snapshot.operationsApplied === 0) {
+					skipped.push({ commit, reason: 'no patch operations' });
 					continue;
 				}
+				const redaction = await this.redactSessionSecrets(session);
+				const lint = lintRecord(
+					{ record: session.record, commandOutcomes: this.collectCommandOutcomes(session) },
+					listMinedCommitLintRules(this.getEnabledLintRules()),
+				);
 
-				const callId = this.nextCallId(session, 'read');
-				session.record.messages.push(makeToolCallMessage(callId, 'repo.readFile', { path: change.path }));
-				const content = await this.safeGitShow(session.repoRoot, session.baseRef, change.path);
-				session.record.messages.push(makeToolResultMessage(callId, content));
-				session.readFilesRecorded.add(change.path);
+				const payload = this.buildSessionPayload(session, {
+					filesChanged: snapshot.filesChanged,
+					status: lint.passed ? 'ready' : 'needs-review',
+					lint,
+					finalSummary: buildDefaultFinalSummary(collectPatchedPaths(session.record)),
+					redaction,
+				});
+				payload.minedCommit = { sha: commit, parent };
+				await this.attachVerification(payload);
+				this.anonymizePayload(payload, this.listAnonymizedRoots(session));
+				const outputPath = await this.writeSessionRecord(payload, commit.slice(0, 12));
+				results.push({ outputPath, payload });
+			} catch (error) {
+				skipped.push({ commit, reason: error instanceof Error ? error.message : String(error) });
 			}
+		}
 
-			if (change.kind === 'R') {
-				if (!session.readFilesRecorded.has(change.oldPath)) {
-					const oldCallId = this.nextCallId(session, 'read');
-					session.record.messages.push(
-						makeToolCallMessage(oldCallId, 'repo.readFile', { path: change.oldPath }),
-					);
-					const oldContent = await this.safeGitShow(session.repoRoot, session.baseRef, change.oldPath);
-					session.record.messages.push(makeToolResultMessage(oldCallId, oldContent));
-					session.readFilesRecorded.add(change.oldPath);
-				}
+		return { results, skipped };
+	}
 
-				if (!session.readFilesRecorded.has(change.newPath)) {
-					const newCallId = this.nextCallId(session, 'read');
-					session.record.messages.push(
-						makeToolCallMessage(newCallId, 'repo.readFile', { path: change.newPath }),
-					);
-					const newContent = await this.safeGitShow(session.repoRoot, session.baseRef, change.newPath);
-					session.record.messages.push(makeToolResultMessage(newCallId, newContent));
-					session.readFilesRecorded.add(change.newPath);
+	public async verifySessionRecord(payload: BuiltSessionResult['payload']): Promise<SessionVerification> {
+		const repos: SessionRepo[] = payload.repos.map((repo) => {
+			if (!repo.endRef) {
+				throw new Error('Record has no endRef; it was saved before replay verification was available.');
+			}
+			const root = this.resolveRecordedRoot(repo.root);
+			if (!path.isAbsolute(root)) {
+				throw new Error(`Record root "${repo.root}" was anonymized and cannot be resolved on this machine.`);
+			}
+			return { ...repo, root, checkpointRef: repo.endRef };
+		});
+		const extraIgnoreGlobs = payload.minedCommit ? this.getMineCommitsIgnoreGlobs() : [];
+		const operations = collectApplyPatchOperations(payload.record);
+		const omittedPaths = new Set([
+			...(payload.omittedFiles ?? []).map((entry) => entry.path),
+			...(payload.redaction?.redactedPaths ?? []),
+			...(payload.redaction?.excludedPaths ?? []),
+			...operations
+				.filter((operation) => operation.type === 'binary_file' && operation.base64 === undefined)
+				.map((operation) => operation.path),
+		]);
+		const mismatches: SessionVerification['mismatches'] = [];
+		const worktrees = new Map<SessionRepo, string>();
+		const startedAt = new Date();
+
+		try {
+			for (const repo of repos) {
+				const worktreePath = buildWorktreePath(`verify-${repo.name}`, startedAt);
+				await createDetachedWorktree(repo.root, repo.baseRef, worktreePath);
+				worktrees.set(repo, worktreePath);
+			}
+
+			for (const operation of operations) {
+				if (omittedPaths.has(operation.path)) {
+					continue;
+				}
+				try {
+					await this.replayOperation(repos, worktrees, operation);
+				} catch (error) {
+					mismatches.push({
+						path: operation.path,
+						reason: `${operation.type} failed: ${error instanceof Error ? error.message : String(error)}`,
+					});
 				}
 			}
-		}
 
-		const operations = await this.buildApplyPatchOperations(session.repoRoot, session.baseRef, filtered);
-		if (operations.length > 0) {
-			const applyPatchCallId = this.nextCallId(session, 'apply_patch');
-			addApplyPatch(session.record, applyPatchCallId, {
-				data: { action: { operations } },
-			});
+			for (const [repo, worktreePath] of worktrees) {
+				await this.git(worktreePath, ['add', '-A']);
+				const output = await this.git(worktreePath, [
+					'diff',
+					'--cached',
+					'--no-renames',
+					'--name-status',
+					repo.checkpointRef,
+				]);
+				const rows = output.split('\n').map((row) => row.trim()).filter(Boolean);
+				for (const row of rows) {
+					const [status, filePath] = row.split('\t');
+					if (!filePath || !this.isIncludedPath(filePath, extraIgnoreGlobs)) {
+						continue;
+					}
+					const recordedPath = `${repo.prefix}${filePath}`;
+					if (omittedPaths.has(recordedPath) || mismatches.some((mismatch) => mismatch.path === recordedPath)) {
+						continue;
+					}
+					const reason =
+						status === 'A'
+							? 'present after replay but absent at endRef'
+							: status === 'D'
+								? 'missing after replay but present at endRef'
+								: 'content after replay differs from endRef';
+					mismatches.push({ path: recordedPath, reason });
+				}
+			}
+		} finally {
+			for (const [repo, worktreePath] of worktrees) {
+				await removeWorktree(repo.root, worktreePath).catch(() => undefined);
+			}
 		}
 
 		return {
-			filesChanged: filtered.length,
-			operationsApplied: operations.length,
+			ok: mismatches.length === 0,
+			verifiedAt: new Date().toISOString(),
+			operationsReplayed: operations.length,
+			mismatches,
 		};
 	}
 
-
-	private async getNameStatusChanges(repoRoot: string, baseRef: string): Promise<NameStatusChange[]> {
-		const output = await this.git(repoRoot, ['diff', '--name-status', baseRef]);
-		if (!output) {
+	private async attachVerification(payload: BuiltSessionResult['payload']): Promise<void> {
+		try {
+			payload.verification = await this.verifySessionRecord(payload);
+		} catch (error) {
+			payload.verification = {
+				ok: false,
+				verifiedAt: new Date().toISOString(),
+				operationsReplayed: 0,
+				mismatches: [
+					{
+						path: '',
+						reason: `Verification could not run: ${error instanceof Error ? error.message : String(error)}`,
+					},
+				],
+			};
+		}
+		if (!payload.verification.ok) {
+			payload.status = 'draft';
+		}
+	}
+
+	private async replayOperation(
+		repos: SessionRepo[],
+		worktrees: Map<SessionRepo, string>,
+		operation: ApplyPatchOperation,
+	): Promise<void> {
+		const selection = selectSessionRepo(repos, operation.path);
+		const worktreePath = selection ? worktrees.get(selection.repo) : undefined;
+		if (!selection || !selection.rest || !worktreePath) {
+			throw new Error('path is not inside a session folder');
+		}
+
+		const target = path.join(worktreePath, selection.rest);
+		if (operation.type === 'delete_file') {
+			await fs.unlink(target);
+			return;
+		}
+		if (operation.type === 'create_file') {
+			await fs.mkdir(path.dirname(target), { recursive: true });
+			await fs.writeFile(target, operation.diff, { encoding: 'utf8', flag: 'wx' });
+			return;
+		}
+		if (operation.type === 'move_file') {
+			const sourceSelection = selectSessionRepo(repos, operation.from);
+			if (!sourceSelection || !sourceSelection.rest || sourceSelection.repo !== selection.repo) {
+				throw new Error('move source is not inside the same session folder');
+			}
+			const source = path.join(worktreePath, sourceSelection.rest);
+			const content = await fs.readFile(source, 'utf8');
+			const exists = await fs.access(target).then(
+				() => true,
+				() => false,
+			);
+			if (exists) {
+				throw new Error('move target already exists');
+			}
+			await fs.mkdir(path.dirname(target), { recursive: true });
+			await fs.writeFile(target, operation.diff ? applyUnifiedDiff(content, operation.diff) : content, 'utf8');
+			await fs.unlink(source);
+			return;
+		}
+		if (operation.type === 'binary_file') {
+			if (operation.base64 === undefined) {
+				throw new Error('binary content was not embedded');
+			}
+			const content = Buffer.from(operation.base64, 'base64');
+			if (operation.action === 'create') {
+				await fs.mkdir(path.dirname(target), { recursive: true });
+				await fs.writeFile(target, content, { flag: 'wx' });
+			} else {
+				await fs.access(target);
+				await fs.writeFile(target, content);
+			}
+			return;
+		}
+
+		const current = await fs.readFile(target, 'utf8');
+		await fs.writeFile(target, applyUnifiedDiff(current, operation.diff), 'utf8');
+	}
+
+	private buildSessionPayload(
+		session: ActiveSession,
+		summary: {
+			filesChanged: number;
+			status: SessionStatus;
+			lint?: RecordLintReport;
+			finalSummary: string;
+			redaction?: RecordRedaction;
+		},
+	): BuiltSessionResult['payload'] {
+		const primaryRepo = session.repos[0];
+		return {
+			schemaVersion: getRequiredRecordSchemaVersion(session.record),
+			taskId: session.taskId,
+			repo: {
+				name: primaryRepo.name,
+				root: primaryRepo.root,
+				branch: primaryRepo.branch,
+				remote: primaryRepo.remote,
+			},
+			repos: session.repos.map((repo) => ({
+				name: repo.name,
+				root: repo.root,
+				prefix: repo.prefix,
+				branch: repo.branch,
+				remote: repo.remote,
+				baseRef: repo.baseRef,
+				headRef: repo.headRef,
+				endRef: repo.checkpointRef,
+				baseline: repo.baseline,
+			})),
+			baseRef: primaryRepo.baseRef,
+			headRef: primaryRepo.headRef,
+			worktree: session.worktree ? { ref: session.worktree.ref } : undefined,
+			createdAt: new Date().toISOString(),
+			startedAt: session.startedAt,
+			metrics: {
+				filesChanged: summary.filesChanged,
+				checkpoints: session.checkpointCount,
+				turnCount: countUserTurns(session.record),
+				commandsRun: session.commandsRun,
+				commandResults: session.runCmdEvents.map((event) => ({
+					command: `${event.args.cmd} ${event.args.args.join(' ')}`,
+					exitCode: event.exitCode ?? null,
+					signal: event.signal ?? null,
+					timedOut: event.timedOut ?? false,
+					cancelled: event.cancelled ?? false,
+					startedAt: event.startedAt,
+					durationMs: event.durationMs,
+					diagnostics: event.diagnostics,
+				})),
+			},
+			status: summary.status,
+			lint: summary.lint,
+			patchWarnings: session.patchWarnings?.length ? session.patchWarnings : undefined,
+			omittedFiles: session.omittedFiles?.length ? session.omittedFiles : undefined,
+			redaction: summary.redaction,
+			record: {
+				messages: [...session.record.messages, makeAssistantText(summary.finalSummary)],
+			},
+		};
+	}
+
+	private async writeSessionRecord(payload: BuiltSessionResult['payload'], suffix?: string): Promise<string> {
+		const outputRoot = path.join(this.storageRoot, 'sessions');
+		await fs.mkdir(outputRoot, { recursive: true });
+		const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+		const fileName = suffix ? `${timestamp}-${suffix}.json` : `${timestamp}.json`;
+		const outputPath = path.join(outputRoot, fileName);
+		await fs.writeFile(outputPath, JSON.stringify(payload, null, 2), 'utf8');
+		return outputPath;
+	}
+
+	private async findMinedCommitBranch(repoRoot: string, commit: string, currentBranch: string): Promise<string> {
+		const output = await this.git(repoRoot, [
+			'for-each-ref',
+			'--contains',
+			commit,
+			'--format=%(refname:short)',
+			'refs/heads',
+		]);
+		return pickMinedCommitBranch(
+			output.split('\n').map((line) => line.trim()).filter(Boolean),
+			currentBranch,
+		);
+	}
+
+	private async resolveCommitSpec(repoRoot: string, commitSpec: string): Promise<string[]> {
+		const tokens = commitSpec.split(/[\s,]+/).filter(Boolean);
+		const commits: string[] = [];
+
+		for (const token of tokens) {
+			if (token.includes('..')) {
+				const output = await this.git(repoRoot, ['rev-list', '--reverse', token]);
+				commits.push(...output.split('\n').map((line) => line.trim()).filter(Boolean));
+				continue;
+			}
+			commits.push(await this.gitLine(repoRoot, ['rev-parse', '--verify', `${token}^{commit}`]));
+		}
+
+		return Array.from(new Set(commits));
+	}
+
+	private persistActiveSession(session: ActiveSession): Promise<void> {
+		if (!session || this.activeSession !== session) {
+			return this.walQueue;
+		}
+
+		const walPath = this.getWalPath(session);
+		this.walQueue = this.walQueue
+			.catch(() => undefined)
+			.then(() => writeActiveSessionWal(walPath, session))
+			.catch((error: unknown) => {
+				this.persistFailureEmitter.fire(error instanceof Error ? error : new Error(String(error)));
+			});
+		return this.walQueue;
+	}
+
+	private removeWal(session: ActiveSession): Promise<void> {
+		const walPath = this.getWalPath(session);
+		const lockPath = this.getLockPath(session);
+		if (this.activeSession !== session) {
+			clearInterval(this.sessionLockTimer);
+			this.sessionLockTimer = undefined;
+		}
+		this.walQueue = this.walQueue
+			.catch(() => undefined)
+			.then(() => fs.rm(walPath, { force: true }))
+			.then(() => fs.rm(lockPath, { force: true }));
+		return this.walQueue;
+	}
+
+	private holdSessionLock(session: ActiveSession): void {
+		const lockPath = this.getLockPath(session);
+		const heartbeat = () => {
+			if (this.activeSession !== session) {
+				clearInterval(timer);
+				return;
+			}
+			this.walQueue = this.walQueue
+				.catch(() => undefined)
+				.then(() => (this.activeSession === session ? writeActiveSessionLock(lockPath) : undefined))
+				.catch(() => undefined);
+		};
+
+		clearInterval(this.sessionLockTimer);
+		const timer = setInterval(heartbeat, ACTIVE_SESSION_HEARTBEAT_MS);
+		timer.unref?.();
+		this.sessionLockTimer = timer;
+		heartbeat();
+	}
+
+	private getWalPath(session: ActiveSession): string {
+		return path.join(this.getWalRoot(), `${this.getWalKey(session)}.json`);
+	}
+
+	private getLockPath(session: ActiveSession): string {
+		return path.join(this.getWalRoot(), `${this.getWalKey(session)}.lock`);
+	}
+
+	private getWalKey(session: ActiveSession): string {
+		return this.getSessionKey(session.repos.map((repo) => repo.root));
+	}
+
+	private getSessionKey(roots: string[]): string {
+		const sorted = roots.map((root) => path.resolve(root)).sort();
+		return createHash('sha256').update(sorted.join('\n')).digest('hex').slice(0, 16);
+	}
+
+	private getWalRoot(): string {
+		return path.join(this.storageRoot, 'active-sessions');
+	}
+
+	private async findOrphanedWal(): Promise<Awaited<ReturnType<typeof readActiveSessionWal>>> {
+		const folders = (vscode.workspace.workspaceFolders ?? []).map((folder) => path.resolve(folder.uri.fsPath));
+		if (folders.length === 0) {
+			return undefined;
+		}
+
+		const entries = await fs.readdir(this.getWalRoot()).catch(() => [] as string[]);
+		let latest: Awaited<ReturnType<typeof readActiveSessionWal>>;
+
+		for (const entry of entries) {
+			if (!entry.endsWith('.json')) {
+				continue;
+			}
+
+			const wal = await readActiveSessionWal(path.join(this.getWalRoot(), entry)).catch(() => undefined);
+			if (!wal) {
+				continue;
+			}
+
+			const sessionRoots = wal.session.repos.map((repo) => repo.root);
+			if (wal.session.worktree) {
+				sessionRoots.push(wal.session.worktree.sourceRoot);
+			}
+			const belongsToWorkspace = sessionRoots.some((root) =>
+				folders.some((folder) => isSameOrInside(folder, root) || isSameOrInside(root, folder)),
+			);
+			if (!belongsToWorkspace) {
+				continue;
+			}
+
+			const lock = await readActiveSessionLock(this.getLockPath(wal.session));
+			if (lock && isActiveSessionLockLive(lock)) {
+				continue;
+			}
+
+			if (!latest || wal.updatedAt > latest.updatedAt) {
+				latest = wal;
+			}
+		}
+
+		return latest;
+	}
+
+	private async releaseSnapshotRefs(session: ActiveSession): Promise<void> {
+		const sessionKey = this.getWalKey(session);
+		for (const repo of session.repos) {
+			try {
+				await removeSnapshotRefs(repo.root, sessionKey);
+			} catch {
+				continue;
+			}
+		}
+	}
+
+	private async releaseWorktree(session: ActiveSession): Promise<void> {
+		if (!session.worktree || this.shouldKeepWorktree()) {
+			return;
+		}
+
+		try {
+			await removeWorktree(session.worktree.sourceRoot, session.worktree.path);
+		} catch {
+			return;
+		}
+	}
+
+	private nextCallId(session: ActiveSession, prefix: string): string {
+		session.callSeq += 1;
+		return `${prefix}_${session.callSeq}`;
+	}
+
+	private findLastValidationResult(
+		session: ActiveSession,
+	): { command: string; failed: boolean } | undefined {
+		for (let index = session.runCmdEvents.length - 1; index >= 0; index -= 1) {
+			const event = session.runCmdEvents[index];
+			if (event.validation ?? isValidationRunCmdArgs(event.args)) {
+				return { command: `${event.args.cmd} ${event.args.args.join(' ')}`, failed: event.failed };
+			}
+		}
+		return undefined;
+	}
+
+	private collectCommandOutcomes(session: ActiveSession): RecordLintContext['commandOutcomes'] {
+		const outcomes: RecordLintContext['commandOutcomes'] = new Map();
+		for (const [callId, event] of this.mapRunCmdEventsByCallId(session)) {
+			outcomes.set(callId, {
+				failed: event.failed,
+				exitCode: event.exitCode,
+				timedOut: event.timedOut,
+				validation: event.validation ?? isValidationRunCmdArgs(event.args),
+				diagnostics: event.diagnostics,
+			});
+		}
+		return outcomes;
+	}
+
+	private mapRunCmdEventsByCallId(session: ActiveSession): Map<string, RunCmdEvent> {
+		const events = new Map<string, RunCmdEvent>();
+		let eventIndex = 0;
+
+		for (const message of session.record.messages) {
+			if (message.role !== 'assistant' || !('tool_calls' in message)) {
+				continue;
+			}
+			for (const call of message.tool_calls) {
+				if (call.function.name !== 'run_cmd') {
+					continue;
+				}
+				const event = session.runCmdEvents[eventIndex];
+				eventIndex += 1;
+				if (event) {
+					events.set(call.id, event);
+				}
+			}
+		}
+
+		return events;
+	}
+
+	private async appendFileChangesToRecord(
+		session: ActiveSession,
+		options: {
+			resolveToRef?: (repo: SessionRepo) => Promise<string>;
+			extraIgnoreGlobs?: string[];
+		} = {},
+	): Promise<{ filesChanged: number; operationsApplied: number; warnings: string[] }> {
+		const operations: ApplyPatchOperation[] = [];
+		const advanced: Array<{ repo: SessionRepo; toRef: string }> = [];
+		const warnings: string[] = [];
+		const messageStart = session.record.messages.length;
+		let filesChanged = 0;
+		let lastEditAt: number | undefined;
+
+		for (const repo of session.repos) {
+			const fromRef = repo.checkpointRef;
+			const toRef = options.resolveToRef
+				? await options.resolveToRef(repo)
+				: await captureWorkingTreeSnapshot(
+						repo.root,
+						fromRef,
+						`dataset checkpoint ${session.checkpointCount + 1}`,
+						buildSnapshotRef(this.getWalKey(session), `checkpoint-${session.checkpointCount + 1}`),
+					);
+			const changes = await this.getNameStatusChanges(repo.root, fromRef, toRef);
+			const filtered = changes.filter((change) => this.isIncludedChange(change, options.extraIgnoreGlobs));
+			filesChanged += filtered.length;
+			if (!options.resolveToRef) {
+				lastEditAt = await this.findLastEditTime(repo.root, filtered, lastEditAt);
+			}
+
+			for (const change of filtered) {
+				const readPaths = change.kind === 'R' ? [change.oldPath, change.newPath] : [change.path];
+				for (const readPath of readPaths) {
+					const recordedPath = `${repo.prefix}${readPath}`;
+					if (session.readFilesRecorded.has(recordedPath)) {
+						continue;
+					}
+
+					const callId = this.nextCallId(session, CHECKPOINT_READ_CALL_PREFIX);
+					session.record.messages.push(
+						makeToolCallMessage(callId, 'repo.readFile', { path: recordedPath }),
+					);
+					const content = await this.safeGitShow(repo.root, fromRef, readPath);
+					session.record.messages.push(makeToolResultMessage(callId, content));
+					session.readFilesRecorded.add(recordedPath);
+				}
+			}
+
+			const repoOperations = await this.buildApplyPatchOperations(
+				session,
+				repo,
+				fromRef,
+				toRef,
+				filtered,
+				warnings,
+			);
+			if (repoOperations.length > 0) {
+				operations.push(...repoOperations);
+				advanced.push({ repo, toRef });
+			}
+		}
+
+		if (operations.length > 0) {
+			const applyPatchCallId = this.nextCallId(session, 'apply_patch');
+			addApplyPatch(session.record, applyPatchCallId, {
+				data: { action: { operations: sortApplyPatchOperations(operations) } },
+			});
+			if (lastEditAt !== undefined) {
+				this.moveCheckpointBeforeLaterCommands(session, messageStart, lastEditAt);
+			}
+			for (const { repo, toRef } of advanced) {
+				repo.checkpointRef = toRef;
+			}
+			session.checkpointCount += 1;
+		}
+		if (warnings.length > 0) {
+			session.patchWarnings = [...(session.patchWarnings ?? []), ...warnings];
+		}
+
+		return {
+			filesChanged,
+			operationsApplied: operations.length,
+			warnings,
+		};
+	}
+
+	private async findLastEditTime(
+		repoRoot: string,
+		changes: NameStatusChange[],
+		lastEditAt: number | undefined,
+	): Promise<number | undefined> {
+		for (const change of changes) {
+			if (change.kind === 'D') {
+				continue;
+			}
+			try {
+				const { mtimeMs } = await fs.stat(path.join(repoRoot, change.kind === 'R' ? change.newPath : change.path));
+				lastEditAt = Math.max(lastEditAt ?? 0, mtimeMs);
+			} catch {
+				continue;
+			}
+		}
+		return lastEditAt;
+	}
+
+	private moveCheckpointBeforeLaterCommands(session: ActiveSession, messageStart: number, lastEditAt: number): void {
+		const checkpointMessages = session.record.messages.splice(messageStart);
+		const events = this.mapRunCmdEventsByCallId(session);
+		const insertAt = findCheckpointInsertIndex(session.record, (callId) => {
+			const startedAt = events.get(callId)?.startedAt;
+			return startedAt !== undefined && Date.parse(startedAt) >= lastEditAt;
+		});
+		session.record.messages.splice(insertAt, 0, ...checkpointMessages);
+	}
+
+	private async getNameStatusChanges(
+		repoRoot: string,
+		fromRef: string,
+		toRef: string,
+	): Promise<NameStatusChange[]> {
+		const output = await this.git(repoRoot, [
+			'diff',
+			'--name-status',
+			`--find-renames=${this.getMoveSimilarityThreshold()}%`,
+			fromRef,
+			toRef,
+		]);
+		if (!output) {
 			return [];
 		}
 
@@ -526,65 +1689,190 @@ export class SessionManager {
 				continue;
 			}
 			if (status.startsWith('R') && parts[1] && parts[2]) {
-				changes.push({ kind: 'R', oldPath: parts[1], newPath: parts[2] });
+				const similarity = Number.parseInt(status.slice(1), 10);
+				changes.push({
+					kind: 'R',
+					oldPath: parts[1],
+					newPath: parts[2],
+					similarity: Number.isFinite(similarity) ? similarity : 0,
+				});
 			}
 		}
 
 		return changes;
 	}
 
-	private isIncludedChange(change: NameStatusChange): boolean {
+	private isIncludedChange(change: NameStatusChange, extraIgnoreGlobs: string[] = []): boolean {
 		if (change.kind === 'R') {
-			return this.isIncludedPath(change.oldPath) || this.isIncludedPath(change.newPath);
+			return (
+				this.isIncludedPath(change.oldPath, extraIgnoreGlobs) ||
+				this.isIncludedPath(change.newPath, extraIgnoreGlobs)
+			);
 		}
-		return this.isIncludedPath(change.path);
+		return this.isIncludedPath(change.path, extraIgnoreGlobs);
 	}
 
-	private isIncludedPath(filePath: string): boolean {
+	private isIncludedPath(filePath: string, extraIgnoreGlobs: string[] = []): boolean {
 		const normalizedPath = filePath.replace(/\\/g, '/');
-		const patterns = this.getIgnoreGlobs();
+		const patterns = [...this.getIgnoreGlobs(), ...extraIgnoreGlobs];
 		return !patterns.some((pattern) => globMatch(normalizedPath, pattern));
 	}
 
 	private async buildApplyPatchOperations(
-		repoRoot: string,
-		baseRef: string,
+		session: ActiveSession,
+		repo: SessionRepo,
+		fromRef: string,
+		toRef: string,
 		changes: NameStatusChange[],
+		warnings: string[],
 	): Promise<ApplyPatchOperation[]> {
-		const deletes: ApplyPatchOperation[] = [];
-		const updates: ApplyPatchOperation[] = [];
-		const creates: ApplyPatchOperation[] = [];
+		const operations: ApplyPatchOperation[] = [];
 
 		for (const change of changes) {
 			if (change.kind === 'D') {
-				deletes.push({ type: 'delete_file', path: change.path });
+				operations.push({ type: 'delete_file', path: `${repo.prefix}${change.path}` });
 				continue;
 			}
+			if (change.kind === 'R' && this.shouldRecordMove(change)) {
+				const content = await this.gitShowBuffer(repo.root, toRef, change.newPath);
+				if (!this.isProbablyBinary(content)) {
+					const moveDiff =
+						change.similarity < 100
+							? await this.diffRecordedUpdate(
+									session,
+									repo,
+									`${fromRef}:${change.oldPath}`,
+									`${toRef}:${change.newPath}`,
+									change.oldPath,
+									warnings,
+								)
+							: '';
+					operations.push({
+						type: 'move_file',
+						from: `${repo.prefix}${change.oldPath}`,
+						path: `${repo.prefix}${change.newPath}`,
+						...(moveDiff ? { diff: moveDiff } : {}),
+					});
+					continue;
+				}
+			}
 			if (change.kind === 'M') {
-				const fullDiff = await this.git(repoRoot, ['diff', '-U999999', baseRef, '--', change.path]);
-				const hunkOnly = this.extractHunkBody(fullDiff);
+				const content = await this.gitShowBuffer(repo.root, toRef, change.path);
+				if (this.isProbablyBinary(content)) {
+					const binaryOperation = this.buildBinaryOperation(
+						session,
+						`${repo.prefix}${change.path}`,
+						content,
+						'update',
+					);
+					if (binaryOperation) {
+						operations.push(binaryOperation);
+					}
+					continue;
+				}
+				const hunkOnly = await this.diffRecordedUpdate(
+					session,
+					repo,
+					fromRef,
+					toRef,
+					change.path,
+					warnings,
+					['--', change.path],
+				);
 				if (hunkOnly) {
-					updates.push({ type: 'update_file', path: change.path, diff: hunkOnly });
+					operations.push({ type: 'update_file', path: `${repo.prefix}${change.path}`, diff: hunkOnly });
 				}
 				continue;
 			}
 			if (change.kind === 'A') {
-				const createContent = await this.readTextFile(path.join(repoRoot, change.path));
-				creates.push({ type: 'create_file', path: change.path, diff: createContent });
+				const createOperation = await this.buildCreateOperation(session, repo, toRef, change.path);
+				if (createOperation) {
+					operations.push(createOperation);
+				}
 				continue;
 			}
 			if (change.kind === 'R') {
-				deletes.push({ type: 'delete_file', path: change.oldPath });
-				const createContent = await this.readTextFile(path.join(repoRoot, change.newPath));
-				creates.push({ type: 'create_file', path: change.newPath, diff: createContent });
+				operations.push({ type: 'delete_file', path: `${repo.prefix}${change.oldPath}` });
+				const createOperation = await this.buildCreateOperation(session, repo, toRef, change.newPath);
+				if (createOperation) {
+					operations.push(createOperation);
+				}
 			}
 		}
 
-		deletes.sort((a, b) => a.path.localeCompare(b.path));
-		updates.sort((a, b) => a.path.localeCompare(b.path));
-		creates.sort((a, b) => a.path.localeCompare(b.path));
+		return operations;
+	}
+
+	private async buildCreateOperation(
+		session: ActiveSession,
+		repo: SessionRepo,
+		toRef: string,
+		filePath: string,
+	): Promise<ApplyPatchOperation | undefined> {
+		const content = await this.gitShowBuffer(repo.root, toRef, filePath);
+		if (this.isProbablyBinary(content)) {
+			return this.buildBinaryOperation(session, `${repo.prefix}${filePath}`, content, 'create');
+		}
+		return { type: 'create_file', path: `${repo.prefix}${filePath}`, diff: content.toString('utf8') };
+	}
+
+	private buildBinaryOperation(
+		session: ActiveSession,
+		recordedPath: string,
+		content: Buffer,
+		action: 'create' | 'update',
+	): ApplyPatchOperation | undefined {
+		const mode = this.getBinaryFileMode();
+		const size = content.length;
+		const sha256 = createHash('sha256').update(content).digest('hex');
+		if (mode === 'embed') {
+			return { type: 'binary_file', action, path: recordedPath, size, sha256, base64: content.toString('base64') };
+		}
 
-		return [...deletes, ...updates, ...creates];
+		const omittedFiles = (session.omittedFiles ?? []).filter(
+			(entry) => entry.path !== recordedPath || entry.sha256 !== sha256,
+		);
+		omittedFiles.push({
+			path: recordedPath,
+			size,
+			sha256,
+			reason: mode === 'skip' ? 'binary file skipped' : 'binary content replaced by placeholder',
+		});
+		session.omittedFiles = omittedFiles;
+		return mode === 'skip' ? undefined : { type: 'binary_file', action, path: recordedPath, size, sha256 };
+	}
+
+	private async diffRecordedUpdate(
+		session: ActiveSession,
+		repo: SessionRepo,
+		fromSpec: string,
+		toSpec: string,
+		sourcePath: string,
+		warnings: string[],
+		pathArgs: string[] = [],
+	): Promise<string> {
+		const recordedPath = `${repo.prefix}${sourcePath}`;
+		return buildUpdateDiff(
+			{
+				recordedPath,
+				recordedContent: reconstructRecordedContent(session.record, recordedPath),
+				contextLines: this.getPatchContextLines(session.taskId),
+				diffWithContext: async (contextLines) =>
+					this.extractHunkBody(
+						await this.git(repo.root, ['diff', `-U${contextLines}`, fromSpec, toSpec, ...pathArgs]),
+					),
+			},
+			warnings,
+		);
+	}
+
+	private shouldRecordMove(change: Extract<NameStatusChange, { kind: 'R' }>): boolean {
+		return (
+			this.shouldRecordMoveFiles() &&
+			change.similarity >= this.getMoveSimilarityThreshold() &&
+			this.isIncludedPath(change.oldPath) &&
+			this.isIncludedPath(change.newPath)
+		);
 	}
 
 	private extractHunkBody(fullDiff: string): string {
@@ -595,14 +1883,9 @@ export class SessionManager {
 		return fullDiff.slice(idx);
 	}
 
-	private async safeGitShow(repoRoot: string, baseRef: string, filePath: string): Promise<string> {
+	private async safeGitShow(repoRoot: string, ref: string, filePath: string): Promise<string> {
 		try {
-			const { stdout } = await execFileAsync('git', ['show', `${baseRef}:${filePath}`], {
-				cwd: repoRoot,
-				encoding: 'buffer',
-				maxBuffer: 20 * 1024 * 1024,
-			});
-			const content = Buffer.isBuffer(stdout) ? stdout : Buffer.from(stdout);
+			const content = await this.gitShowBuffer(repoRoot, ref, filePath);
 			if (this.isProbablyBinary(content)) {
 				return '[binary file skipped]';
 			}
@@ -612,14 +1895,36 @@ export class SessionManager {
 		}
 	}
 
-	private async readTextFile(filePath: string): Promise<string> {
+	private async gitShowBuffer(repoRoot: string, ref: string, filePath: string): Promise<Buffer> {
+		const { stdout } = await execFileAsync('git', ['show', `${ref}:${filePath}`], {
+			cwd: repoRoot,
+			encoding: 'buffer',
+			maxBuffer: 20 * 1024 * 1024,
+		});
+		return Buffer.isBuffer(stdout) ? stdout : Buffer.from(stdout);
+	}
+
+	private async readTextFile(filePath: string, operation: string): Promise<string> {
 		const content = await fs.readFile(filePath);
 		if (this.isProbablyBinary(content)) {
-			throw new Error(`Binary file not supported for create_file: ${filePath}`);
+			throw new Error(`Binary file not supported for ${operation}: ${filePath}`);
 		}
 		return content.toString('utf8');
 	}
 
+	private async isBinaryFile(filePath: string): Promise<boolean> {
+		let handle: fs.FileHandle | undefined;
+		try {
+			handle = await fs.open(filePath, 'r');
+			const { buffer, bytesRead } = await handle.read(Buffer.alloc(8000), 0, 8000, 0);
+			return this.isProbablyBinary(buffer.subarray(0, bytesRead));
+		} catch {
+			return false;
+		} finally {
+			await handle?.close();
+		}
+	}
+
 	private isProbablyBinary(content: Buffer): boolean {
 		for (const byte of content.subarray(0, Math.min(content.length, 8000))) {
 			if (byte === 0) {
@@ -636,19 +1941,69 @@ export class SessionManager {
 		}
 	}
 
-	private async ensureCleanWorkingTree(repoRoot: string): Promise<void> {
+	private async isWorkingTreeDirty(repoRoot: string): Promise<boolean> {
 		const status = await this.git(repoRoot, ['status', '--porcelain']);
-		if (status.length > 0) {
-			throw new Error('Repository is not clean. Commit or stash changes before starting a session.');
+		return status.length > 0;
+	}
+
+	private async describeRepo(repoRoot: string, baselineSnapshotRef?: string): Promise<SessionRepo> {
+		const headRef = await this.gitLine(repoRoot, ['rev-parse', 'HEAD']);
+		const baseRef = baselineSnapshotRef
+			? await captureWorkingTreeSnapshot(repoRoot, headRef, 'dataset baseline snapshot', baselineSnapshotRef)
+			: headRef;
+		const branch = await this.gitLine(repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD']);
+
+		let remote: string | undefined;
+		try {
+			remote = await this.gitLine(repoRoot, ['remote', 'get-url', 'origin']);
+		} catch {
+			remote = undefined;
+		}
+
+		return {
+			name: path.basename(repoRoot),
+			root: repoRoot,
+			prefix: '',
+			baseRef,
+			headRef,
+			baseline: baselineSnapshotRef ? 'snapshot' : 'head',
+			branch,
+			remote,
+			checkpointRef: baseRef,
+		};
+	}
+
+	private assignRepoPrefixes(repos: SessionRepo[]): void {
+		if (repos.length < 2) {
+			return;
+		}
+
+		const used = new Set<string>();
+		for (const repo of repos) {
+			let candidate = repo.name;
+			let suffix = 2;
+			while (used.has(candidate)) {
+				candidate = `${repo.name}-${suffix}`;
+				suffix += 1;
+			}
+			used.add(candidate);
+			repo.prefix = `${candidate}/`;
 		}
 	}
 
-	private getSingleWorkspaceRoot(): string {
-		const folders = vscode.workspace.workspaceFolders;
-		if (!folders || folders.length !== 1) {
-			throw new Error('Session Recorder v1 supports single-root workspaces only.');
+	private toAbsolutePath(session: ActiveSession, recordedPath: string): string {
+		const selection = selectSessionRepo(session.repos, recordedPath);
+		if (!selection) {
+			throw new Error(`Path is not inside a session folder: ${recordedPath}`);
 		}
-		return folders[0].uri.fsPath;
+		return path.join(selection.repo.root, selection.rest);
+	}
+
+	private toRecordedSearchPath(repo: SessionRepo, repoRelativePath?: string): string | undefined {
+		if (repoRelativePath) {
+			return `./${repo.prefix}${repoRelativePath.replace(/^\.\//, '')}`;
+		}
+		return repo.prefix ? `./${repo.prefix.replace(/\/$/, '')}` : undefined;
 	}
 
 	private async git(repoRoot: string, args: string[]): Promise<string> {
@@ -700,13 +2055,24 @@ export class SessionManager {
 		return 'run_cmd failed';
 	}
 
-	private truncateOutput(output: string): string {
-		const maxChars = this.getMaxCommandOutputChars();
-		if (output.length <= maxChars) {
-			return output;
-		}
+	private truncateOutput(output: string, command: AllowedRunCmd): string {
+		return truncateCommandOutput(output, this.getMaxCommandOutputChars(), this.getOutputTruncationStrategy(command));
+	}
 
-		return `${output.slice(0, maxChars)}\n(truncated)`;
+	private getOutputTruncationStrategy(command: AllowedRunCmd): OutputTruncationStrategy {
+		const configured = vscode.workspace
+			.getConfiguration('dataset')
+			.get<Record<string, string>>('outputTruncation', {});
+		const keys = isScriptRunCmd(command)
+			? [`${command.kind}:${command.name}`, command.kind, 'default']
+			: [command.kind, 'default'];
+		for (const key of keys) {
+			const value = configured[key];
+			if (value === 'head' || value === 'head-tail' || value === 'smart') {
+				return value;
+			}
+		}
+		return 'smart';
 	}
 
 	private getIgnoreGlobs(): string[] {
@@ -717,39 +2083,101 @@ export class SessionManager {
 		return values.length > 0 ? values : DEFAULT_IGNORE_GLOBS;
 	}
 
-	private getMaxCommandOutputChars(): number {
-		const configured = vscode.workspace
+	private isRunCmdQueueEnabled(): boolean {
+		return vscode.workspace.getConfiguration('dataset').get<boolean>('runCmdQueue', false);
+	}
+
+	private getCancelledRunCmdMode(): 'record' | 'drop' {
+		return vscode.workspace.getConfiguration('dataset').get<string>('cancelledRunCmd', 'record') === 'drop'
+			? 'drop'
+			: 'record';
+	}
+
+	private async getRunCmdAllowRules(repoRoot: string): Promise<RunCmdAllowRule[]> {
+		const configured = vscode.workspace.getConfiguration('dataset').get<unknown[]>('runCmdAllowlist', []);
+		return [
+			...normalizeRunCmdAllowRules(configured, 'dataset.runCmdAllowlist'),
+			...(await loadRepoRunCmdAllowlist(repoRoot)),
+		];
+	}
+
+	private async resolvePackageManager(cwd: string, repoRoot: string): Promise<PackageManager> {
+		const configured = vscode.workspace.getConfiguration('dataset').get<string>('packageManager', 'auto');
+		if (isPackageManager(configured)) {
+			return configured;
+		}
+		return (await detectPackageManager(cwd, repoRoot)).manager;
+	}
+
+	private getRunCmdResultFormat(): RunCmdResultFormat {
+		const configured = vscode.workspace.getConfiguration('dataset').get<string>('runCmdResultFormat', 'text');
+		return configured === 'text-with-status' || configured === 'json' ? configured : 'text';
+	}
+
+	private getEnabledLintRules(): RecordLintRule[] {
+		const disabled = vscode.workspace
 			.getConfiguration('dataset')
-			.get<number>('maxCommandOutputChars', DEFAULT_MAX_COMMAND_OUTPUT_CHARS);
+			.get<string[]>('recordLint.disabledRules', []);
+		return DEFAULT_RECORD_LINT_RULES.filter((rule) => !disabled.includes(rule.id));
+	}
+
+	private shouldRecordMoveFiles(): boolean {
+		return vscode.workspace.getConfiguration('dataset').get<boolean>('recordMoveFiles', false);
+	}
+
+	private getMoveSimilarityThreshold(): number {
+		const configured = vscode.workspace.getConfiguration('dataset').get<number>('moveSimilarityThreshold', 50);
 		if (!Number.isFinite(configured)) {
-			return DEFAULT_MAX_COMMAND_OUTPUT_CHARS;
+			return 50;
 		}
-		return Math.max(1024, Math.floor(configured));
+		return Math.min(100, Math.max(1, Math.floor(configured)));
+	}
+
+	private getBinaryFileMode(): 'skip' | 'placeholder' | 'embed' {
+		const configured = vscode.workspace
+			.getConfiguration('dataset')
+			.get<string>('binaryFileMode', 'placeholder');
+		return configured === 'skip' || configured === 'embed' ? configured : 'placeholder';
 	}
 
-	private redactOutput(output: string): string {
-		let redacted = output;
-		for (const regex of this.getRedactionRegexes()) {
-			redacted = redacted.replace(regex, '[REDACTED]');
+	private getPatchContextLines(taskId: string): number {
+		const config = vscode.workspace.getConfiguration('dataset');
+		const byTask = config.get<Record<string, number>>('patchContextLinesByTask', {});
+		const taskOverride = byTask[taskId];
+		const configured =
+			typeof taskOverride === 'number' ? taskOverride : config.get<number>('patchContextLines', -1);
+		if (!Number.isFinite(configured) || configured < 0) {
+			return -1;
 		}
-		return redacted;
+		return Math.floor(configured);
 	}
 
-	private stripAnsi(output: string): string {
-		return output.replace(/(?:\u001B[@-Z\\-_]|\u001B\[[0-?]*[ -/]*[@-~]|\u009B[0-?]*[ -/]*[@-~])/g, '');
+	private getMineCommitsMaxFilesChanged(): number {
+		const configured = vscode.workspace
+			.getConfiguration('dataset')
+			.get<number>('mineCommits.maxFilesChanged', DEFAULT_MINE_COMMITS_MAX_FILES_CHANGED);
+		if (!Number.isFinite(configured)) {
+			return DEFAULT_MINE_COMMITS_MAX_FILES_CHANGED;
+		}
+		return Math.max(1, Math.floor(configured));
 	}
 
-	private getRedactionRegexes(): RegExp[] {
+	private getMineCommitsIgnoreGlobs(): string[] {
 		const configured = vscode.workspace
 			.getConfiguration('dataset')
-			.get<string[]>('redactionPatterns', DEFAULT_REDACTION_PATTERNS);
+			.get<string[]>('mineCommits.ignoreGlobs', []);
+		return configured.map((entry) => entry.trim()).filter(Boolean);
+	}
 
-		const patterns = configured.length > 0 ? configured : DEFAULT_REDACTION_PATTERNS;
+	private getMineCommitsExcludeMessageRegexes(): RegExp[] {
+		const configured = vscode.workspace
+			.getConfiguration('dataset')
+			.get<string[]>('mineCommits.excludeMessagePatterns', DEFAULT_MINE_COMMITS_EXCLUDE_MESSAGE_PATTERNS);
 		const regexes: RegExp[] = [];
 
-		for (const pattern of patterns) {
+		for (const pattern of configured) {
 			try {
-				regexes.push(new RegExp(pattern, 'g'));
+				regexes.push(new RegExp(pattern, 'i'));
 			} catch {
 				continue;
 			}
@@ -757,4 +2185,211 @@ export class SessionManager {
 
 		return regexes;
 	}
+
+	private shouldKeepWorktree(): boolean {
+		return vscode.workspace.getConfiguration('dataset').get<boolean>('keepWorktreeAfterStop', false);
+	}
+
+	private getMaxCommandOutputChars(): number {
+		const configured = vscode.workspace
+			.getConfiguration('dataset')
+			.get<number>('maxCommandOutputChars', DEFAULT_MAX_COMMAND_OUTPUT_CHARS);
+		if (!Number.isFinite(configured)) {
+			return DEFAULT_MAX_COMMAND_OUTPUT_CHARS;
+		}
+		return Math.max(1024, Math.floor(configured));
+	}
+
+	private collectEditorDiagnostics(session: ActiveSession, args: RepoDiagnosticsArgs): EditorDiagnostic[] {
+		const maxSeverity = EDITOR_DIAGNOSTIC_SEVERITIES.indexOf(args.minSeverity);
+		const entries: EditorDiagnostic[] = [];
+
+		for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+			if (uri.scheme !== 'file') {
+				continue;
+			}
+			const match = findRepoForAbsolutePath(session.repos, uri.fsPath);
+			if (!match || !match.relativePath || !this.isIncludedPath(match.relativePath)) {
+				continue;
+			}
+			const recordedPath = `${match.repo.prefix}${match.relativePath}`;
+			if (args.path && recordedPath !== args.path && !recordedPath.startsWith(`${args.path}/`)) {
+				continue;
+			}
+
+			for (const diagnostic of diagnostics) {
+				if (diagnostic.severity > maxSeverity) {
+					continue;
+				}
+				const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+				entries.push({
+					path: recordedPath,
+					line: diagnostic.range.start.line + 1,
+					column: diagnostic.range.start.character + 1,
+					severity: EDITOR_DIAGNOSTIC_SEVERITIES[diagnostic.severity],
+					source: diagnostic.source,
+					code: code === undefined ? undefined : String(code),
+					message: diagnostic.message,
+				});
+			}
+		}
+
+		return entries;
+	}
+
+	private appendDiagnosticsToRecord(session: ActiveSession, args: RepoDiagnosticsArgs, content: string): void {
+		const callId = this.nextCallId(session, 'diagnostics');
+		session.record.messages.push(makeToolCallMessage(callId, 'repo.diagnostics', args));
+		session.record.messages.push(makeToolResultMessage(callId, content));
+	}
+
+	private async autoRecordDiagnostics(session: ActiveSession): Promise<void> {
+		if (!vscode.workspace.getConfiguration('dataset').get<boolean>('diagnostics.recordBeforeCheckpoint', false)) {
+			return;
+		}
+
+		const args: RepoDiagnosticsArgs = { minSeverity: this.getDiagnosticsMinSeverity() };
+		const content = formatEditorDiagnostics(
+			this.collectEditorDiagnostics(session, args),
+			MAX_RECORDED_DIAGNOSTICS,
+		);
+		if (isRepeatedDiagnosticsResult(session.record, args, content)) {
+			return;
+		}
+		this.appendDiagnosticsToRecord(session, args, content);
+		await this.persistActiveSession(session);
+	}
+
+	private getDiagnosticsMinSeverity(): EditorDiagnosticSeverity {
+		const configured = vscode.workspace.getConfiguration('dataset').get<string>('diagnostics.minSeverity', 'warning');
+		return EDITOR_DIAGNOSTIC_SEVERITIES.find((severity) => severity === configured) ?? 'warning';
+	}
+
+	private resolveRunCmdCwd(rawCwd: string | undefined): string {
+		if (!this.activeSession) {
+			throw new Error('Start a session before running recorded commands.');
+		}
+		if (!rawCwd) {
+			return this.activeSession.repos[0].root;
+		}
+		if (path.isAbsolute(rawCwd)) {
+			return rawCwd;
+		}
+		const resolved = this.resolveSessionPath(rawCwd);
+		return path.join(resolved.root, resolved.relativePath);
+	}
+
+	private resolveDiagnosticPath(session: ActiveSession, diagnostic: CommandDiagnostic, cwd: string): CommandDiagnostic {
+		if (!diagnostic.file) {
+			return diagnostic;
+		}
+		const absolutePath = path.resolve(cwd, diagnostic.file);
+		const match = findRepoForAbsolutePath(session.repos, absolutePath);
+		return { ...diagnostic, file: match ? `${match.repo.prefix}${match.relativePath}` : absolutePath };
+	}
+
+	private resolveRecordedRoot(root: string): string {
+		return expandAnonymizedPath(root, { homeDir: os.homedir(), tmpDir: os.tmpdir() });
+	}
+
+	private listAnonymizedRoots(session: ActiveSession): Array<{ root: string; prefix: string }> {
+		const roots = session.repos.map((repo) => ({ root: repo.root, prefix: repo.prefix }));
+		if (session.worktree) {
+			roots.push({ root: session.worktree.sourceRoot, prefix: session.repos[0].prefix });
+		}
+		return roots;
+	}
+
+	private anonymizePayload(
+		payload: BuiltSessionResult['payload'],
+		roots: Array<{ root: string; prefix: string }>,
+	): void {
+		const anonymizer = this.getPayloadAnonymizer(roots);
+		if (!anonymizer) {
+			return;
+		}
+		anonymizeRecord(payload.record, anonymizer);
+		payload.repo.root = anonymizer.localPath(payload.repo.root);
+		payload.repo.remote = anonymizer.remote(payload.repo.remote);
+		for (const repo of payload.repos) {
+			repo.root = anonymizer.localPath(repo.root);
+			repo.remote = anonymizer.remote(repo.remote);
+		}
+		payload.patchWarnings = payload.patchWarnings?.map(anonymizer.text);
+		if (payload.verification) {
+			payload.verification.mismatches = payload.verification.mismatches.map((mismatch) => ({
+				path: anonymizer.text(mismatch.path),
+				reason: anonymizer.text(mismatch.reason),
+			}));
+		}
+		for (const commandResult of payload.metrics.commandResults) {
+			commandResult.diagnostics = commandResult.diagnostics?.map((diagnostic) => ({
+				...diagnostic,
+				file: diagnostic.file === undefined ? undefined : anonymizer.text(diagnostic.file),
+				message: anonymizer.text(diagnostic.message),
+			}));
+		}
+	}
+
+	private async previewSavedRunCmdResult(
+		session: ActiveSession,
+		callId: string,
+		args: RunCmdArgs,
+		content: string,
+	): Promise<string> {
+		const preview: TrainingRecord = {
+			messages: [makeToolCallMessage(callId, 'run_cmd', args), makeToolResultMessage(callId, content)],
+		};
+		redactRecordSecrets(preview, await this.getSecretDetector(session.repos.map((repo) => repo.root)));
+		const anonymizer = this.getPayloadAnonymizer(this.listAnonymizedRoots(session));
+		if (anonymizer) {
+			anonymizeRecord(preview, anonymizer);
+		}
+		const result = preview.messages[preview.messages.length - 1];
+		return 'content' in result ? result.content : content;
+	}
+
+	private async redactSessionSecrets(
+		session: ActiveSession,
+		resolveSecretHits?: StopSessionOptions['resolveSecretHits'],
+	): Promise<RecordRedaction | undefined> {
+		const detector = await this.getSecretDetector(session.repos.map((repo) => repo.root));
+		const hits = findRecordSecrets(session.record, detector);
+		if (hits.length === 0) {
+			return undefined;
+		}
+
+		const action = resolveSecretHits ? await resolveSecretHits(hits) : 'redact';
+		if (action === 'abort') {
+			throw new Error(`Stop aborted: ${hits.length} possible secret(s) found in the record.`);
+		}
+
+		const excludedPaths =
+			action === 'exclude'
+				? [...new Set(hits.flatMap((hit) => (hit.path ? [hit.path] : [])))].sort()
+				: [];
+		if (excludedPaths.length > 0) {
+			excludeRecordPaths(session.record, new Set(excludedPaths));
+		}
+		const { redactedPatchPaths } = redactRecordSecrets(session.record, detector);
+		if (session === this.activeSession) {
+			await this.persistActiveSession(session);
+		}
+
+		return {
+			action,
+			hits: hits.length,
+			redactedPaths: redactedPatchPaths.filter((recordedPath) => !excludedPaths.includes(recordedPath)),
+			excludedPaths,
+		};
+	}
+}
+
+function isSameOrInside(parent: string, candidate: string): boolean {
+	const normalizedParent = path.resolve(parent);
+	const normalizedCandidate = path.resolve(candidate);
+	return (
+		normalizedCandidate === normalizedParent ||
+		normalizedCandidate.startsWith(`${normalizedParent}${path.sep}`)
+	);
 }
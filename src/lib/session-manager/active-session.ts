@@ -0,0 +1,78 @@
+import type { CommandDiagnostic } from '../diagnostics/command-diagnostic';
+import type { PackageManager } from '../run-cmd/package-manager';
+import type { RunCmdArgs, TrainingRecord } from '../tooling';
+
+export type RunCmdEvent = {
+	args: RunCmdArgs;
+	output: string;
+	failed: boolean;
+	exitCode?: number | null;
+	signal?: string | null;
+	timedOut?: boolean;
+	cancelled?: boolean;
+	startedAt?: string;
+	durationMs?: number;
+	validation?: boolean;
+	diagnostics?: CommandDiagnostic[];
+};
+
+export type SessionRepo = {
+	name: string;
+	root: string;
+	prefix: string;
+	baseRef: string;
+	headRef: string;
+	baseline: 'head' | 'snapshot';
+	branch: string;
+	remote?: string;
+	checkpointRef: string;
+};
+
+export type OmittedFile = {
+	path: string;
+	size: number;
+	sha256: string;
+	reason: string;
+};
+
+export type SessionWorktree = {
+	sourceRoot: string;
+	path: string;
+	ref: string;
+};
+
+export type ActiveSession = {
+	taskId: string;
+	systemPrompt: string;
+	userPrompt: string;
+	repos: SessionRepo[];
+	worktree?: SessionWorktree;
+	packageManager?: PackageManager;
+	commandsRun: string[];
+	runCmdEvents: RunCmdEvent[];
+	record: TrainingRecord;
+	callSeq: number;
+	checkpointCount: number;
+	patchWarnings?: string[];
+	omittedFiles?: OmittedFile[];
+	startedAt: string;
+	lastSearchResults: Set<string>;
+	readFilesRecorded: Set<string>;
+};
+
+export type PersistedActiveSession = Omit<ActiveSession, 'lastSearchResults' | 'readFilesRecorded'> & {
+	lastSearchResults: string[];
+	readFilesRecorded: string[];
+};
+
+export type ActiveSessionWal = {
+	version: 1;
+	updatedAt: string;
+	session: PersistedActiveSession;
+};
+
+export type ActiveSessionLock = {
+	pid: number;
+	hostname: string;
+	heartbeatAt: string;
+};
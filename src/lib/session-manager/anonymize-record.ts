@@ -0,0 +1,46 @@
+import type { ToolName, TrainingRecord } from '../tooling';
+import type { PayloadAnonymizer } from './create-payload-anonymizer';
+
+const FILE_CONTENT_TOOLS = new Set<ToolName>(['repo.readFile', 'repo.search']);
+
+function mapStrings(value: unknown, map: (text: string) => string): unknown {
+	if (typeof value === 'string') {
+		return map(value);
+	}
+	if (Array.isArray(value)) {
+		return value.map((entry) => mapStrings(entry, map));
+	}
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, mapStrings(entry, map)]));
+	}
+	return value;
+}
+
+export function anonymizeRecord(record: TrainingRecord, anonymizer: PayloadAnonymizer): void {
+	const toolNames = new Map<string, ToolName>();
+	for (const message of record.messages) {
+		if (message.role === 'assistant' && 'tool_calls' in message) {
+			for (const call of message.tool_calls) {
+				toolNames.set(call.id, call.function.name);
+				if (call.function.name === 'apply_patch') {
+					continue;
+				}
+				try {
+					const args = JSON.parse(call.function.arguments) as unknown;
+					call.function.arguments = JSON.stringify(mapStrings(args, anonymizer.text));
+				} catch {
+					call.function.arguments = anonymizer.text(call.function.arguments);
+				}
+			}
+			continue;
+		}
+
+		if (message.role === 'tool') {
+			const toolName = toolNames.get(message.tool_call_id);
+			if (toolName && FILE_CONTENT_TOOLS.has(toolName)) {
+				continue;
+			}
+		}
+		message.content = anonymizer.text(message.content);
+	}
+}
@@ -0,0 +1,17 @@
+import { makeAssistantText, makeUser } from '../record-builders';
+import type { TrainingRecord } from '../tooling';
+import { countUserTurns } from './count-user-turns';
+
+export function appendUserTurn(record: TrainingRecord, userMessage: string, assistantReply?: string): number {
+	const content = userMessage.trim();
+	if (!content) {
+		throw new Error('User message is required.');
+	}
+
+	const reply = (assistantReply ?? '').trim();
+	if (reply) {
+		record.messages.push(makeAssistantText(reply));
+	}
+	record.messages.push(makeUser(content));
+	return countUserTurns(record);
+}
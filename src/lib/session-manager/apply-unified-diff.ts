@@ -0,0 +1,86 @@
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function applyUnifiedDiff(original: string, diff: string): string {
+	const hadTrailingNewline = original.endsWith('\n');
+	const source = original.length === 0 ? [] : (hadTrailingNewline ? original.slice(0, -1) : original).split('\n');
+	const diffLines = diff.split('\n');
+	if (diffLines[diffLines.length - 1] === '') {
+		diffLines.pop();
+	}
+
+	const output: string[] = [];
+	let cursor = 0;
+	let endsWithNewline = hadTrailingNewline;
+	let index = 0;
+
+	while (index < diffLines.length) {
+		const header = HUNK_HEADER.exec(diffLines[index]);
+		if (!header) {
+			throw new Error(`Expected a hunk header at diff line ${index + 1}.`);
+		}
+
+		const oldStart = Number(header[1]);
+		const oldCount = header[2] === undefined ? 1 : Number(header[2]);
+		const newCount = header[4] === undefined ? 1 : Number(header[4]);
+		const hunkStart = oldCount === 0 ? oldStart : oldStart - 1;
+		if (hunkStart < cursor || hunkStart > source.length) {
+			throw new Error(`Hunk at diff line ${index + 1} starts at line ${oldStart}, outside the remaining file.`);
+		}
+
+		output.push(...source.slice(cursor, hunkStart));
+		cursor = hunkStart;
+		index += 1;
+
+		let oldSeen = 0;
+		let newSeen = 0;
+		let lastSide: 'old' | 'new' | 'both' | undefined;
+		let newSideLacksNewline = false;
+
+		while (index < diffLines.length && !diffLines[index].startsWith('@@')) {
+			const line = diffLines[index];
+			const marker = line[0];
+			const text = line.slice(1);
+
+			if (marker === ' ' || marker === '-') {
+				if (source[cursor] !== text) {
+					throw new Error(
+						`Hunk line ${index + 1} expects ${JSON.stringify(text)} at line ${cursor + 1}, found ${
+							cursor < source.length ? JSON.stringify(source[cursor]) : 'end of file'
+						}.`,
+					);
+				}
+				if (marker === ' ') {
+					output.push(text);
+					newSeen += 1;
+				}
+				cursor += 1;
+				oldSeen += 1;
+				lastSide = marker === ' ' ? 'both' : 'old';
+			} else if (marker === '+') {
+				output.push(text);
+				newSeen += 1;
+				lastSide = 'new';
+			} else if (marker === '\\') {
+				if (lastSide === 'new' || lastSide === 'both') {
+					newSideLacksNewline = true;
+				}
+			} else {
+				throw new Error(`Unexpected diff line ${index + 1}: ${JSON.stringify(line)}`);
+			}
+			index += 1;
+		}
+
+		if (oldSeen !== oldCount || newSeen !== newCount) {
+			throw new Error(
+				`Hunk starting at line ${oldStart} declares -${oldCount}/+${newCount} lines but contains -${oldSeen}/+${newSeen}.`,
+			);
+		}
+
+		if (cursor === source.length) {
+			endsWithNewline = !newSideLacksNewline;
+		}
+	}
+
+	output.push(...source.slice(cursor));
+	return output.length > 0 ? `${output.join('\n')}${endsWithNewline ? '\n' : ''}` : '';
+}
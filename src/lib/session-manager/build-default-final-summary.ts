@@ -0,0 +1,35 @@
+import type { PatchedPaths } from './collect-patched-paths';
+
+export function buildDefaultFinalSummary(
+	patched: PatchedPaths,
+	lastValidation?: { command: string; failed: boolean },
+): string {
+	const parts: string[] = [];
+	if (patched.created.length > 0) {
+		parts.push(`created ${formatPaths(patched.created)}`);
+	}
+	if (patched.updated.length > 0) {
+		parts.push(`updated ${formatPaths(patched.updated)}`);
+	}
+	if (patched.deleted.length > 0) {
+		parts.push(`deleted ${formatPaths(patched.deleted)}`);
+	}
+	if (patched.moved.length > 0) {
+		parts.push(`moved ${patched.moved.map((entry) => `\`${entry.from}\` to \`${entry.to}\``).join(', ')}`);
+	}
+
+	const changeSentence =
+		parts.length > 0
+			? `${parts.join('; ').replace(/^./, (char) => char.toUpperCase())}.`
+			: 'No file changes were needed.';
+
+	const validationSentence = lastValidation
+		? `\`${lastValidation.command}\` ${lastValidation.failed ? 'failed' : 'passed'}.`
+		: 'No validation command was run.';
+
+	return `${changeSentence} ${validationSentence}`;
+}
+
+function formatPaths(paths: string[]): string {
+	return paths.map((filePath) => `\`${filePath}\``).join(', ');
+}
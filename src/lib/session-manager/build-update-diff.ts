@@ -0,0 +1,37 @@
+import { applyUnifiedDiff } from './apply-unified-diff';
+
+const WHOLE_FILE_CONTEXT_LINES = 999_999;
+
+export type UpdateDiffSource = {
+	recordedPath: string;
+	recordedContent: string | undefined;
+	contextLines: number;
+	diffWithContext: (contextLines: number) => Promise<string>;
+};
+
+// A context-line diff is only kept when it applies to the content the record already shows for the file; otherwise
+// the whole-file diff is recorded, with a warning when even that does not apply.
+export async function buildUpdateDiff(source: UpdateDiffSource, warnings: string[]): Promise<string> {
+	const { recordedPath, recordedContent, contextLines, diffWithContext } = source;
+	if (contextLines >= 0 && recordedContent !== undefined) {
+		const minimal = await diffWithContext(contextLines);
+		if (!minimal || appliesCleanly(recordedContent, minimal)) {
+			return minimal;
+		}
+	}
+
+	const wholeFile = await diffWithContext(WHOLE_FILE_CONTEXT_LINES);
+	if (wholeFile && recordedContent !== undefined && !appliesCleanly(recordedContent, wholeFile)) {
+		warnings.push(`${recordedPath}: patch does not apply to the repo.readFile content recorded earlier.`);
+	}
+	return wholeFile;
+}
+
+function appliesCleanly(content: string, diff: string): boolean {
+	try {
+		applyUnifiedDiff(content, diff);
+		return true;
+	} catch {
+		return false;
+	}
+}
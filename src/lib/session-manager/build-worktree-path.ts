@@ -0,0 +1,6 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+export function buildWorktreePath(name: string, now: Date = new Date()): string {
+	return path.join(os.tmpdir(), 'dataset-worktrees', `${name}-${now.toISOString().replace(/[:.]/g, '-')}`);
+}
@@ -0,0 +1,48 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+const SNAPSHOT_IDENTITY = {
+	GIT_AUTHOR_NAME: 'dataset-recorder',
+	GIT_AUTHOR_EMAIL: 'dataset-recorder@localhost',
+	GIT_COMMITTER_NAME: 'dataset-recorder',
+	GIT_COMMITTER_EMAIL: 'dataset-recorder@localhost',
+};
+
+export async function captureWorkingTreeSnapshot(
+	repoRoot: string,
+	parentRef: string,
+	message: string,
+	pinRef: string,
+): Promise<string> {
+	const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dataset-snapshot-'));
+	const env = {
+		...process.env,
+		...SNAPSHOT_IDENTITY,
+		GIT_INDEX_FILE: path.join(tempDir, 'index'),
+	};
+	const run = async (args: string[]) => {
+		const { stdout } = await execFileAsync('git', args, {
+			cwd: repoRoot,
+			env,
+			encoding: 'utf8',
+			maxBuffer: 20 * 1024 * 1024,
+		});
+		return stdout.trim();
+	};
+
+	try {
+		await run(['read-tree', parentRef]);
+		await run(['add', '-A', '--', '.']);
+		const tree = await run(['write-tree']);
+		const commit = await run(['commit-tree', tree, '-p', parentRef, '-m', message]);
+		await run(['update-ref', pinRef, commit]);
+		return commit;
+	} finally {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,28 @@
+import type { ApplyPatchArgs, ApplyPatchOperation, TrainingRecord } from '../tooling';
+
+export function collectApplyPatchOperations(record: TrainingRecord): ApplyPatchOperation[] {
+	const operations: ApplyPatchOperation[] = [];
+
+	for (const message of record.messages) {
+		if (message.role !== 'assistant' || !('tool_calls' in message)) {
+			continue;
+		}
+
+		for (const call of message.tool_calls) {
+			if (call.function.name !== 'apply_patch') {
+				continue;
+			}
+
+			let args: ApplyPatchArgs;
+			try {
+				args = JSON.parse(call.function.arguments) as ApplyPatchArgs;
+			} catch {
+				continue;
+			}
+
+			operations.push(...(args.data?.action?.operations ?? []));
+		}
+	}
+
+	return operations;
+}
@@ -0,0 +1,69 @@
+import type { TrainingRecord } from '../tooling';
+import { collectApplyPatchOperations } from './collect-apply-patch-operations';
+
+export type PatchedPaths = {
+	created: string[];
+	updated: string[];
+	deleted: string[];
+	moved: Array<{ from: string; to: string }>;
+};
+
+export function collectPatchedPaths(record: TrainingRecord): PatchedPaths {
+	const kinds = new Map<string, 'created' | 'updated' | 'deleted' | 'moved'>();
+	const origins = new Map<string, string>();
+
+	for (const operation of collectApplyPatchOperations(record)) {
+		const previous = kinds.get(operation.path);
+		if (operation.type === 'move_file') {
+			const sourceKind = kinds.get(operation.from);
+			const origin = origins.get(operation.from) ?? operation.from;
+			kinds.delete(operation.from);
+			origins.delete(operation.from);
+			if (sourceKind === 'created') {
+				kinds.set(operation.path, 'created');
+			} else if (origin === operation.path) {
+				if (operation.diff || sourceKind === 'updated') {
+					kinds.set(operation.path, 'updated');
+				}
+			} else {
+				kinds.set(operation.path, 'moved');
+				origins.set(operation.path, origin);
+			}
+			continue;
+		}
+		if (operation.type === 'delete_file') {
+			const origin = origins.get(operation.path);
+			origins.delete(operation.path);
+			if (previous === 'created') {
+				kinds.delete(operation.path);
+			} else if (origin !== undefined) {
+				kinds.delete(operation.path);
+				kinds.set(origin, 'deleted');
+			} else {
+				kinds.set(operation.path, 'deleted');
+			}
+			continue;
+		}
+		if (operation.type === 'create_file' || (operation.type === 'binary_file' && operation.action === 'create')) {
+			kinds.set(operation.path, previous === 'deleted' ? 'updated' : 'created');
+			continue;
+		}
+		if (previous !== 'created' && previous !== 'moved') {
+			kinds.set(operation.path, 'updated');
+		}
+	}
+
+	const result: PatchedPaths = { created: [], updated: [], deleted: [], moved: [] };
+	for (const [filePath, kind] of kinds) {
+		if (kind === 'moved') {
+			result.moved.push({ from: origins.get(filePath) ?? filePath, to: filePath });
+			continue;
+		}
+		result[kind].push(filePath);
+	}
+	result.created.sort((a, b) => a.localeCompare(b));
+	result.updated.sort((a, b) => a.localeCompare(b));
+	result.deleted.sort((a, b) => a.localeCompare(b));
+	result.moved.sort((a, b) => a.to.localeCompare(b.to));
+	return result;
+}
@@ -0,0 +1,5 @@
+import type { TrainingRecord } from '../tooling';
+
+export function countUserTurns(record: TrainingRecord): number {
+	return record.messages.filter((message) => message.role === 'user').length;
+}
@@ -0,0 +1,19 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+export async function createDetachedWorktree(
+	repoRoot: string,
+	ref: string,
+	worktreePath: string,
+): Promise<void> {
+	await fs.mkdir(path.dirname(worktreePath), { recursive: true });
+	await execFileAsync('git', ['worktree', 'add', '--detach', worktreePath, ref], {
+		cwd: repoRoot,
+		encoding: 'utf8',
+		maxBuffer: 20 * 1024 * 1024,
+	});
+}
@@ -0,0 +1,94 @@
+import { createHash } from 'node:crypto';
+
+export type RemoteAnonymization = 'keep' | 'hash' | 'drop';
+
+export type PayloadAnonymizer = {
+	text(value: string): string;
+	localPath(value: string): string;
+	remote(value: string | undefined): string | undefined;
+};
+
+type PathReplacement = {
+	from: string;
+	to: (withSeparator: boolean) => string;
+};
+
+function escapeRegex(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toPathPatterns(replacements: PathReplacement[]): Array<{ regex: RegExp; to: PathReplacement['to'] }> {
+	return replacements
+		.filter((replacement) => replacement.from.length > 1)
+		.sort((left, right) => right.from.length - left.from.length)
+		.map((replacement) => ({
+			regex: new RegExp(`${escapeRegex(replacement.from.replace(/[\\/]+$/, ''))}(?:[\\\\/]|(?![\\w.-]))`, 'g'),
+			to: replacement.to,
+		}));
+}
+
+function stripUrlCredentials(remote: string): string {
+	return remote.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^@/]+@/i, '$1');
+}
+
+export function createPayloadAnonymizer(input: {
+	roots: Array<{ root: string; prefix: string }>;
+	homeDir: string;
+	tmpDir: string;
+	username: string;
+	hostname: string;
+	remoteMode: RemoteAnonymization;
+}): PayloadAnonymizer {
+	const localReplacements: PathReplacement[] = [
+		{ from: input.tmpDir, to: (withSeparator: boolean) => (withSeparator ? '<tmp>/' : '<tmp>') },
+		{ from: input.homeDir, to: (withSeparator: boolean) => (withSeparator ? '~/' : '~') },
+	];
+	const rootReplacements: PathReplacement[] = input.roots.map(({ root, prefix }) => ({
+		from: root,
+		to: (withSeparator: boolean) => (withSeparator ? prefix : prefix.replace(/\/$/, '') || '.'),
+	}));
+	const pathPatterns = toPathPatterns([...rootReplacements, ...localReplacements]);
+	const localPathPatterns = toPathPatterns(localReplacements);
+
+	const username = input.username.length > 1 ? escapeRegex(input.username) : undefined;
+	const hostnames = [...new Set([input.hostname, input.hostname.split('.')[0]])].filter(
+		(hostname) => hostname !== 'localhost' && (hostname.length >= 6 || /[^A-Za-z]/.test(hostname)),
+	);
+
+	const anonymize = (value: string, patterns: typeof pathPatterns): string => {
+		let anonymized = value;
+		for (const pattern of patterns) {
+			anonymized = anonymized.replace(pattern.regex, (match) =>
+				pattern.to(match.endsWith('/') || match.endsWith('\\')),
+			);
+		}
+		for (const hostname of hostnames) {
+			anonymized = anonymized.replace(new RegExp(`(?<![\\w.-])${escapeRegex(hostname)}(?![\\w-])`, 'g'), '<host>');
+		}
+		if (username) {
+			anonymized = anonymized
+				.replace(new RegExp(`(/home/|/Users/|\\\\Users\\\\)${username}(?![\\w.-])`, 'g'), '$1<user>')
+				.replace(new RegExp(`(?<![\\w.-])${username}@<host>`, 'g'), '<user>@<host>');
+		}
+		return anonymized;
+	};
+
+	return {
+		text: (value) => anonymize(value, pathPatterns),
+		localPath: (value) => anonymize(value, localPathPatterns),
+		remote: (value) => {
+			if (!value || input.remoteMode === 'drop') {
+				return undefined;
+			}
+			if (value.startsWith('sha256:')) {
+				return value;
+			}
+			const remote = stripUrlCredentials(value);
+			if (input.remoteMode === 'keep') {
+				return remote;
+			}
+			const normalized = remote.trim().replace(/\.git$/, '').toLowerCase();
+			return `sha256:${createHash('sha256').update(normalized).digest('hex').slice(0, 16)}`;
+		},
+	};
+}
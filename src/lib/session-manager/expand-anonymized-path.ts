@@ -0,0 +1,16 @@
+import * as path from 'node:path';
+
+export function expandAnonymizedPath(value: string, dirs: { homeDir: string; tmpDir: string }): string {
+	for (const [placeholder, dir] of [
+		['~', dirs.homeDir],
+		['<tmp>', dirs.tmpDir],
+	] as const) {
+		if (value === placeholder) {
+			return dir;
+		}
+		if (value.startsWith(`${placeholder}/`) || value.startsWith(`${placeholder}\\`)) {
+			return path.join(dir, value.slice(placeholder.length + 1));
+		}
+	}
+	return value;
+}
@@ -0,0 +1,30 @@
+import type { TrainingRecord } from '../tooling';
+
+// A checkpoint only learns about file edits when it runs, so run_cmd calls at the end of the record may have run
+// after the edits it is about to patch in. Returns the index of the first such trailing call (diagnostics calls in
+// between move with them), or the record length when none qualify.
+export function findCheckpointInsertIndex(
+	record: TrainingRecord,
+	ranAfterEdits: (runCmdCallId: string) => boolean,
+): number {
+	let insertAt = record.messages.length;
+
+	for (let index = record.messages.length - 1; index >= 0; index -= 1) {
+		const message = record.messages[index];
+		if (message.role === 'tool') {
+			continue;
+		}
+		if (message.role !== 'assistant' || !('tool_calls' in message)) {
+			break;
+		}
+		if (message.tool_calls.every((call) => call.function.name === 'repo.diagnostics')) {
+			continue;
+		}
+		if (!message.tool_calls.every((call) => call.function.name === 'run_cmd' && ranAfterEdits(call.id))) {
+			break;
+		}
+		insertAt = index;
+	}
+
+	return insertAt;
+}
@@ -0,0 +1,28 @@
+export function findMinedCommitSkipReason(commit: {
+	parents: string[];
+	message: string;
+	changedFiles: number;
+	maxFilesChanged: number;
+	excludeMessageRegexes: RegExp[];
+}): string | undefined {
+	if (commit.parents.length === 0) {
+		return 'root commit';
+	}
+	if (commit.parents.length > 1) {
+		return 'merge commit';
+	}
+	if (!commit.message) {
+		return 'empty commit message';
+	}
+	const excludedBy = commit.excludeMessageRegexes.find((regex) => regex.test(commit.message));
+	if (excludedBy) {
+		return `message matches /${excludedBy.source}/`;
+	}
+	if (commit.changedFiles === 0) {
+		return 'no included file changes';
+	}
+	if (commit.changedFiles > commit.maxFilesChanged) {
+		return `${commit.changedFiles} files changed (max ${commit.maxFilesChanged})`;
+	}
+	return undefined;
+}
@@ -0,0 +1,27 @@
+import * as path from 'node:path';
+import type { SessionRepo } from './active-session';
+
+export function findRepoForAbsolutePath(
+	repos: SessionRepo[],
+	absolutePath: string,
+): { repo: SessionRepo; relativePath: string } | undefined {
+	const normalizedFilePath = path.resolve(absolutePath);
+	let best: { repo: SessionRepo; relativePath: string } | undefined;
+
+	for (const repo of repos) {
+		const normalizedRoot = path.resolve(repo.root);
+		const withSep = `${normalizedRoot}${path.sep}`;
+		if (!normalizedFilePath.startsWith(withSep) && normalizedFilePath !== normalizedRoot) {
+			continue;
+		}
+		if (best && best.repo.root.length >= repo.root.length) {
+			continue;
+		}
+		best = {
+			repo,
+			relativePath: path.relative(normalizedRoot, normalizedFilePath).replace(/\\/g, '/'),
+		};
+	}
+
+	return best;
+}
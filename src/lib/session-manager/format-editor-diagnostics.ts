@@ -0,0 +1,53 @@
+export type EditorDiagnosticSeverity = 'error' | 'warning' | 'info' | 'hint';
+
+export const EDITOR_DIAGNOSTIC_SEVERITIES: EditorDiagnosticSeverity[] = ['error', 'warning', 'info', 'hint'];
+
+export type EditorDiagnostic = {
+	path: string;
+	line: number;
+	column: number;
+	severity: EditorDiagnosticSeverity;
+	source?: string;
+	code?: string;
+	message: string;
+};
+
+export const NO_EDITOR_DIAGNOSTICS = 'No diagnostics.';
+
+function compareText(left: string, right: string): number {
+	return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function formatLabel(diagnostic: EditorDiagnostic): string {
+	if (diagnostic.source && diagnostic.code) {
+		return ` ${diagnostic.source}(${diagnostic.code})`;
+	}
+	if (diagnostic.source || diagnostic.code) {
+		return ` ${diagnostic.source ?? diagnostic.code}`;
+	}
+	return '';
+}
+
+export function formatEditorDiagnostics(diagnostics: EditorDiagnostic[], maxEntries: number): string {
+	if (diagnostics.length === 0) {
+		return NO_EDITOR_DIAGNOSTICS;
+	}
+
+	const sorted = [...diagnostics].sort(
+		(left, right) =>
+			compareText(left.path, right.path) ||
+			left.line - right.line ||
+			left.column - right.column ||
+			EDITOR_DIAGNOSTIC_SEVERITIES.indexOf(left.severity) - EDITOR_DIAGNOSTIC_SEVERITIES.indexOf(right.severity) ||
+			compareText(left.message, right.message),
+	);
+	const lines = sorted.slice(0, maxEntries).map((diagnostic) => {
+		const location = `${diagnostic.path}:${diagnostic.line}:${diagnostic.column}`;
+		const message = diagnostic.message.replace(/\s*\n\s*/g, ' ').trim();
+		return `${location} ${diagnostic.severity}${formatLabel(diagnostic)}: ${message}`;
+	});
+	if (sorted.length > maxEntries) {
+		lines.push(`[... ${sorted.length - maxEntries} more diagnostics omitted ...]`);
+	}
+	return lines.join('\n');
+}
@@ -0,0 +1,33 @@
+import type { RunCmdResult } from './run-cmd-terminal';
+
+export type RunCmdResultFormat = 'text' | 'text-with-status' | 'json';
+
+export function formatRunCmdResult(
+	output: string,
+	result: Omit<RunCmdResult, 'output'>,
+	format: RunCmdResultFormat,
+): string {
+	if (format === 'json') {
+		return JSON.stringify({
+			exitCode: result.exitCode,
+			signal: result.signal,
+			timedOut: result.timedOut,
+			cancelled: result.cancelled,
+			durationMs: result.durationMs,
+			output,
+		});
+	}
+
+	if (format === 'text-with-status') {
+		const status = result.cancelled
+			? 'cancelled'
+			: result.timedOut
+				? 'timed out'
+				: result.signal
+					? `signal ${result.signal}`
+					: `exit code ${result.exitCode ?? 'unknown'}`;
+		return `${output}\n[${status}, ${(result.durationMs / 1000).toFixed(1)}s]`;
+	}
+
+	return output;
+}
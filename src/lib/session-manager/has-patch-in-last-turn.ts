@@ -0,0 +1,16 @@
+import type { TrainingRecord } from '../tooling';
+
+// A follow-up turn that never led to an apply_patch leaves the record a draft, whatever earlier turns patched.
+export function hasPatchInLastTurn(record: TrainingRecord): boolean {
+	let lastUserIndex = record.messages.length - 1;
+	while (lastUserIndex >= 0 && record.messages[lastUserIndex].role !== 'user') {
+		lastUserIndex -= 1;
+	}
+
+	return record.messages.some((message, index) => {
+		if (index <= lastUserIndex || message.role !== 'assistant' || !('tool_calls' in message)) {
+			return false;
+		}
+		return message.tool_calls.some((call) => call.function.name === 'apply_patch');
+	});
+}
@@ -0,0 +1,35 @@
+import * as os from 'node:os';
+import type { ActiveSessionLock } from './active-session';
+
+export const ACTIVE_SESSION_HEARTBEAT_MS = 30_000;
+export const ACTIVE_SESSION_LOCK_TTL_MS = 4 * ACTIVE_SESSION_HEARTBEAT_MS;
+
+export type ActiveSessionLockHost = {
+	pid: number;
+	hostname: string;
+	now: number;
+	isProcessAlive: (pid: number) => boolean;
+};
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		return (error as NodeJS.ErrnoException).code === 'EPERM';
+	}
+}
+
+export function isActiveSessionLockLive(
+	lock: ActiveSessionLock,
+	host: ActiveSessionLockHost = { pid: process.pid, hostname: os.hostname(), now: Date.now(), isProcessAlive },
+): boolean {
+	const heartbeatAt = Date.parse(lock.heartbeatAt);
+	if (Number.isNaN(heartbeatAt) || host.now - heartbeatAt > ACTIVE_SESSION_LOCK_TTL_MS) {
+		return false;
+	}
+	if (lock.hostname !== host.hostname) {
+		return true;
+	}
+	return lock.pid !== host.pid && host.isProcessAlive(lock.pid);
+}
@@ -0,0 +1,23 @@
+import { listToolCalls } from '../record-linter/list-tool-calls';
+import type { RepoDiagnosticsArgs, TrainingRecord } from '../tooling';
+import { NO_EDITOR_DIAGNOSTICS } from './format-editor-diagnostics';
+
+export function isRepeatedDiagnosticsResult(
+	record: TrainingRecord,
+	args: RepoDiagnosticsArgs,
+	content: string,
+): boolean {
+	const previous = listToolCalls(record)
+		.filter(({ call }) => call.function.name === 'repo.diagnostics')
+		.pop();
+	if (!previous) {
+		return content === NO_EDITOR_DIAGNOSTICS;
+	}
+	if (previous.args.minSeverity !== args.minSeverity || previous.args.path !== args.path) {
+		return false;
+	}
+	const result = record.messages.find(
+		(message) => message.role === 'tool' && message.tool_call_id === previous.call.id,
+	);
+	return result !== undefined && 'content' in result && result.content === content;
+}
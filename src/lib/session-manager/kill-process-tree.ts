@@ -0,0 +1,35 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+
+export const PROCESS_TREE_KILL_GRACE_MS = 5_000;
+
+export function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+	if (child.pid === undefined) {
+		return;
+	}
+	const childExited = child.exitCode !== null || child.signalCode !== null;
+
+	if (process.platform === 'win32') {
+		if (childExited) {
+			return;
+		}
+		spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore', windowsHide: true }).on(
+			'error',
+			() => child.kill(signal),
+		);
+		return;
+	}
+
+	try {
+		process.kill(-child.pid, signal);
+	} catch {
+		if (!childExited) {
+			child.kill(signal);
+		}
+	}
+}
+
+export function terminateProcessTree(child: ChildProcess, graceMs = PROCESS_TREE_KILL_GRACE_MS): () => void {
+	killProcessTree(child, 'SIGTERM');
+	const escalation = setTimeout(() => killProcessTree(child, 'SIGKILL'), graceMs);
+	return () => clearTimeout(escalation);
+}
@@ -0,0 +1,6 @@
+export function pickMinedCommitBranch(containingBranches: string[], currentBranch: string): string {
+	if (containingBranches.includes(currentBranch)) {
+		return currentBranch;
+	}
+	return containingBranches[0] ?? 'HEAD';
+}
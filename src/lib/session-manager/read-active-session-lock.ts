@@ -0,0 +1,16 @@
+import * as fs from 'node:fs/promises';
+import type { ActiveSessionLock } from './active-session';
+
+export async function readActiveSessionLock(lockPath: string): Promise<ActiveSessionLock | undefined> {
+	let parsed: Partial<ActiveSessionLock>;
+	try {
+		parsed = JSON.parse(await fs.readFile(lockPath, 'utf8')) as Partial<ActiveSessionLock>;
+	} catch {
+		return undefined;
+	}
+
+	if (typeof parsed.pid !== 'number' || typeof parsed.hostname !== 'string' || typeof parsed.heartbeatAt !== 'string') {
+		return undefined;
+	}
+	return { pid: parsed.pid, hostname: parsed.hostname, heartbeatAt: parsed.heartbeatAt };
+}
@@ -0,0 +1,27 @@
+import * as fs from 'node:fs/promises';
+import type { ActiveSession, ActiveSessionWal } from './active-session';
+
+export async function readActiveSessionWal(
+	walPath: string,
+): Promise<{ session: ActiveSession; updatedAt: string } | undefined> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(walPath, 'utf8');
+	} catch {
+		return undefined;
+	}
+
+	const parsed = JSON.parse(raw) as Partial<ActiveSessionWal>;
+	if (parsed.version !== 1 || !parsed.session || !Array.isArray(parsed.session.record?.messages)) {
+		throw new Error(`Unrecognized active session log: ${walPath}`);
+	}
+
+	return {
+		updatedAt: parsed.updatedAt ?? '',
+		session: {
+			...parsed.session,
+			lastSearchResults: new Set(parsed.session.lastSearchResults ?? []),
+			readFilesRecorded: new Set(parsed.session.readFilesRecorded ?? []),
+		},
+	};
+}
@@ -0,0 +1,72 @@
+import type { ApplyPatchArgs, RepoReadFileArgs, TrainingRecord } from '../tooling';
+import { applyUnifiedDiff } from './apply-unified-diff';
+
+export function reconstructRecordedContent(record: TrainingRecord, recordedPath: string): string | undefined {
+	const pendingReads = new Map<string, string>();
+	const contents = new Map<string, string>();
+
+	for (const message of record.messages) {
+		if (message.role === 'tool') {
+			const readPath = pendingReads.get(message.tool_call_id);
+			if (readPath !== undefined) {
+				pendingReads.delete(message.tool_call_id);
+				contents.set(readPath, message.content);
+			}
+			continue;
+		}
+		if (message.role !== 'assistant' || !('tool_calls' in message)) {
+			continue;
+		}
+
+		for (const call of message.tool_calls) {
+			if (call.function.name === 'repo.readFile') {
+				try {
+					const args = JSON.parse(call.function.arguments) as RepoReadFileArgs;
+					pendingReads.set(call.id, args.path);
+				} catch {
+					continue;
+				}
+				continue;
+			}
+			if (call.function.name !== 'apply_patch') {
+				continue;
+			}
+
+			let args: ApplyPatchArgs;
+			try {
+				args = JSON.parse(call.function.arguments) as ApplyPatchArgs;
+			} catch {
+				continue;
+			}
+
+			for (const operation of args.data?.action?.operations ?? []) {
+				if (operation.type === 'delete_file' || operation.type === 'binary_file') {
+					contents.delete(operation.path);
+					continue;
+				}
+				if (operation.type === 'create_file') {
+					contents.set(operation.path, operation.diff);
+					continue;
+				}
+
+				const sourcePath = operation.type === 'move_file' ? operation.from : operation.path;
+				const current = contents.get(sourcePath);
+				contents.delete(sourcePath);
+				if (current === undefined) {
+					continue;
+				}
+				if (!operation.diff) {
+					contents.set(operation.path, current);
+					continue;
+				}
+				try {
+					contents.set(operation.path, applyUnifiedDiff(current, operation.diff));
+				} catch {
+					continue;
+				}
+			}
+		}
+	}
+
+	return contents.get(recordedPath);
+}
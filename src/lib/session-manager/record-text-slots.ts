@@ -0,0 +1,155 @@
+import type { ApplyPatchArgs, ToolCall, TrainingRecord } from '../tooling';
+
+export type RecordTextSlot = {
+	source: string;
+	path?: string;
+	format: 'text' | 'diff';
+	firstLine: number;
+	get(): string;
+	set(value: string): void;
+};
+
+function parseJsonObject(content: string): Record<string, unknown> | undefined {
+	if (!content.startsWith('{')) {
+		return undefined;
+	}
+	try {
+		const parsed = JSON.parse(content) as unknown;
+		return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+			? (parsed as Record<string, unknown>)
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function readPathArg(call: ToolCall): string | undefined {
+	try {
+		const args = JSON.parse(call.function.arguments) as { path?: unknown };
+		return typeof args.path === 'string' ? args.path : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function listPatchSlots(call: ToolCall): RecordTextSlot[] {
+	let args: ApplyPatchArgs;
+	try {
+		args = JSON.parse(call.function.arguments) as ApplyPatchArgs;
+	} catch {
+		return [];
+	}
+
+	const save = () => {
+		call.function.arguments = JSON.stringify(args);
+	};
+	const slots: RecordTextSlot[] = [];
+	for (const operation of args.data?.action?.operations ?? []) {
+		if (operation.type === 'delete_file' || operation.type === 'binary_file') {
+			continue;
+		}
+		if (operation.type === 'move_file' && operation.diff === undefined) {
+			continue;
+		}
+		slots.push({
+			source: 'apply_patch',
+			path: operation.path,
+			format: operation.type === 'create_file' ? 'text' : 'diff',
+			firstLine: 1,
+			get: () => operation.diff ?? '',
+			set: (value) => {
+				operation.diff = value;
+				save();
+			},
+		});
+	}
+	return slots;
+}
+
+function listResultSlots(call: ToolCall, message: { content: string }): RecordTextSlot[] {
+	const source = call.function.name;
+	const parsed = parseJsonObject(message.content);
+
+	if (source === 'repo.search' && parsed && Array.isArray(parsed.results)) {
+		const results = parsed.results as Array<{ path?: unknown; line?: unknown; preview?: unknown }>;
+		return results
+			.filter((result) => typeof result.preview === 'string')
+			.map((result) => ({
+				source,
+				path: typeof result.path === 'string' ? result.path : undefined,
+				format: 'text' as const,
+				firstLine: typeof result.line === 'number' ? result.line : 1,
+				get: () => result.preview as string,
+				set: (value: string) => {
+					result.preview = value;
+					message.content = JSON.stringify(parsed);
+				},
+			}));
+	}
+
+	if (source === 'run_cmd' && parsed && typeof parsed.output === 'string') {
+		return [
+			{
+				source,
+				format: 'text',
+				firstLine: 1,
+				get: () => parsed.output as string,
+				set: (value) => {
+					parsed.output = value;
+					message.content = JSON.stringify(parsed);
+				},
+			},
+		];
+	}
+
+	return [
+		{
+			source,
+			path: source === 'repo.readFile' ? readPathArg(call) : undefined,
+			format: 'text',
+			firstLine: 1,
+			get: () => message.content,
+			set: (value) => {
+				message.content = value;
+			},
+		},
+	];
+}
+
+export function listRecordTextSlots(record: TrainingRecord): RecordTextSlot[] {
+	const calls = new Map<string, ToolCall>();
+	const slots: RecordTextSlot[] = [];
+
+	for (const message of record.messages) {
+		if (message.role !== 'tool' && 'content' in message) {
+			slots.push({
+				source: message.role,
+				format: 'text',
+				firstLine: 1,
+				get: () => message.content,
+				set: (value) => {
+					message.content = value;
+				},
+			});
+			continue;
+		}
+		if (message.role === 'assistant' && 'tool_calls' in message) {
+			for (const call of message.tool_calls) {
+				calls.set(call.id, call);
+				if (call.function.name === 'apply_patch') {
+					slots.push(...listPatchSlots(call));
+				}
+			}
+			continue;
+		}
+
+		if (message.role === 'tool') {
+			const call = calls.get(message.tool_call_id);
+			if (call && call.function.name !== 'apply_patch') {
+				slots.push(...listResultSlots(call, message));
+			}
+		}
+	}
+
+	return slots;
+}
@@ -0,0 +1,122 @@
+import { listToolCalls } from '../record-linter/list-tool-calls';
+import type { SecretDetector } from '../secret-detector/create-secret-detector';
+import type { ApplyPatchArgs, TrainingRecord } from '../tooling';
+import { listRecordTextSlots } from './record-text-slots';
+import type { SecretHit } from './secret-types';
+
+const EXCLUDED_FILE_CONTENT = '[excluded: file contains secrets]';
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+function visitDiffLines(diff: string, visit: (content: string, line: number) => string): string {
+	let oldLine = 0;
+	let newLine = 0;
+	let inHunk = false;
+	return diff
+		.split('\n')
+		.map((line) => {
+			const header = line.match(HUNK_HEADER);
+			if (header) {
+				oldLine = Number(header[1]);
+				newLine = Number(header[2]);
+				inHunk = true;
+				return line;
+			}
+			const marker = line[0];
+			if (!inHunk || (marker !== ' ' && marker !== '+' && marker !== '-')) {
+				return line;
+			}
+			const lineNumber = marker === '-' ? oldLine++ : newLine++;
+			if (marker === ' ') {
+				oldLine += 1;
+			}
+			return `${marker}${visit(line.slice(1), lineNumber)}`;
+		})
+		.join('\n');
+}
+
+export function findRecordSecrets(record: TrainingRecord, detector: SecretDetector): SecretHit[] {
+	const hits: SecretHit[] = [];
+	for (const slot of listRecordTextSlots(record)) {
+		const addHit = (rule: string, line: number) => {
+			hits.push({ source: slot.source, path: slot.path, line, rule });
+		};
+		const text = slot.get();
+		if (slot.format === 'text') {
+			for (const match of detector.find(text, slot.path)) {
+				addHit(match.rule, slot.firstLine + text.slice(0, match.start).split('\n').length - 1);
+			}
+			continue;
+		}
+		visitDiffLines(text, (content, line) => {
+			for (const match of detector.find(content, slot.path)) {
+				addHit(match.rule, line);
+			}
+			return content;
+		});
+	}
+	return hits;
+}
+
+export function excludeRecordPaths(record: TrainingRecord, paths: Set<string>): void {
+	const excludedReadCallIds = new Set<string>();
+	const droppedPatchCallIds = new Set<string>();
+	for (const { call, args } of listToolCalls(record)) {
+		if (call.function.name === 'repo.readFile') {
+			if (typeof args.path === 'string' && paths.has(args.path)) {
+				excludedReadCallIds.add(call.id);
+			}
+			continue;
+		}
+		if (call.function.name !== 'apply_patch') {
+			continue;
+		}
+
+		const patch = args as ApplyPatchArgs;
+		const original = patch.data?.action?.operations ?? [];
+		const operations = original.filter(
+			(operation) => !paths.has(operation.path) && !(operation.type === 'move_file' && paths.has(operation.from)),
+		);
+		if (operations.length === 0) {
+			droppedPatchCallIds.add(call.id);
+		} else if (operations.length !== original.length) {
+			patch.data.action.operations = operations;
+			call.function.arguments = JSON.stringify(patch);
+		}
+	}
+
+	record.messages = record.messages.filter((message) => {
+		if (message.role === 'tool') {
+			if (excludedReadCallIds.has(message.tool_call_id)) {
+				message.content = EXCLUDED_FILE_CONTENT;
+			}
+			return !droppedPatchCallIds.has(message.tool_call_id);
+		}
+		if (message.role === 'assistant' && 'tool_calls' in message) {
+			message.tool_calls = message.tool_calls.filter((call) => !droppedPatchCallIds.has(call.id));
+			return message.tool_calls.length > 0;
+		}
+		return true;
+	});
+}
+
+export function redactRecordSecrets(
+	record: TrainingRecord,
+	detector: SecretDetector,
+): { redactedPatchPaths: string[] } {
+	const redactedPatchPaths = new Set<string>();
+	for (const slot of listRecordTextSlots(record)) {
+		const original = slot.get();
+		const redacted =
+			slot.format === 'text'
+				? detector.redact(original, slot.path)
+				: visitDiffLines(original, (content) => detector.redact(content, slot.path));
+		if (redacted === original) {
+			continue;
+		}
+		slot.set(redacted);
+		if (slot.source === 'apply_patch' && slot.path) {
+			redactedPatchPaths.add(slot.path);
+		}
+	}
+	return { redactedPatchPaths: [...redactedPatchPaths].sort() };
+}
@@ -0,0 +1,17 @@
+import * as fs from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+export async function removeWorktree(repoRoot: string, worktreePath: string): Promise<void> {
+	try {
+		await execFileAsync('git', ['worktree', 'remove', '--force', worktreePath], {
+			cwd: repoRoot,
+			encoding: 'utf8',
+		});
+	} finally {
+		await fs.rm(worktreePath, { recursive: true, force: true });
+		await execFileAsync('git', ['worktree', 'prune'], { cwd: repoRoot, encoding: 'utf8' });
+	}
+}
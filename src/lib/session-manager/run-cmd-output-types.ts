@@ -0,0 +1,13 @@
+export type RunCmdOutputEvent =
+	| { kind: 'started'; command: string; startedAt: string }
+	| { kind: 'output'; text: string }
+	| {
+			kind: 'finished';
+			command: string;
+			exitCode: number | null;
+			timedOut: boolean;
+			cancelled: boolean;
+			durationMs: number;
+			recorded?: string;
+			notRecordedReason?: string;
+	  };
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+
+export type RunCmdQueueEntry = {
+	id: number;
+	command: string;
+	enqueuedAt: string;
+};
+
+export type RunCmdQueueState = {
+	running?: { id: number; command: string; startedAt: string };
+	queued: RunCmdQueueEntry[];
+};
+
+type PendingEntry = RunCmdQueueEntry & {
+	start: () => void;
+	reject: (error: Error) => void;
+};
+
+export class RunCmdQueue {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	private readonly pending: PendingEntry[] = [];
+	private running: RunCmdQueueState['running'];
+	private nextId = 1;
+
+	public readonly onDidChange = this.changeEmitter.event;
+
+	public getState(): RunCmdQueueState {
+		return {
+			running: this.running,
+			queued: this.pending.map(({ id, command, enqueuedAt }) => ({ id, command, enqueuedAt })),
+		};
+	}
+
+	public async run<T>(command: string, allowQueue: boolean, task: () => Promise<T>): Promise<T> {
+		const id = this.nextId++;
+		if (this.running) {
+			if (!allowQueue) {
+				throw new Error(
+					'A run_cmd command is already running. Cancel it, or enable dataset.runCmdQueue to queue commands.',
+				);
+			}
+			await new Promise<void>((resolve, reject) => {
+				this.pending.push({ id, command, enqueuedAt: new Date().toISOString(), start: resolve, reject });
+				this.changeEmitter.fire();
+			});
+		}
+
+		this.running = { id, command, startedAt: new Date().toISOString() };
+		this.changeEmitter.fire();
+		try {
+			return await task();
+		} finally {
+			const next = this.pending.shift();
+			this.running = next ? { id: next.id, command: next.command, startedAt: new Date().toISOString() } : undefined;
+			this.changeEmitter.fire();
+			next?.start();
+		}
+	}
+
+	public cancelQueued(id?: number): number {
+		const removed = this.pending.filter((entry) => id === undefined || entry.id === id);
+		for (const entry of removed) {
+			this.pending.splice(this.pending.indexOf(entry), 1);
+			entry.reject(new Error(`Removed queued command: ${entry.command}`));
+		}
+		if (removed.length > 0) {
+			this.changeEmitter.fire();
+		}
+		return removed.length;
+	}
+
+	public dispose(): void {
+		this.cancelQueued();
+		this.changeEmitter.dispose();
+	}
+}
@@ -1,17 +1,32 @@
 import { spawn } from 'node:child_process';
 import * as vscode from 'vscode';
 import type { RunCmdArgs } from '../tooling';
+import { PROCESS_TREE_KILL_GRACE_MS, terminateProcessTree } from './kill-process-tree';
+
+export type RunCmdResult = {
+	output: string;
+	failed: boolean;
+	exitCode: number | null;
+	signal: string | null;
+	timedOut: boolean;
+	cancelled: boolean;
+	startedAt: string;
+	durationMs: number;
+};
 
 export class RunCmdTerminal implements vscode.Pseudoterminal {
 	private readonly writeEmitter = new vscode.EventEmitter<string>();
 	private readonly closeEmitter = new vscode.EventEmitter<number>();
+	private readonly outputEmitter = new vscode.EventEmitter<string>();
 	private readonly terminal: vscode.Terminal;
 	private running = false;
 	private disposed = false;
-	private activeChild: ReturnType<typeof spawn> | undefined;
+	private stopActiveChild: (() => void) | undefined;
+	private cancelRequested = false;
 
 	public readonly onDidWrite = this.writeEmitter.event;
 	public readonly onDidClose = this.closeEmitter.event;
+	public readonly onDidOutput = this.outputEmitter.event;
 
 	public constructor(name: string) {
 		this.terminal = vscode.window.createTerminal({ name, pty: this });
@@ -21,22 +36,30 @@ export class RunCmdTerminal implements vscode.Pseudoterminal {
 
 	public close(): void {
 		this.disposed = true;
-		if (this.activeChild && !this.activeChild.killed) {
-			this.activeChild.kill('SIGTERM');
-		}
+		this.stopActiveChild?.();
 		this.writeEmitter.dispose();
 		this.closeEmitter.dispose();
+		this.outputEmitter.dispose();
 	}
 
 	public isDisposed(): boolean {
 		return this.disposed;
 	}
 
+	public cancel(): boolean {
+		if (!this.stopActiveChild || this.cancelRequested) {
+			return false;
+		}
+		this.cancelRequested = true;
+		this.stopActiveChild();
+		return true;
+	}
+
 	public async runCommand(
 		args: RunCmdArgs,
 		cwd: string,
 		timeoutMs: number,
-	): Promise<{ output: string; failed: boolean }> {
+	): Promise<RunCmdResult> {
 		if (this.disposed) {
 			throw new Error('run_cmd terminal was closed. Run the command again to reopen it.');
 		}
@@ -46,43 +69,71 @@ export class RunCmdTerminal implements vscode.Pseudoterminal {
 		}
 
 		this.running = true;
+		this.cancelRequested = false;
 		this.terminal.show(true);
 
 		return await new Promise((resolve) => {
 			let collected = '';
 			let settled = false;
+			const startedAt = new Date();
 			let timedOut = false;
 			let timeoutHandle: NodeJS.Timeout | undefined;
+			let abandonHandle: NodeJS.Timeout | undefined;
+			let cancelEscalation: (() => void) | undefined;
 
 			const normalizedNewlines = (value: string) => value.replace(/\r?\n/g, '\r\n');
 			const pushOutput = (value: string) => {
 				collected += value;
 				this.writeEmitter.fire(normalizedNewlines(value));
+				this.outputEmitter.fire(value);
 			};
 
-			const settle = (failed: boolean, fallbackMessage?: string) => {
+			const settle = (
+				failed: boolean,
+				status: { exitCode: number | null; signal: string | null },
+				fallbackMessage?: string,
+			) => {
 				if (settled) {
 					return;
 				}
 				settled = true;
-				if (timeoutHandle) {
-					clearTimeout(timeoutHandle);
-				}
+				clearTimeout(timeoutHandle);
+				clearTimeout(abandonHandle);
+				cancelEscalation?.();
 				this.running = false;
-				this.activeChild = undefined;
+				this.stopActiveChild = undefined;
 
 				const output = collected.length > 0 ? collected : (fallbackMessage ?? '[no output]');
-				resolve({ output, failed });
+				resolve({
+					output,
+					failed,
+					exitCode: status.exitCode,
+					signal: status.signal,
+					timedOut,
+					cancelled: this.cancelRequested,
+					startedAt: startedAt.toISOString(),
+					durationMs: Date.now() - startedAt.getTime(),
+				});
 			};
 
-			pushOutput(`$ pnpm ${args.args.join(' ')}\n`);
+			pushOutput(`$ ${args.cmd} ${args.args.join(' ')}\n`);
 
-			const child = spawn('pnpm', args.args, {
+			const child = spawn(args.cmd, args.args, {
 				cwd,
 				env: args.env ? { ...process.env, ...args.env } : process.env,
 				shell: false,
+				detached: process.platform !== 'win32',
 			});
-			this.activeChild = child;
+			this.stopActiveChild = () => {
+				if (cancelEscalation) {
+					return;
+				}
+				cancelEscalation = terminateProcessTree(child);
+				abandonHandle = setTimeout(() => {
+					pushOutput('\nrun_cmd did not exit after SIGKILL; stopped waiting for it\n');
+					settle(true, { exitCode: null, signal: 'SIGKILL' });
+				}, 2 * PROCESS_TREE_KILL_GRACE_MS);
+			};
 
 			child.stdout.on('data', (chunk: Buffer | string) => {
 				pushOutput(typeof chunk === 'string' ? chunk : chunk.toString('utf8'));
@@ -94,27 +145,34 @@ export class RunCmdTerminal implements vscode.Pseudoterminal {
 
 			child.on('error', (error) => {
 				pushOutput(`${error.message}\n`);
-				settle(true, error.message);
+				settle(true, { exitCode: null, signal: null }, error.message);
 			});
 
 			child.on('close', (code, signal) => {
+				const status = { exitCode: code, signal };
 				if (timedOut) {
-					settle(true, 'run_cmd timed out');
+					settle(true, status, 'run_cmd timed out');
+					return;
+				}
+
+				if (this.cancelRequested) {
+					pushOutput('\nrun_cmd cancelled\n');
+					settle(true, status);
 					return;
 				}
 
 				if (signal) {
-					settle(true, `run_cmd terminated by signal ${signal}`);
+					settle(true, status, `run_cmd terminated by signal ${signal}`);
 					return;
 				}
 
-				settle((code ?? 0) !== 0, `[exit code ${code ?? 0}]`);
+				settle((code ?? 0) !== 0, status, `[exit code ${code ?? 0}]`);
 			});
 
 			timeoutHandle = setTimeout(() => {
 				timedOut = true;
 				pushOutput(`\nrun_cmd timed out after ${timeoutMs}ms\n`);
-				child.kill('SIGTERM');
+				this.stopActiveChild?.();
 			}, timeoutMs);
 		});
 	}
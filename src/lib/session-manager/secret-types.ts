@@ -0,0 +1,15 @@
+export type SecretHit = {
+	source: string;
+	path?: string;
+	line: number;
+	rule: string;
+};
+
+export type SecretHitAction = 'redact' | 'exclude' | 'abort';
+
+export type RecordRedaction = {
+	action: Exclude<SecretHitAction, 'abort'>;
+	hits: number;
+	redactedPaths: string[];
+	excludedPaths: string[];
+};
@@ -0,0 +1,38 @@
+import * as path from 'node:path';
+import type { SessionRepo } from './active-session';
+import { findRepoForAbsolutePath } from './find-repo-for-absolute-path';
+
+export function selectSessionRepo(
+	repos: SessionRepo[],
+	rawPath: string,
+): { repo: SessionRepo; rest: string } | undefined {
+	if (repos.length === 1 && repos[0].prefix === '') {
+		return { repo: repos[0], rest: rawPath };
+	}
+
+	if (path.isAbsolute(rawPath)) {
+		const match = findRepoForAbsolutePath(repos, rawPath);
+		if (!match) {
+			throw new Error('Absolute path must be inside one of the session folders.');
+		}
+		return { repo: match.repo, rest: match.relativePath };
+	}
+
+	const normalized = rawPath.replace(/\\/g, '/').trim().replace(/^\.\//, '').replace(/^\/+/, '');
+	if (!normalized || normalized === '.') {
+		return undefined;
+	}
+
+	for (const repo of repos) {
+		const folder = repo.prefix.replace(/\/$/, '');
+		if (normalized === folder || normalized === repo.prefix) {
+			return { repo, rest: '' };
+		}
+		if (normalized.startsWith(repo.prefix)) {
+			return { repo, rest: normalized.slice(repo.prefix.length) };
+		}
+	}
+
+	const folders = repos.map((repo) => repo.prefix).join(', ');
+	throw new Error(`Path must start with one of the session folders: ${folders}`);
+}
@@ -0,0 +1 @@
+export type SessionStatus = 'draft' | 'needs-review' | 'ready';
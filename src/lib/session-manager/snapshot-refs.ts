@@ -0,0 +1,23 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+const SNAPSHOT_REF_ROOT = 'refs/dataset';
+
+// Snapshot commits come from commit-tree and nothing else points at them, so each one is pinned under the session's
+// namespace until the session ends; otherwise `git gc` could prune a baseline or checkpoint mid-session.
+export function buildSnapshotRef(sessionKey: string, name: string): string {
+	return `${SNAPSHOT_REF_ROOT}/${sessionKey}/${name}`;
+}
+
+export async function removeSnapshotRefs(repoRoot: string, sessionKey: string): Promise<void> {
+	const { stdout } = await execFileAsync(
+		'git',
+		['for-each-ref', '--format=%(refname)', `${SNAPSHOT_REF_ROOT}/${sessionKey}/`],
+		{ cwd: repoRoot, encoding: 'utf8' },
+	);
+	for (const ref of stdout.split('\n').filter(Boolean)) {
+		await execFileAsync('git', ['update-ref', '-d', ref], { cwd: repoRoot, encoding: 'utf8' });
+	}
+}
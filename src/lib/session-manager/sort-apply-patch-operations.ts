@@ -0,0 +1,15 @@
+import type { ApplyPatchOperation } from '../tooling';
+
+const OPERATION_RANK: Record<ApplyPatchOperation['type'], number> = {
+	delete_file: 0,
+	move_file: 1,
+	update_file: 2,
+	create_file: 3,
+	binary_file: 4,
+};
+
+export function sortApplyPatchOperations(operations: ApplyPatchOperation[]): ApplyPatchOperation[] {
+	return [...operations].sort(
+		(a, b) => OPERATION_RANK[a.type] - OPERATION_RANK[b.type] || a.path.localeCompare(b.path),
+	);
+}
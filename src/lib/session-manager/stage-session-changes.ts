@@ -0,0 +1,19 @@
+import { isDeepStrictEqual } from 'node:util';
+import type { ActiveSession } from './active-session';
+
+// Runs `build` against a copy of the session and only copies the result back when it resolves, so a rejected
+// build (e.g. a stop aborted at the secret prompt) leaves the session exactly as it was. Callers block other
+// session changes while `build` runs; if one slips through anyway, this throws rather than overwrite it.
+export async function stageSessionChanges<T>(
+	session: ActiveSession,
+	build: (staged: ActiveSession) => Promise<T>,
+): Promise<T> {
+	const original = structuredClone(session);
+	const staged = structuredClone(session);
+	const result = await build(staged);
+	if (!isDeepStrictEqual(session, original)) {
+		throw new Error('The session changed while the stop was pending; stop it again to include the new changes.');
+	}
+	Object.assign(session, staged);
+	return result;
+}
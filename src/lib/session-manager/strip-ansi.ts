@@ -0,0 +1,23 @@
+const ANSI_PATTERN = /(?:\u001B[@-Z\\-_]|\u001B\[[0-?]*[ -/]*[@-~]|\u009B[0-?]*[ -/]*[@-~])/g;
+const PARTIAL_ANSI_SUFFIX = /(?:\u001B(?:\[[0-?]*[ -/]*)?|\u009B[0-?]*[ -/]*)$/;
+
+export function stripAnsi(output: string): string {
+	return output.replace(ANSI_PATTERN, '');
+}
+
+export function createAnsiStreamStripper(): { push(chunk: string): string; flush(): string } {
+	let carry = '';
+	return {
+		push(chunk: string): string {
+			const combined = carry + chunk;
+			const partial = combined.match(PARTIAL_ANSI_SUFFIX);
+			carry = partial ? partial[0] : '';
+			return stripAnsi(partial ? combined.slice(0, combined.length - carry.length) : combined);
+		},
+		flush(): string {
+			const rest = stripAnsi(carry);
+			carry = '';
+			return rest;
+		},
+	};
+}
@@ -0,0 +1,154 @@
+export type OutputTruncationStrategy = 'head' | 'head-tail' | 'smart';
+
+export const IMPORTANT_OUTPUT_LINE_PATTERNS: RegExp[] = [
+	/\berror TS\d+:/,
+	/\(\d+,\d+\): (error|warning)\b/,
+	/^\s*\d+:\d+\s+(error|warning)\s/,
+	/^\s*[✖×✗]\s+\d+ problems?\b/,
+	/^\s*(FAIL|✗|×)\s/,
+	/^\s*●\s/,
+	/\bTests?:?\s+.*\d+ failed\b/,
+	/\b(AssertionError|Expected|Received):?/,
+	/\bFailed to compile\b/,
+	/\bType error:/,
+	/\bModule not found\b/,
+	/\b(Error|TypeError|ReferenceError|SyntaxError|ERR_[A-Z_]+):/,
+	/^\s*at .+:\d+:\d+\)?$/,
+	/\b(ERR!|ELIFECYCLE|exit code [1-9])/,
+	/\b(error|warning)\b/i,
+];
+
+const HEAD_SHARE = 0.25;
+const TAIL_SHARE = 0.45;
+const MIN_REPEATED_RUN = 3;
+
+const HEAD_TRUNCATION_MARKER = '\n(truncated)';
+
+function head(output: string, maxChars: number): string {
+	const headChars = maxChars - HEAD_TRUNCATION_MARKER.length;
+	return headChars > 0 ? `${output.slice(0, headChars)}${HEAD_TRUNCATION_MARKER}` : output.slice(0, maxChars);
+}
+
+function headTail(output: string, maxChars: number): string {
+	// The elided count never has more digits than the full length, so this reserves enough for the marker.
+	const keptChars = maxChars - `\n[... ${output.length} chars elided ...]\n`.length;
+	if (keptChars <= 0) {
+		return output.slice(0, maxChars);
+	}
+	const headChars = Math.floor(keptChars * 0.35);
+	const tailChars = keptChars - headChars;
+	const elided = output.length - keptChars;
+	return `${output.slice(0, headChars)}\n[... ${elided} chars elided ...]\n${output.slice(output.length - tailChars)}`;
+}
+
+function collapseProgressLines(lines: string[]): string[] {
+	const visible = lines.map((line) => {
+		const segments = line.split('\r').filter((segment) => segment.length > 0);
+		return segments.length > 0 ? segments[segments.length - 1] : '';
+	});
+	const normalize = (line: string) => line.replace(/\d+/g, '#').trim();
+
+	const collapsed: string[] = [];
+	let index = 0;
+	while (index < visible.length) {
+		let end = index + 1;
+		const key = normalize(visible[index]);
+		while (key && end < visible.length && normalize(visible[end]) === key) {
+			end += 1;
+		}
+		const runLength = end - index;
+		if (runLength >= MIN_REPEATED_RUN) {
+			collapsed.push(visible[index], `[... ${runLength - 2} similar lines collapsed ...]`, visible[end - 1]);
+		} else {
+			collapsed.push(...visible.slice(index, end));
+		}
+		index = end;
+	}
+	return collapsed;
+}
+
+function smart(output: string, maxChars: number): string {
+	const lines = collapseProgressLines(output.split('\n'));
+	const collapsedText = lines.join('\n');
+	if (collapsedText.length <= maxChars) {
+		return collapsedText;
+	}
+
+	// Every kept line and elision marker costs its length plus a newline; the join drops the last newline, so
+	// `used - 1` is the result length. Markers are charged at the widest count they can show.
+	const markerCost = `[... ${lines.length} lines elided ...]`.length + 1;
+	const keep = new Set<number>();
+	let used = markerCost;
+	const isGap = (index: number) => index >= 0 && index < lines.length && !keep.has(index);
+	const take = (index: number, budget: number): boolean => {
+		if (keep.has(index)) {
+			return true;
+		}
+		const markerDelta = (isGap(index - 1) ? 1 : 0) + (isGap(index + 1) ? 1 : 0) - 1;
+		const cost = lines[index].length + 1 + markerDelta * markerCost;
+		if (used + cost > budget + 1) {
+			return false;
+		}
+		keep.add(index);
+		used += cost;
+		return true;
+	};
+
+	const headBudget = Math.floor(maxChars * HEAD_SHARE);
+	let head = 0;
+	while (head < lines.length && take(head, headBudget)) {
+		head += 1;
+	}
+	const tailBudget = used + Math.floor(maxChars * TAIL_SHARE);
+	let tail = lines.length - 1;
+	while (tail >= 0 && take(tail, tailBudget)) {
+		tail -= 1;
+	}
+	for (let index = 0; index < lines.length; index += 1) {
+		if (keep.has(index) || !IMPORTANT_OUTPUT_LINE_PATTERNS.some((pattern) => pattern.test(lines[index]))) {
+			continue;
+		}
+		for (const candidate of [index - 1, index, index + 1]) {
+			if (candidate >= 0 && candidate < lines.length) {
+				take(candidate, maxChars);
+			}
+		}
+	}
+
+	if (keep.size === 0) {
+		return headTail(collapsedText, maxChars);
+	}
+
+	const result: string[] = [];
+	let elided = 0;
+	for (let index = 0; index < lines.length; index += 1) {
+		if (!keep.has(index)) {
+			elided += 1;
+			continue;
+		}
+		if (elided > 0) {
+			result.push(`[... ${elided} lines elided ...]`);
+			elided = 0;
+		}
+		result.push(lines[index]);
+	}
+	if (elided > 0) {
+		result.push(`[... ${elided} lines elided ...]`);
+	}
+	return result.join('\n');
+}
+
+export function truncateCommandOutput(output: string, maxChars: number, strategy: OutputTruncationStrategy): string {
+	if (output.length <= maxChars) {
+		return output;
+	}
+
+	switch (strategy) {
+		case 'head':
+			return head(output, maxChars);
+		case 'head-tail':
+			return headTail(output, maxChars);
+		case 'smart':
+			return smart(output, maxChars);
+	}
+}
@@ -0,0 +1,11 @@
+export type SessionVerificationMismatch = {
+	path: string;
+	reason: string;
+};
+
+export type SessionVerification = {
+	ok: boolean;
+	verifiedAt: string;
+	operationsReplayed: number;
+	mismatches: SessionVerificationMismatch[];
+};
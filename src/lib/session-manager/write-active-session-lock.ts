@@ -0,0 +1,17 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { ActiveSessionLock } from './active-session';
+
+export async function writeActiveSessionLock(lockPath: string): Promise<void> {
+	const lock: ActiveSessionLock = {
+		pid: process.pid,
+		hostname: os.hostname(),
+		heartbeatAt: new Date().toISOString(),
+	};
+
+	await fs.mkdir(path.dirname(lockPath), { recursive: true });
+	const tempPath = `${lockPath}.${process.pid}.tmp`;
+	await fs.writeFile(tempPath, JSON.stringify(lock), 'utf8');
+	await fs.rename(tempPath, lockPath);
+}
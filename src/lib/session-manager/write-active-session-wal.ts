@@ -0,0 +1,23 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { ActiveSession, ActiveSessionWal } from './active-session';
+
+export async function writeActiveSessionWal(
+	walPath: string,
+	session: ActiveSession,
+): Promise<void> {
+	const wal: ActiveSessionWal = {
+		version: 1,
+		updatedAt: new Date().toISOString(),
+		session: {
+			...session,
+			lastSearchResults: Array.from(session.lastSearchResults),
+			readFilesRecorded: Array.from(session.readFilesRecorded),
+		},
+	};
+
+	await fs.mkdir(path.dirname(walPath), { recursive: true });
+	const tempPath = `${walPath}.${process.pid}.tmp`;
+	await fs.writeFile(tempPath, JSON.stringify(wal), 'utf8');
+	await fs.rename(tempPath, walPath);
+}
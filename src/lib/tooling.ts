@@ -1,9 +1,29 @@
-export type ToolName = 'repo.readFile' | 'repo.search' | 'repo.listTree' | 'run_cmd' | 'apply_patch';
+import { matchRunCmdRules } from './run-cmd/match-run-cmd-rules';
+import { isPackageManager, PACKAGE_MANAGERS, type PackageManager } from './run-cmd/package-manager';
+import { parseBunRunCmd } from './run-cmd/parse-bun-run-cmd';
+import { parseNpmRunCmd } from './run-cmd/parse-npm-run-cmd';
+import { parsePnpmRunCmd } from './run-cmd/parse-pnpm-run-cmd';
+import { parseYarnRunCmd } from './run-cmd/parse-yarn-run-cmd';
+import type { RunCmdAllowRule } from './run-cmd/run-cmd-allow-rule';
+import type { EditorDiagnosticSeverity } from './session-manager/format-editor-diagnostics';
+
+export type ToolName =
+	| 'repo.readFile'
+	| 'repo.search'
+	| 'repo.listTree'
+	| 'repo.diagnostics'
+	| 'run_cmd'
+	| 'apply_patch';
 
 export type RepoReadFileArgs = {
 	path: string;
 };
 
+export type RepoDiagnosticsArgs = {
+	minSeverity: EditorDiagnosticSeverity;
+	path?: string;
+};
+
 export type ApplyPatchOperation =
 	| {
 			type: 'create_file';
@@ -18,6 +38,20 @@ export type ApplyPatchOperation =
 	| {
 			type: 'delete_file';
 			path: string;
+	  }
+	| {
+			type: 'move_file';
+			from: string;
+			path: string;
+			diff?: string;
+	  }
+	| {
+			type: 'binary_file';
+			action: 'create' | 'update';
+			path: string;
+			size: number;
+			sha256: string;
+			base64?: string;
 	  };
 
 export type ApplyPatchArgs = {
@@ -29,32 +63,30 @@ export type ApplyPatchArgs = {
 };
 
 export type RunCmdArgs = {
-	cmd: 'pnpm';
+	cmd: PackageManager;
 	args: string[];
 	cwd?: string;
 	timeoutMs?: number;
 	env?: Record<string, string>;
 };
 
-export type AllowedRunCmd =
+export type PresetRunCmd =
 	| { kind: 'lint' | 'test' | 'build'; filter?: string; recursive?: boolean }
 	| { kind: 'install'; filter?: string }
 	| { kind: 'add'; filter?: string; dev: boolean; packages: string[] }
 	| { kind: 'remove'; filter?: string; packages: string[] };
 
-function assertNonEmptyNoSpaceNoDash(value: string, label: string): void {
-	if (!value || /\s/.test(value) || value.startsWith('-')) {
-		throw new Error(`${label} must be non-empty, contain no spaces, and not start with '-'.`);
-	}
-}
-
-function isAllowedCmdWord(value: string): value is 'lint' | 'test' | 'build' {
-	return value === 'lint' || value === 'test' || value === 'build';
-}
+export type ScriptRunCmd = {
+	kind: 'script' | 'exec';
+	name: string;
+	args: string[];
+	filter?: string;
+	recursive?: boolean;
+	rule?: string;
+	validation?: boolean;
+};
 
-function isInstallWord(value: string): value is 'i' | 'install' {
-	return value === 'i' || value === 'install';
-}
+export type AllowedRunCmd = PresetRunCmd | ScriptRunCmd;
 
 export function normalizeRunCmdArgs(input: RunCmdArgs): RunCmdArgs {
 	return {
@@ -66,100 +98,31 @@ export function normalizeRunCmdArgs(input: RunCmdArgs): RunCmdArgs {
 	};
 }
 
-export function parseAllowedRunCmd(input: RunCmdArgs): AllowedRunCmd {
-	if (input.cmd !== 'pnpm') {
-		throw new Error("run_cmd.cmd must be 'pnpm'");
-	}
-
+function parsePresetRunCmd(input: RunCmdArgs): PresetRunCmd {
 	const args = [...input.args];
-
-	function takeFilterPrefix(xs: string[]): { filter?: string; rest: string[] } {
-		if (xs.length >= 2 && xs[0] === '--filter') {
-			const selector = xs[1];
-			assertNonEmptyNoSpaceNoDash(selector, 'filter');
-			return { filter: selector, rest: xs.slice(2) };
-		}
-		return { rest: xs };
-	}
-
-	function takeRecursivePrefix(xs: string[]): { recursive?: boolean; rest: string[] } {
-		if (xs.length >= 1 && xs[0] === '-r') {
-			return { recursive: true, rest: xs.slice(1) };
-		}
-		return { rest: xs };
-	}
-
-	const filterParsed = takeFilterPrefix(args);
-	if (filterParsed.filter) {
-		const rest = filterParsed.rest;
-
-		if (rest.length === 1 && isAllowedCmdWord(rest[0])) {
-			return { kind: rest[0] as 'lint' | 'test' | 'build', filter: filterParsed.filter };
-		}
-
-		if (rest.length === 1 && isInstallWord(rest[0])) {
-			return { kind: 'install', filter: filterParsed.filter };
-		}
-
-		if (rest.length >= 2 && rest[0] === 'add') {
-			const second = rest[1];
-			const dev =
-				second === '-D' || second === '--save-dev' || second === '--save-dev=true';
-			const pkgsStartIndex = dev ? 2 : 1;
-			const pkgs = rest.slice(pkgsStartIndex);
-			if (pkgs.length === 0) {
-				throw new Error('pnpm add requires at least 1 package');
-			}
-			pkgs.forEach((pkg) => assertNonEmptyNoSpaceNoDash(pkg, 'package'));
-			return { kind: 'add', filter: filterParsed.filter, dev, packages: pkgs };
-		}
-
-		if (rest.length >= 2 && rest[0] === 'remove') {
-			const pkgs = rest.slice(1);
-			pkgs.forEach((pkg) => assertNonEmptyNoSpaceNoDash(pkg, 'package'));
-			return { kind: 'remove', filter: filterParsed.filter, packages: pkgs };
-		}
-
-		throw new Error('run_cmd args not in allowlist (filtered)');
-	}
-
-	const recParsed = takeRecursivePrefix(args);
-	if (recParsed.recursive) {
-		const rest = recParsed.rest;
-		if (rest.length === 1 && isAllowedCmdWord(rest[0])) {
-			return { kind: rest[0] as 'lint' | 'test' | 'build', recursive: true };
-		}
-		throw new Error('run_cmd args not in allowlist (-r)');
-	}
-
-	if (args.length === 1 && isAllowedCmdWord(args[0])) {
-		return { kind: args[0] as 'lint' | 'test' | 'build' };
-	}
-
-	if (args.length === 1 && isInstallWord(args[0])) {
-		return { kind: 'install' };
+	switch (input.cmd) {
+		case 'pnpm':
+			return parsePnpmRunCmd(args);
+		case 'npm':
+			return parseNpmRunCmd(args);
+		case 'yarn':
+			return parseYarnRunCmd(args);
+		case 'bun':
+			return parseBunRunCmd(args);
+		default:
+			throw new Error(`run_cmd.cmd must be one of ${PACKAGE_MANAGERS.join(', ')}`);
 	}
+}
 
-	if (args.length >= 2 && args[0] === 'add') {
-		const second = args[1];
-		const dev =
-			second === '-D' || second === '--save-dev' || second === '--save-dev=true';
-		const pkgsStartIndex = dev ? 2 : 1;
-		const pkgs = args.slice(pkgsStartIndex);
-		if (pkgs.length === 0) {
-			throw new Error('pnpm add requires at least 1 package');
+export function parseAllowedRunCmd(input: RunCmdArgs, rules: RunCmdAllowRule[] = []): AllowedRunCmd {
+	try {
+		return parsePresetRunCmd(input);
+	} catch (error) {
+		if (rules.length === 0 || !isPackageManager(input.cmd)) {
+			throw error;
 		}
-		pkgs.forEach((pkg) => assertNonEmptyNoSpaceNoDash(pkg, 'package'));
-		return { kind: 'add', dev, packages: pkgs };
+		return matchRunCmdRules(input.cmd, [...input.args], rules, error instanceof Error ? error.message : String(error));
 	}
-
-	if (args.length >= 2 && args[0] === 'remove') {
-		const pkgs = args.slice(1);
-		pkgs.forEach((pkg) => assertNonEmptyNoSpaceNoDash(pkg, 'package'));
-		return { kind: 'remove', packages: pkgs };
-	}
-
-	throw new Error('run_cmd args not in allowlist');
 }
 
 export type ToolCall = {
@@ -210,6 +173,7 @@ export type TrainingRecord = {
 
 export type StoredSession = {
 	id: string;
+	schemaVersion?: number;
 	taskId: string;
 	repo: {
 		name: string;
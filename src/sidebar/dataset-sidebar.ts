@@ -1,11 +1,17 @@
 import * as vscode from 'vscode';
+import type { PackageManager } from '../lib/run-cmd/package-manager';
+import type { RunCmdOutputEvent } from '../lib/session-manager/run-cmd-output-types';
+import type { RunCmdQueueState } from '../lib/session-manager/run-cmd-queue';
+import type { SessionStatus } from '../lib/session-manager/session-status';
 
 export type SidebarState = {
 	taskId: string;
 	isSessionActive: boolean;
+	packageManager?: PackageManager;
+	runCmd?: RunCmdQueueState;
 	defaultSystemPrompt?: string;
 	lastRecordPath?: string;
-	lastSessionStatus?: 'draft' | 'ready';
+	lastSessionStatus?: SessionStatus;
 	cloudStatus?: 'connected' | 'url-missing' | 'token-missing' | 'unreachable';
 	isCloudChecking?: boolean;
 	lastCloudCheckAt?: string;
@@ -17,7 +23,7 @@ export type SidebarState = {
 		type: 'session' | 'export';
 		path: string;
 		createdAt: string;
-		status?: 'draft' | 'ready';
+		status?: SessionStatus;
 		cloudSessionId?: string;
 	}>;
 };
@@ -31,15 +37,41 @@ type SidebarAction =
 	| { type: 'setApiToken' }
 	| { type: 'checkCloudConnection' }
 	| { type: 'syncLocalSessions' }
+	| { type: 'runScript' }
+	| { type: 'cancelRunCmd'; payload?: { queuedId?: number } }
 	| {
 			type: 'startSession';
 			payload?: {
 				systemPrompt?: string;
 				userPrompt?: string;
+				snapshotDirtyWorkingTree?: boolean;
 			};
 	  }
+	| {
+			type: 'startSessionInWorktree';
+			payload: {
+				systemPrompt?: string;
+				userPrompt?: string;
+				ref: string;
+			};
+	  }
+	| {
+			type: 'mineCommits';
+			payload: {
+				range: string;
+			};
+	  }
+	| {
+			type: 'addUserTurn';
+			payload: {
+				userMessage: string;
+				assistantReply?: string;
+			};
+	  }
+	| { type: 'addAssistantMessage'; payload: { content: string } }
 	| { type: 'submitFileChanges' }
-	| { type: 'stopSessionUpload' }
+	| { type: 'recordDiagnostics' }
+	| { type: 'stopSessionUpload'; payload?: { finalSummary?: string } }
 	| {
 			type: 'runPnpmCommand';
 			payload: {
@@ -73,6 +105,7 @@ type SidebarAction =
 	| { type: 'importJsonlUpdates' }
 	| { type: 'openRecentArtifact'; payload: { path: string } }
 	| { type: 'deleteRecentArtifact'; payload: { path: string } }
+	| { type: 'verifyRecentArtifact'; payload: { path: string } }
 	| { type: 'discardSession' };
 
 export class DatasetSidebarProvider implements vscode.WebviewViewProvider {
@@ -120,6 +153,16 @@ export class DatasetSidebarProvider implements vscode.WebviewViewProvider {
 		});
 	}
 
+	public postRunCmdOutput(event: RunCmdOutputEvent): void {
+		if (!this.view) {
+			return;
+		}
+		void this.view.webview.postMessage({
+			type: 'runCmdOutput',
+			payload: event,
+		});
+	}
+
 	private parseAction(raw: unknown): SidebarAction | undefined {
 		if (!raw || typeof raw !== 'object') {
 			return undefined;
@@ -140,15 +183,23 @@ export class DatasetSidebarProvider implements vscode.WebviewViewProvider {
 			case 'checkCloudConnection':
 			case 'syncLocalSessions':
 			case 'startSession':
+			case 'startSessionInWorktree':
+			case 'mineCommits':
+			case 'addUserTurn':
+			case 'addAssistantMessage':
 			case 'submitFileChanges':
+			case 'recordDiagnostics':
 			case 'stopSessionUpload':
 			case 'runPnpmCommand':
+			case 'runScript':
+			case 'cancelRunCmd':
 			case 'searchRepo':
 			case 'listDirectoryFiles':
 			case 'exportTaskJsonl':
 			case 'importJsonlUpdates':
 			case 'openRecentArtifact':
 			case 'deleteRecentArtifact':
+			case 'verifyRecentArtifact':
 			case 'discardSession':
 				if (maybeType === 'startSession') {
 					const payload = (raw as { payload?: unknown }).payload;
@@ -156,13 +207,98 @@ export class DatasetSidebarProvider implements vscode.WebviewViewProvider {
 						return { type: 'startSession' };
 					}
 
-					const typed = payload as { systemPrompt?: unknown; userPrompt?: unknown };
+					const typed = payload as {
+						systemPrompt?: unknown;
+						userPrompt?: unknown;
+						snapshotDirtyWorkingTree?: unknown;
+					};
 					return {
 						type: 'startSession',
 						payload: {
 							systemPrompt:
 								typeof typed.systemPrompt === 'string' ? typed.systemPrompt : undefined,
 							userPrompt: typeof typed.userPrompt === 'string' ? typed.userPrompt : undefined,
+							snapshotDirtyWorkingTree:
+								typeof typed.snapshotDirtyWorkingTree === 'boolean'
+									? typed.snapshotDirtyWorkingTree
+									: undefined,
+						},
+					};
+				}
+
+				if (maybeType === 'startSessionInWorktree') {
+					const payload = (raw as { payload?: unknown }).payload;
+					if (!payload || typeof payload !== 'object') {
+						return undefined;
+					}
+					const typed = payload as { systemPrompt?: unknown; userPrompt?: unknown; ref?: unknown };
+					if (typeof typed.ref !== 'string' || typed.ref.trim().length === 0) {
+						return undefined;
+					}
+					return {
+						type: 'startSessionInWorktree',
+						payload: {
+							systemPrompt:
+								typeof typed.systemPrompt === 'string' ? typed.systemPrompt : undefined,
+							userPrompt: typeof typed.userPrompt === 'string' ? typed.userPrompt : undefined,
+							ref: typed.ref,
+						},
+					};
+				}
+
+				if (maybeType === 'mineCommits') {
+					const payload = (raw as { payload?: unknown }).payload;
+					if (!payload || typeof payload !== 'object') {
+						return undefined;
+					}
+					const typed = payload as { range?: unknown };
+					if (typeof typed.range !== 'string' || typed.range.trim().length === 0) {
+						return undefined;
+					}
+					return { type: 'mineCommits', payload: { range: typed.range } };
+				}
+
+				if (maybeType === 'addUserTurn') {
+					const payload = (raw as { payload?: unknown }).payload;
+					if (!payload || typeof payload !== 'object') {
+						return undefined;
+					}
+					const typed = payload as { userMessage?: unknown; assistantReply?: unknown };
+					if (typeof typed.userMessage !== 'string' || typed.userMessage.trim().length === 0) {
+						return undefined;
+					}
+					return {
+						type: 'addUserTurn',
+						payload: {
+							userMessage: typed.userMessage,
+							assistantReply:
+								typeof typed.assistantReply === 'string' ? typed.assistantReply : undefined,
+						},
+					};
+				}
+
+				if (maybeType === 'addAssistantMessage') {
+					const payload = (raw as { payload?: unknown }).payload;
+					if (!payload || typeof payload !== 'object') {
+						return undefined;
+					}
+					const content = (payload as { content?: unknown }).content;
+					if (typeof content !== 'string' || content.trim().length === 0) {
+						return undefined;
+					}
+					return { type: 'addAssistantMessage', payload: { content } };
+				}
+
+				if (maybeType === 'stopSessionUpload') {
+					const payload = (raw as { payload?: unknown }).payload;
+					if (!payload || typeof payload !== 'object') {
+						return { type: 'stopSessionUpload' };
+					}
+					const finalSummary = (payload as { finalSummary?: unknown }).finalSummary;
+					return {
+						type: 'stopSessionUpload',
+						payload: {
+							finalSummary: typeof finalSummary === 'string' ? finalSummary : undefined,
 						},
 					};
 				}
@@ -267,6 +403,26 @@ export class DatasetSidebarProvider implements vscode.WebviewViewProvider {
 					}
 					return { type: 'deleteRecentArtifact', payload: { path } };
 				}
+				if (maybeType === 'verifyRecentArtifact') {
+					const payload = (raw as { payload?: unknown }).payload;
+					if (!payload || typeof payload !== 'object') {
+						return undefined;
+					}
+					const path = (payload as { path?: unknown }).path;
+					if (typeof path !== 'string' || path.length === 0) {
+						return undefined;
+					}
+					return { type: 'verifyRecentArtifact', payload: { path } };
+				}
+				if (maybeType === 'cancelRunCmd') {
+					const payload = (raw as { payload?: unknown }).payload;
+					const queuedId =
+						payload && typeof payload === 'object' ? (payload as { queuedId?: unknown }).queuedId : undefined;
+					return {
+						type: 'cancelRunCmd',
+						payload: { queuedId: typeof queuedId === 'number' ? queuedId : undefined },
+					};
+				}
 				return { type: maybeType };
 			default:
 				return undefined;
@@ -321,13 +477,55 @@ export class DatasetSidebarProvider implements vscode.WebviewViewProvider {
 				return;
 			}
 
+			if (action.type === 'verifyRecentArtifact') {
+				await vscode.commands.executeCommand('dataset.verifySession', action.payload.path);
+				this.refresh();
+				return;
+			}
+
+			if (action.type === 'cancelRunCmd') {
+				await vscode.commands.executeCommand('dataset.cancelRunCmd', action.payload);
+				this.refresh();
+				return;
+			}
+
 			if (action.type === 'startSession') {
 				await vscode.commands.executeCommand('dataset.startSession', action.payload);
 				this.refresh();
 				return;
 			}
 
-			const commandByAction: Record<Exclude<SidebarAction['type'], 'ready' | 'runPnpmCommand' | 'searchRepo' | 'listDirectoryFiles' | 'exportTaskJsonl' | 'importJsonlUpdates' | 'openRecentArtifact' | 'deleteRecentArtifact' | 'startSession'>, string> = {
+			if (action.type === 'startSessionInWorktree') {
+				await vscode.commands.executeCommand('dataset.startSessionInWorktree', action.payload);
+				this.refresh();
+				return;
+			}
+
+			if (action.type === 'mineCommits') {
+				await vscode.commands.executeCommand('dataset.mineCommits', action.payload);
+				this.refresh();
+				return;
+			}
+
+			if (action.type === 'addUserTurn') {
+				await vscode.commands.executeCommand('dataset.addUserTurn', action.payload);
+				this.refresh();
+				return;
+			}
+
+			if (action.type === 'addAssistantMessage') {
+				await vscode.commands.executeCommand('dataset.addAssistantMessage', action.payload);
+				this.refresh();
+				return;
+			}
+
+			if (action.type === 'stopSessionUpload') {
+				await vscode.commands.executeCommand('dataset.stopSessionUpload', action.payload);
+				this.refresh();
+				return;
+			}
+
+			const commandByAction: Record<Exclude<SidebarAction['type'], 'ready' | 'runPnpmCommand' | 'cancelRunCmd' | 'searchRepo' | 'listDirectoryFiles' | 'exportTaskJsonl' | 'importJsonlUpdates' | 'openRecentArtifact' | 'deleteRecentArtifact' | 'verifyRecentArtifact' | 'startSession' | 'startSessionInWorktree' | 'mineCommits' | 'addUserTurn' | 'addAssistantMessage' | 'stopSessionUpload'>, string> = {
 				selectTask: 'dataset.selectTask',
 				createTask: 'dataset.createTask',
 				setupCloud: 'dataset.setupCloud',
@@ -336,7 +534,8 @@ export class DatasetSidebarProvider implements vscode.WebviewViewProvider {
 				checkCloudConnection: 'dataset.checkCloudConnection',
 				syncLocalSessions: 'dataset.syncLocalSessions',
 				submitFileChanges: 'dataset.submitFileChanges',
-				stopSessionUpload: 'dataset.stopSessionUpload',
+				recordDiagnostics: 'dataset.recordDiagnostics',
+				runScript: 'dataset.runScript',
 				discardSession: 'dataset.discardSession',
 			};
 
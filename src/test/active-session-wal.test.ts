@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { ActiveSession } from '../lib/session-manager/active-session';
+import { readActiveSessionWal } from '../lib/session-manager/read-active-session-wal';
+import { writeActiveSessionWal } from '../lib/session-manager/write-active-session-wal';
+import { readActiveSessionLock } from '../lib/session-manager/read-active-session-lock';
+import { writeActiveSessionLock } from '../lib/session-manager/write-active-session-lock';
+
+suite('active session WAL', () => {
+	let dir: string;
+
+	setup(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dataset-wal-test-'));
+	});
+
+	teardown(async () => {
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	test('round-trips a session including its set fields', async () => {
+		const session: ActiveSession = {
+			taskId: 'task-1',
+			systemPrompt: 'system',
+			userPrompt: 'user',
+			repos: [],
+			commandsRun: ['pnpm test'],
+			runCmdEvents: [],
+			record: { messages: [{ role: 'user', content: 'user' }] },
+			callSeq: 3,
+			checkpointCount: 1,
+			startedAt: '2025-01-01T00:00:00.000Z',
+			lastSearchResults: new Set(['src/a.ts']),
+			readFilesRecorded: new Set(['src/b.ts']),
+		};
+		const walPath = path.join(dir, 'nested', 'session.json');
+
+		await writeActiveSessionWal(walPath, session);
+		const wal = await readActiveSessionWal(walPath);
+
+		assert.ok(wal);
+		assert.ok(wal.updatedAt);
+		assert.deepStrictEqual(wal.session, session);
+	});
+
+	test('returns undefined for a missing WAL and rejects an unknown version', async () => {
+		assert.strictEqual(await readActiveSessionWal(path.join(dir, 'missing.json')), undefined);
+
+		const walPath = path.join(dir, 'future.json');
+		await fs.writeFile(walPath, JSON.stringify({ version: 2, session: {} }), 'utf8');
+		await assert.rejects(readActiveSessionWal(walPath), /Unrecognized active session log/);
+	});
+
+	test('records the owning process in the lock file', async () => {
+		const lockPath = path.join(dir, 'session.lock');
+		await writeActiveSessionLock(lockPath);
+
+		const lock = await readActiveSessionLock(lockPath);
+		assert.strictEqual(lock?.pid, process.pid);
+		assert.strictEqual(lock?.hostname, os.hostname());
+		assert.strictEqual(await readActiveSessionLock(path.join(dir, 'missing.lock')), undefined);
+	});
+});
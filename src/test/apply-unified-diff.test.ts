@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { applyUnifiedDiff } from '../lib/session-manager/apply-unified-diff';
+
+suite('applyUnifiedDiff', () => {
+	test('applies context, removed and added lines', () => {
+		const original = 'one\ntwo\nthree\nfour\n';
+		const diff = '@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n';
+
+		assert.strictEqual(applyUnifiedDiff(original, diff), 'one\nTWO\nthree\nfour\n');
+	});
+
+	test('applies several hunks in order', () => {
+		const original = 'a\nb\nc\nd\ne\nf\n';
+		const diff = '@@ -1,2 +1,2 @@\n-a\n+A\n b\n@@ -5,2 +5,3 @@\n e\n f\n+g\n';
+
+		assert.strictEqual(applyUnifiedDiff(original, diff), 'A\nb\nc\nd\ne\nf\ng\n');
+	});
+
+	test('inserts into an empty file', () => {
+		assert.strictEqual(applyUnifiedDiff('', '@@ -0,0 +1,2 @@\n+x\n+y\n'), 'x\ny\n');
+	});
+
+	test('honours missing trailing newline markers', () => {
+		const removeNewline = '@@ -1 +1 @@\n-a\n+a\n\\ No newline at end of file\n';
+		assert.strictEqual(applyUnifiedDiff('a\n', removeNewline), 'a');
+
+		const addNewline = '@@ -1 +1 @@\n-a\n\\ No newline at end of file\n+a\n';
+		assert.strictEqual(applyUnifiedDiff('a', addNewline), 'a\n');
+	});
+
+	test('rejects hunks whose context does not match', () => {
+		assert.throws(() => applyUnifiedDiff('a\nb\n', '@@ -1,2 +1,2 @@\n a\n-c\n+d\n'), /expects "c" at line 2/);
+	});
+
+	test('rejects hunks with wrong line counts and missing headers', () => {
+		assert.throws(() => applyUnifiedDiff('a\n', '@@ -1,2 +1,1 @@\n a\n'), /declares -2\/\+1/);
+		assert.throws(() => applyUnifiedDiff('a\n', ' a\n'), /Expected a hunk header/);
+	});
+});
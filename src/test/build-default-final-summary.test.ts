@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { buildDefaultFinalSummary } from '../lib/session-manager/build-default-final-summary';
+
+suite('buildDefaultFinalSummary', () => {
+	test('lists changed files and the last validation command', () => {
+		const summary = buildDefaultFinalSummary(
+			{ created: ['src/new.ts'], updated: ['src/a.ts', 'src/b.ts'], deleted: ['old.ts'], moved: [] },
+			{ command: 'pnpm test', failed: false },
+		);
+
+		assert.strictEqual(
+			summary,
+			'Created `src/new.ts`; updated `src/a.ts`, `src/b.ts`; deleted `old.ts`. `pnpm test` passed.',
+		);
+	});
+
+	test('describes moves and failing validation', () => {
+		const summary = buildDefaultFinalSummary(
+			{ created: [], updated: [], deleted: [], moved: [{ from: 'a.ts', to: 'b.ts' }] },
+			{ command: 'pnpm lint', failed: true },
+		);
+
+		assert.strictEqual(summary, 'Moved `a.ts` to `b.ts`. `pnpm lint` failed.');
+	});
+
+	test('falls back when nothing changed and nothing ran', () => {
+		assert.strictEqual(
+			buildDefaultFinalSummary({ created: [], updated: [], deleted: [], moved: [] }),
+			'No file changes were needed. No validation command was run.',
+		);
+	});
+});
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import {
+	addApplyPatch,
+	makeSystem,
+	makeToolCallMessage,
+	makeToolResultMessage,
+	makeUser,
+} from '../lib/record-builders';
+import { buildUpdateDiff, type UpdateDiffSource } from '../lib/session-manager/build-update-diff';
+import { reconstructRecordedContent } from '../lib/session-manager/reconstruct-recorded-content';
+import type { TrainingRecord } from '../lib/tooling';
+
+const execFileAsync = promisify(execFile);
+
+const lines = (...values: string[]) => `${values.join('\n')}\n`;
+const BEFORE = lines('one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten');
+const AFTER = lines('one', 'TWO', 'three', 'four', 'five', 'six', 'seven', 'eight', 'NINE', 'ten');
+
+suite('buildUpdateDiff', () => {
+	let repoRoot: string;
+	let fromRef: string;
+	let toRef: string;
+
+	const git = async (...args: string[]) => {
+		const { stdout } = await execFileAsync('git', args, { cwd: repoRoot, encoding: 'utf8' });
+		return stdout;
+	};
+	const commit = async (content: string) => {
+		await fs.writeFile(path.join(repoRoot, 'a.txt'), content);
+		await git('add', 'a.txt');
+		await git('-c', 'user.name=test', '-c', 'user.email=test@localhost', 'commit', '-qm', 'change');
+		return (await git('rev-parse', 'HEAD')).trim();
+	};
+	const source = (recordedContent: string | undefined, contextLines: number): UpdateDiffSource => ({
+		recordedPath: 'a.txt',
+		recordedContent,
+		contextLines,
+		diffWithContext: async (count) => {
+			const diff = await git('diff', `-U${count}`, fromRef, toRef);
+			return diff.slice(Math.max(diff.indexOf('@@'), 0));
+		},
+	});
+	const recordWithRead = (content: string): TrainingRecord => ({
+		messages: [
+			makeSystem('system'),
+			makeUser('task'),
+			makeToolCallMessage('read_1', 'repo.readFile', { path: 'a.txt' }),
+			makeToolResultMessage('read_1', content),
+		],
+	});
+
+	suiteSetup(async () => {
+		repoRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'dataset-update-diff-'));
+		await git('init', '-q');
+		fromRef = await commit(BEFORE);
+		toRef = await commit(AFTER);
+	});
+
+	suiteTeardown(async () => {
+		await fs.rm(repoRoot, { recursive: true, force: true });
+	});
+
+	test('records a context-line diff that replays onto the recorded read', async () => {
+		const warnings: string[] = [];
+		const diff = await buildUpdateDiff(source(BEFORE, 1), warnings);
+
+		assert.strictEqual(diff.match(/^@@/gm)?.length, 2);
+		assert.ok(!diff.includes(' five'));
+		assert.deepStrictEqual(warnings, []);
+
+		const record = recordWithRead(BEFORE);
+		addApplyPatch(record, 'apply_patch_2', {
+			data: { action: { operations: [{ type: 'update_file', path: 'a.txt', diff }] } },
+		});
+		assert.strictEqual(reconstructRecordedContent(record, 'a.txt'), AFTER);
+	});
+
+	test('uses the whole-file diff when no read was recorded or context lines are off', async () => {
+		const warnings: string[] = [];
+		const diffs = [
+			await buildUpdateDiff(source(undefined, 1), warnings),
+			await buildUpdateDiff(source(BEFORE, -1), warnings),
+		];
+
+		for (const diff of diffs) {
+			assert.strictEqual(diff.match(/^@@/gm)?.length, 1);
+			assert.ok(diff.includes(' five'));
+		}
+		assert.deepStrictEqual(warnings, []);
+	});
+
+	test('falls back to the whole-file diff and warns when the context diff does not apply', async () => {
+		const warnings: string[] = [];
+		const diff = await buildUpdateDiff(source(lines('stale'), 1), warnings);
+
+		assert.ok(diff.startsWith('@@ -1,10 +1,10 @@'));
+		assert.deepStrictEqual(warnings, ['a.txt: patch does not apply to the repo.readFile content recorded earlier.']);
+	});
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import {
+	addApplyPatch,
+	makeSystem,
+	makeToolCallMessage,
+	makeToolResultMessage,
+	makeUser,
+} from '../lib/record-builders';
+import { captureWorkingTreeSnapshot } from '../lib/session-manager/capture-working-tree-snapshot';
+import { reconstructRecordedContent } from '../lib/session-manager/reconstruct-recorded-content';
+import type { TrainingRecord } from '../lib/tooling';
+
+const execFileAsync = promisify(execFile);
+
+suite('captureWorkingTreeSnapshot', () => {
+	let repoRoot: string;
+
+	const git = async (...args: string[]) => {
+		const { stdout } = await execFileAsync('git', args, { cwd: repoRoot, encoding: 'utf8' });
+		return stdout.trim();
+	};
+	const write = (file: string, content: string) => fs.writeFile(path.join(repoRoot, file), content);
+	const show = async (ref: string, file: string) => `${await git('show', `${ref}:${file}`)}\n`;
+	const update = async (fromRef: string, toRef: string, file: string) => ({
+		type: 'update_file' as const,
+		path: file,
+		diff: await hunks(fromRef, toRef, file),
+	});
+	const hunks = async (fromRef: string, toRef: string, file: string) => {
+		const diff = await git('diff', '-U1', fromRef, toRef, '--', file);
+		return `${diff.slice(diff.indexOf('@@'))}\n`;
+	};
+
+	setup(async () => {
+		repoRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'dataset-checkpoints-'));
+		await git('init', '-q');
+		await write('a.txt', 'a1\na2\na3\n');
+		await write('b.txt', 'b1\nb2\nb3\n');
+		await git('add', '.');
+		await git('-c', 'user.name=test', '-c', 'user.email=test@localhost', 'commit', '-qm', 'init');
+	});
+
+	teardown(async () => {
+		await fs.rm(repoRoot, { recursive: true, force: true });
+	});
+
+	test('diffs each checkpoint against the previous one and replays them in order', async () => {
+		const head = await git('rev-parse', 'HEAD');
+		await write('a.txt', 'a1\nA2\na3\n');
+		const first = await captureWorkingTreeSnapshot(repoRoot, head, 'checkpoint 1', 'refs/dataset/test/1');
+		await write('b.txt', 'b1\nb2\nB3\n');
+		await write('c.txt', 'c1\n');
+		const second = await captureWorkingTreeSnapshot(repoRoot, first, 'checkpoint 2', 'refs/dataset/test/2');
+
+		assert.strictEqual(await git('diff', '--name-status', head, first), 'M\ta.txt');
+		assert.strictEqual(await git('diff', '--name-status', first, second), 'M\tb.txt\nA\tc.txt');
+		assert.strictEqual(await git('rev-parse', `${second}^`), first);
+
+		const record: TrainingRecord = { messages: [makeSystem('system'), makeUser('task')] };
+		for (const [callId, file] of [['read_1', 'a.txt'], ['read_2', 'b.txt']]) {
+			record.messages.push(makeToolCallMessage(callId, 'repo.readFile', { path: file }));
+			record.messages.push(makeToolResultMessage(callId, await show(head, file)));
+		}
+		addApplyPatch(record, 'apply_patch_3', {
+			data: { action: { operations: [await update(head, first, 'a.txt')] } },
+		});
+		addApplyPatch(record, 'apply_patch_4', {
+			data: {
+				action: {
+					operations: [
+						await update(first, second, 'b.txt'),
+						{ type: 'create_file', path: 'c.txt', diff: await show(second, 'c.txt') },
+					],
+				},
+			},
+		});
+
+		assert.strictEqual(reconstructRecordedContent(record, 'a.txt'), 'a1\nA2\na3\n');
+		assert.strictEqual(reconstructRecordedContent(record, 'b.txt'), 'b1\nb2\nB3\n');
+		assert.strictEqual(reconstructRecordedContent(record, 'c.txt'), 'c1\n');
+	});
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { addApplyPatch, makeSystem } from '../lib/record-builders';
+import type { ApplyPatchOperation, TrainingRecord } from '../lib/tooling';
+import { collectPatchedPaths } from '../lib/session-manager/collect-patched-paths';
+
+function recordWithPatches(...checkpoints: ApplyPatchOperation[][]): TrainingRecord {
+	const record: TrainingRecord = { messages: [makeSystem('system')] };
+	checkpoints.forEach((operations, index) => {
+		addApplyPatch(record, `call_${index}`, { data: { action: { operations } } });
+	});
+	return record;
+}
+
+suite('collectPatchedPaths', () => {
+	test('groups operations by kind and sorts paths', () => {
+		const record = recordWithPatches([
+			{ type: 'update_file', path: 'src/z.ts', diff: '@@' },
+			{ type: 'create_file', path: 'src/new.ts', diff: '+x' },
+			{ type: 'update_file', path: 'src/a.ts', diff: '@@' },
+			{ type: 'delete_file', path: 'old.ts' },
+		]);
+
+		assert.deepStrictEqual(collectPatchedPaths(record), {
+			created: ['src/new.ts'],
+			updated: ['src/a.ts', 'src/z.ts'],
+			deleted: ['old.ts'],
+			moved: [],
+		});
+	});
+
+	test('folds later checkpoints into the net change per file', () => {
+		const record = recordWithPatches(
+			[
+				{ type: 'create_file', path: 'tmp.ts', diff: '+x' },
+				{ type: 'create_file', path: 'kept.ts', diff: '+x' },
+				{ type: 'delete_file', path: 'replaced.ts' },
+			],
+			[
+				{ type: 'update_file', path: 'kept.ts', diff: '@@' },
+				{ type: 'delete_file', path: 'tmp.ts' },
+				{ type: 'create_file', path: 'replaced.ts', diff: '+y' },
+			],
+		);
+
+		assert.deepStrictEqual(collectPatchedPaths(record), {
+			created: ['kept.ts'],
+			updated: ['replaced.ts'],
+			deleted: [],
+			moved: [],
+		});
+	});
+
+	test('counts binary files as created or updated', () => {
+		const record = recordWithPatches([
+			{ type: 'binary_file', action: 'create', path: 'logo.png', size: 10, sha256: 'a' },
+			{ type: 'binary_file', action: 'update', path: 'icon.png', size: 12, sha256: 'b' },
+		]);
+
+		assert.deepStrictEqual(collectPatchedPaths(record), {
+			created: ['logo.png'],
+			updated: ['icon.png'],
+			deleted: [],
+			moved: [],
+		});
+	});
+
+	test('reports a rename as a move from its original path', () => {
+		const record = recordWithPatches(
+			[{ type: 'move_file', from: 'src/old.ts', path: 'src/mid.ts' }],
+			[{ type: 'move_file', from: 'src/mid.ts', path: 'src/new.ts', diff: '@@' }],
+		);
+
+		assert.deepStrictEqual(collectPatchedPaths(record), {
+			created: [],
+			updated: [],
+			deleted: [],
+			moved: [{ from: 'src/old.ts', to: 'src/new.ts' }],
+		});
+	});
+
+	test('collapses moves of new files, round trips and deleted targets', () => {
+		const record = recordWithPatches(
+			[
+				{ type: 'create_file', path: 'draft.ts', diff: '+x' },
+				{ type: 'move_file', from: 'a.ts', path: 'b.ts' },
+				{ type: 'move_file', from: 'gone.ts', path: 'tmp.ts' },
+			],
+			[
+				{ type: 'move_file', from: 'draft.ts', path: 'final.ts' },
+				{ type: 'move_file', from: 'b.ts', path: 'a.ts', diff: '@@' },
+				{ type: 'delete_file', path: 'tmp.ts' },
+			],
+		);
+
+		assert.deepStrictEqual(collectPatchedPaths(record), {
+			created: ['final.ts'],
+			updated: ['a.ts'],
+			deleted: ['gone.ts'],
+			moved: [],
+		});
+	});
+});
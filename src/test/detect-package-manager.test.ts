@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { detectPackageManager } from '../lib/run-cmd/detect-package-manager';
+
+suite('detectPackageManager', () => {
+	let root: string;
+
+	setup(async () => {
+		root = await fs.mkdtemp(path.join(os.tmpdir(), 'dataset-pm-test-'));
+		await fs.mkdir(path.join(root, 'packages', 'web'), { recursive: true });
+	});
+
+	teardown(async () => {
+		await fs.rm(root, { recursive: true, force: true });
+	});
+
+	test('prefers the packageManager field over lockfiles', async () => {
+		await fs.writeFile(path.join(root, 'package.json'), JSON.stringify({ packageManager: 'yarn@4.1.0' }));
+		await fs.writeFile(path.join(root, 'package-lock.json'), '{}');
+
+		const detected = await detectPackageManager(root, root);
+		assert.deepStrictEqual(detected, { manager: 'yarn', source: path.join(root, 'package.json') });
+	});
+
+	test('walks up from the cwd to the nearest lockfile', async () => {
+		await fs.writeFile(path.join(root, 'bun.lockb'), '');
+
+		const detected = await detectPackageManager(path.join(root, 'packages', 'web'), root);
+		assert.deepStrictEqual(detected, { manager: 'bun', source: path.join(root, 'bun.lockb') });
+	});
+
+	test('defaults to pnpm without any signal inside the repo', async () => {
+		assert.deepStrictEqual(await detectPackageManager(path.join(root, 'packages', 'web'), root), {
+			manager: 'pnpm',
+			source: 'default',
+		});
+	});
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { addRunCmd, makeSystem, makeToolCallMessage, makeToolResultMessage } from '../lib/record-builders';
+import {
+	formatEditorDiagnostics,
+	NO_EDITOR_DIAGNOSTICS,
+	type EditorDiagnostic,
+} from '../lib/session-manager/format-editor-diagnostics';
+import { isRepeatedDiagnosticsResult } from '../lib/session-manager/is-repeated-diagnostics-result';
+import type { RepoDiagnosticsArgs, TrainingRecord } from '../lib/tooling';
+
+const diagnostic = (path: string, line: number, severity: EditorDiagnostic['severity'] = 'error'): EditorDiagnostic => ({
+	path,
+	line,
+	column: 1,
+	severity,
+	message: 'Broken.',
+});
+
+suite('formatEditorDiagnostics', () => {
+	test('sorts by path and position and labels source and code', () => {
+		assert.strictEqual(
+			formatEditorDiagnostics(
+				[
+					{ ...diagnostic('src/b.ts', 1), source: 'ts', code: '2322', message: 'Type\n  mismatch.' },
+					{ ...diagnostic('src/a.ts', 9, 'warning'), source: 'eslint' },
+					{ ...diagnostic('src/a.ts', 2), code: 'E1' },
+				],
+				10,
+			),
+			[
+				'src/a.ts:2:1 error E1: Broken.',
+				'src/a.ts:9:1 warning eslint: Broken.',
+				'src/b.ts:1:1 error ts(2322): Type mismatch.',
+			].join('\n'),
+		);
+	});
+
+	test('limits the listed entries and reports the rest', () => {
+		assert.strictEqual(
+			formatEditorDiagnostics([diagnostic('c.ts', 1), diagnostic('a.ts', 1), diagnostic('b.ts', 1)], 2),
+			'a.ts:1:1 error: Broken.\nb.ts:1:1 error: Broken.\n[... 1 more diagnostics omitted ...]',
+		);
+	});
+
+	test('reports an empty list explicitly', () => {
+		assert.strictEqual(formatEditorDiagnostics([], 10), NO_EDITOR_DIAGNOSTICS);
+	});
+});
+
+suite('isRepeatedDiagnosticsResult', () => {
+	const recordWithDiagnostics = (args: RepoDiagnosticsArgs, content: string): TrainingRecord => {
+		const record: TrainingRecord = { messages: [makeSystem('system')] };
+		record.messages.push(makeToolCallMessage('diagnostics_1', 'repo.diagnostics', args));
+		record.messages.push(makeToolResultMessage('diagnostics_1', content));
+		return record;
+	};
+
+	test('skips an empty first snapshot', () => {
+		const record: TrainingRecord = { messages: [makeSystem('system')] };
+
+		assert.strictEqual(isRepeatedDiagnosticsResult(record, { minSeverity: 'warning' }, NO_EDITOR_DIAGNOSTICS), true);
+		assert.strictEqual(isRepeatedDiagnosticsResult(record, { minSeverity: 'warning' }, 'a.ts:1:1 error: Broken.'), false);
+	});
+
+	test('repeats only when args and content both match the last snapshot', () => {
+		const content = 'a.ts:1:1 error: Broken.';
+		const record = recordWithDiagnostics({ minSeverity: 'warning' }, content);
+		addRunCmd(record, 'run_1', { cmd: 'pnpm', args: ['test'] }, 'ok');
+
+		assert.strictEqual(isRepeatedDiagnosticsResult(record, { minSeverity: 'warning' }, content), true);
+		assert.strictEqual(isRepeatedDiagnosticsResult(record, { minSeverity: 'warning' }, 'b.ts:1:1 error: Broken.'), false);
+		assert.strictEqual(isRepeatedDiagnosticsResult(record, { minSeverity: 'error' }, content), false);
+		assert.strictEqual(isRepeatedDiagnosticsResult(record, { minSeverity: 'warning', path: 'src' }, content), false);
+	});
+
+	test('compares against the latest snapshot only', () => {
+		const record = recordWithDiagnostics({ minSeverity: 'warning', path: 'src' }, 'old');
+		record.messages.push(makeToolCallMessage('diagnostics_2', 'repo.diagnostics', { minSeverity: 'warning' }));
+		record.messages.push(makeToolResultMessage('diagnostics_2', 'new'));
+
+		assert.strictEqual(isRepeatedDiagnosticsResult(record, { minSeverity: 'warning', path: 'src' }, 'old'), false);
+		assert.strictEqual(isRepeatedDiagnosticsResult(record, { minSeverity: 'warning' }, 'new'), true);
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { formatRunCmdResult } from '../lib/session-manager/format-run-cmd-result';
+
+const result = {
+	failed: true,
+	exitCode: 1,
+	signal: null,
+	timedOut: false,
+	cancelled: false,
+	startedAt: '2025-01-01T00:00:00.000Z',
+	durationMs: 1234,
+};
+
+suite('formatRunCmdResult', () => {
+	test('returns plain output in text mode', () => {
+		assert.strictEqual(formatRunCmdResult('boom', result, 'text'), 'boom');
+	});
+
+	test('appends the status line in text-with-status mode', () => {
+		assert.strictEqual(formatRunCmdResult('boom', result, 'text-with-status'), 'boom\n[exit code 1, 1.2s]');
+		assert.strictEqual(
+			formatRunCmdResult('', { ...result, exitCode: null, timedOut: true }, 'text-with-status'),
+			'\n[timed out, 1.2s]',
+		);
+		assert.strictEqual(
+			formatRunCmdResult('', { ...result, exitCode: null, signal: 'SIGKILL' }, 'text-with-status'),
+			'\n[signal SIGKILL, 1.2s]',
+		);
+	});
+
+	test('serializes status fields in json mode', () => {
+		assert.deepStrictEqual(JSON.parse(formatRunCmdResult('boom', result, 'json')), {
+			exitCode: 1,
+			signal: null,
+			timedOut: false,
+			cancelled: false,
+			durationMs: 1234,
+			output: 'boom',
+		});
+	});
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import {
+	ACTIVE_SESSION_LOCK_TTL_MS,
+	isActiveSessionLockLive,
+	type ActiveSessionLockHost,
+} from '../lib/session-manager/is-active-session-lock-live';
+
+const now = Date.parse('2025-01-01T12:00:00.000Z');
+
+function host(overrides: Partial<ActiveSessionLockHost> = {}): ActiveSessionLockHost {
+	return { pid: 100, hostname: 'devbox', now, isProcessAlive: () => true, ...overrides };
+}
+
+suite('isActiveSessionLockLive', () => {
+	const fresh = { pid: 200, hostname: 'devbox', heartbeatAt: new Date(now - 1_000).toISOString() };
+
+	test('treats a fresh lock held by another live process as live', () => {
+		assert.strictEqual(isActiveSessionLockLive(fresh, host()), true);
+	});
+
+	test('treats a lock whose process has exited as orphaned', () => {
+		assert.strictEqual(isActiveSessionLockLive(fresh, host({ isProcessAlive: () => false })), false);
+	});
+
+	test('treats a stale heartbeat as orphaned even if the pid is in use', () => {
+		const stale = { ...fresh, heartbeatAt: new Date(now - ACTIVE_SESSION_LOCK_TTL_MS - 1).toISOString() };
+		assert.strictEqual(isActiveSessionLockLive(stale, host()), false);
+	});
+
+	test('ignores locks left behind by the current process', () => {
+		assert.strictEqual(isActiveSessionLockLive({ ...fresh, pid: 100 }, host()), false);
+	});
+
+	test('trusts a fresh heartbeat from another host without checking the pid', () => {
+		const remote = { ...fresh, hostname: 'laptop' };
+		assert.strictEqual(isActiveSessionLockLive(remote, host({ isProcessAlive: () => false })), true);
+	});
+
+	test('rejects an unparseable heartbeat', () => {
+		assert.strictEqual(isActiveSessionLockLive({ ...fresh, heartbeatAt: 'soon' }, host()), false);
+	});
+});
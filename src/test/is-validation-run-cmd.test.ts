@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { isValidationRunCmd, isValidationRunCmdArgs } from '../lib/run-cmd/is-validation-run-cmd';
+import { parseAllowedRunCmd } from '../lib/tooling';
+
+suite('isValidationRunCmd', () => {
+	test('treats lint, test and build presets as validation regardless of workspace names', () => {
+		assert.strictEqual(isValidationRunCmdArgs({ cmd: 'pnpm', args: ['--filter', 'web', 'lint'] }), true);
+		assert.strictEqual(isValidationRunCmdArgs({ cmd: 'pnpm', args: ['--filter', 'test', 'add', 'zod'] }), false);
+		assert.strictEqual(isValidationRunCmdArgs({ cmd: 'pnpm', args: ['i'] }), false);
+	});
+
+	test('recognizes validation scripts and binaries allowed by rules', () => {
+		const rules = [{ script: 'typecheck' }, { script: 'test:unit' }, { exec: 'vitest', args: ['run'] }, { script: 'dev' }];
+
+		const validation = (args: string[]) => isValidationRunCmd(parseAllowedRunCmd({ cmd: 'pnpm', args }, rules));
+		assert.strictEqual(validation(['typecheck']), true);
+		assert.strictEqual(validation(['test:unit']), true);
+		assert.strictEqual(validation(['exec', 'vitest', 'run']), true);
+		assert.strictEqual(validation(['dev']), false);
+	});
+
+	test('lets the matched rule override the name heuristic', () => {
+		const rules = [
+			{ script: 'verify', validation: true },
+			{ script: 'build', args: ['--watch'], validation: false },
+		];
+
+		const validation = (args: string[]) => isValidationRunCmd(parseAllowedRunCmd({ cmd: 'pnpm', args }, rules));
+		assert.strictEqual(validation(['verify']), true);
+		assert.strictEqual(validation(['build', '--watch']), false);
+	});
+
+	test('does not count commands outside the built-in presets without rules', () => {
+		assert.strictEqual(isValidationRunCmdArgs({ cmd: 'pnpm', args: ['typecheck'] }), false);
+	});
+});
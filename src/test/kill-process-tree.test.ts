@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { terminateProcessTree } from '../lib/session-manager/kill-process-tree';
+
+function spawnReadyChild(script: string): Promise<ChildProcess> {
+	const child = spawn(process.execPath, ['-e', `${script}; console.log('ready'); setInterval(() => {}, 1000);`], {
+		detached: true,
+		stdio: ['ignore', 'pipe', 'ignore'],
+	});
+	return new Promise((resolve, reject) => {
+		child.once('error', reject);
+		child.stdout?.once('data', () => resolve(child));
+	});
+}
+
+function waitForExit(child: ChildProcess): Promise<NodeJS.Signals | null> {
+	return new Promise((resolve) => child.once('exit', (_code, signal) => resolve(signal)));
+}
+
+const posixTest = process.platform === 'win32' ? test.skip : test;
+
+suite('terminateProcessTree', () => {
+	posixTest('escalates to SIGKILL when the process ignores SIGTERM', async () => {
+		const child = await spawnReadyChild("process.on('SIGTERM', () => {})");
+		const exited = waitForExit(child);
+
+		terminateProcessTree(child, 100);
+
+		assert.strictEqual(await exited, 'SIGKILL');
+	});
+
+	posixTest('stops with SIGTERM when the process honours it', async () => {
+		const child = await spawnReadyChild('');
+		const exited = waitForExit(child);
+
+		const cancelEscalation = terminateProcessTree(child, 100);
+		assert.strictEqual(await exited, 'SIGTERM');
+		cancelEscalation();
+	});
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { addApplyPatch, makeSystem, makeToolCallMessage, makeToolResultMessage, makeUser } from '../lib/record-builders';
+import { DEFAULT_RECORD_LINT_RULES, lintRecord, listMinedCommitLintRules } from '../lib/record-linter/lint-record';
+import { findMinedCommitSkipReason } from '../lib/session-manager/find-mined-commit-skip-reason';
+import { pickMinedCommitBranch } from '../lib/session-manager/pick-mined-commit-branch';
+import type { TrainingRecord } from '../lib/tooling';
+
+suite('findMinedCommitSkipReason', () => {
+	const commit = {
+		parents: ['parent'],
+		message: 'Fix totals rounding',
+		changedFiles: 2,
+		maxFilesChanged: 10,
+		excludeMessageRegexes: [/^chore\(release\)/, /^Merge branch/],
+	};
+
+	test('accepts a single-parent commit with a message and a bounded diff', () => {
+		assert.strictEqual(findMinedCommitSkipReason(commit), undefined);
+	});
+
+	test('explains why other commits are skipped', () => {
+		assert.strictEqual(findMinedCommitSkipReason({ ...commit, parents: [] }), 'root commit');
+		assert.strictEqual(findMinedCommitSkipReason({ ...commit, parents: ['a', 'b'] }), 'merge commit');
+		assert.strictEqual(findMinedCommitSkipReason({ ...commit, message: '' }), 'empty commit message');
+		assert.strictEqual(
+			findMinedCommitSkipReason({ ...commit, message: 'chore(release): 1.2.0' }),
+			'message matches /^chore\\(release\\)/',
+		);
+		assert.strictEqual(findMinedCommitSkipReason({ ...commit, changedFiles: 0 }), 'no included file changes');
+		assert.strictEqual(findMinedCommitSkipReason({ ...commit, changedFiles: 11 }), '11 files changed (max 10)');
+	});
+});
+
+suite('pickMinedCommitBranch', () => {
+	test('prefers the current branch, then any containing branch, then HEAD', () => {
+		assert.strictEqual(pickMinedCommitBranch(['feature', 'main'], 'main'), 'main');
+		assert.strictEqual(pickMinedCommitBranch(['feature', 'release'], 'main'), 'feature');
+		assert.strictEqual(pickMinedCommitBranch([], 'main'), 'HEAD');
+	});
+});
+
+suite('listMinedCommitLintRules', () => {
+	function minedRecord(): TrainingRecord {
+		const record: TrainingRecord = { messages: [makeSystem('system'), makeUser('Fix totals rounding')] };
+		record.messages.push(makeToolCallMessage('checkpoint_read_1', 'repo.readFile', { path: 'src/totals.ts' }));
+		record.messages.push(makeToolResultMessage('checkpoint_read_1', 'export const total = 1;\n'));
+		addApplyPatch(record, 'apply_patch_1', {
+			data: { action: { operations: [{ type: 'update_file', path: 'src/totals.ts', diff: '@@ -1 +1 @@\n-1\n+2' }] } },
+		});
+		return record;
+	}
+
+	test('drops the rules that need recorded commands or agent reads', () => {
+		assert.deepStrictEqual(
+			listMinedCommitLintRules(DEFAULT_RECORD_LINT_RULES).map((rule) => rule.id),
+			['search-before-multi-edit'],
+		);
+	});
+
+	test('lets a clean mined commit pass lint', () => {
+		const context = { record: minedRecord(), commandOutcomes: new Map() };
+
+		assert.strictEqual(lintRecord(context, DEFAULT_RECORD_LINT_RULES).passed, false);
+		assert.strictEqual(lintRecord(context, listMinedCommitLintRules(DEFAULT_RECORD_LINT_RULES)).passed, true);
+	});
+});
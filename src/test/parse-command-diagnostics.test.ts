@@ -0,0 +1,260 @@
+import * as assert from 'assert';
+import { buildFixErrorsPrompt } from '../lib/diagnostics/build-fix-errors-prompt';
+import type { CommandDiagnostic } from '../lib/diagnostics/command-diagnostic';
+import { MAX_COMMAND_DIAGNOSTICS, parseCommandDiagnostics } from '../lib/diagnostics/parse-command-diagnostics';
+import { parseEslintDiagnostics } from '../lib/diagnostics/parse-eslint-diagnostics';
+import { parseNextBuildDiagnostics } from '../lib/diagnostics/parse-next-build-diagnostics';
+import { parseTestRunnerDiagnostics } from '../lib/diagnostics/parse-test-runner-diagnostics';
+import { parseTscDiagnostics } from '../lib/diagnostics/parse-tsc-diagnostics';
+
+suite('parseTscDiagnostics', () => {
+	test('parses plain, pretty and global diagnostics with continuation lines', () => {
+		const output = [
+			"src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+			"  Type 'string' is not comparable.",
+			'src/b.ts:10:2 - warning TS6133: unused is declared but never read.',
+			'error TS5083: Cannot read file tsconfig.base.json.',
+		].join('\n');
+
+		assert.deepStrictEqual(parseTscDiagnostics(output), [
+			{
+				tool: 'tsc',
+				severity: 'error',
+				file: 'src/a.ts',
+				line: 3,
+				column: 7,
+				code: 'TS2322',
+				message: "Type 'string' is not assignable to type 'number'. Type 'string' is not comparable.",
+			},
+			{
+				tool: 'tsc',
+				severity: 'warning',
+				file: 'src/b.ts',
+				line: 10,
+				column: 2,
+				code: 'TS6133',
+				message: 'unused is declared but never read.',
+			},
+			{ tool: 'tsc', severity: 'error', code: 'TS5083', message: 'Cannot read file tsconfig.base.json.' },
+		]);
+	});
+});
+
+suite('parseEslintDiagnostics', () => {
+	test('parses stylish reports under path-like file headers', () => {
+		const output = [
+			'/repo/src/a.ts',
+			"  3:7   error    'x' is assigned a value but never used  @typescript-eslint/no-unused-vars",
+			'  9:1   warning  Unexpected console statement            no-console',
+			'',
+			'C:\\repo\\src\\b.tsx',
+			'  1:1  error  Parsing error: Unexpected token',
+			'',
+			'✖ 3 problems (2 errors, 1 warning)',
+		].join('\n');
+
+		assert.deepStrictEqual(parseEslintDiagnostics(output), [
+			{
+				tool: 'eslint',
+				severity: 'error',
+				file: '/repo/src/a.ts',
+				line: 3,
+				column: 7,
+				code: '@typescript-eslint/no-unused-vars',
+				message: "'x' is assigned a value but never used",
+			},
+			{
+				tool: 'eslint',
+				severity: 'warning',
+				file: '/repo/src/a.ts',
+				line: 9,
+				column: 1,
+				code: 'no-console',
+				message: 'Unexpected console statement',
+			},
+			{
+				tool: 'eslint',
+				severity: 'error',
+				file: 'C:\\repo\\src\\b.tsx',
+				line: 1,
+				column: 1,
+				code: undefined,
+				message: 'Parsing error: Unexpected token',
+			},
+		]);
+	});
+
+	test('does not treat other unindented lines as file headers', () => {
+		const output = [
+			'> web@1.0.0 lint',
+			'  1:1  error  looks like a message  no-undef',
+			'Oops! Something went wrong! :(',
+			'  2:4  error  also not a message  no-undef',
+			'src/ok.js',
+			'  5:3  error  Unexpected var  no-var',
+		].join('\n');
+
+		assert.deepStrictEqual(
+			parseEslintDiagnostics(output).map((diagnostic) => [diagnostic.file, diagnostic.line]),
+			[['src/ok.js', 5]],
+		);
+	});
+
+	test('prefers the JSON formatter output when present', () => {
+		const report = JSON.stringify([
+			{ filePath: '/repo/a.js', messages: [{ line: 2, column: 3, severity: 1, message: 'Use const', ruleId: 'prefer-const' }] },
+		]);
+
+		assert.deepStrictEqual(parseEslintDiagnostics(`> eslint -f json .\n${report}\n`), [
+			{
+				tool: 'eslint',
+				severity: 'warning',
+				file: '/repo/a.js',
+				line: 2,
+				column: 3,
+				code: 'prefer-const',
+				message: 'Use const',
+			},
+		]);
+	});
+});
+
+suite('parseTestRunnerDiagnostics', () => {
+	test('parses Vitest failures with their location and first message line', () => {
+		const output = [
+			' FAIL  src/sum.test.ts > sum > adds numbers',
+			'AssertionError: expected 3 to be 4',
+			' ❯ src/sum.test.ts:5:17',
+			'⎯⎯⎯⎯⎯⎯⎯',
+		].join('\n');
+
+		assert.deepStrictEqual(parseTestRunnerDiagnostics(output), [
+			{
+				tool: 'vitest',
+				severity: 'error',
+				file: 'src/sum.test.ts',
+				line: 5,
+				column: 17,
+				message: 'sum > adds numbers: AssertionError: expected 3 to be 4',
+			},
+		]);
+	});
+
+	test('parses Jest failures per test within a failing file', () => {
+		const output = [
+			'FAIL src/math.test.js',
+			'  ● math › divides',
+			'',
+			'    expect(received).toBe(expected)',
+			'',
+			'      at Object.<anonymous> (/repo/src/math.test.js:12:21)',
+			'  ● math › rounds',
+			'    TypeError: round is not a function',
+			'Test Suites: 1 failed, 1 total',
+		].join('\n');
+
+		assert.deepStrictEqual(parseTestRunnerDiagnostics(output), [
+			{
+				tool: 'jest',
+				severity: 'error',
+				file: 'src/math.test.js',
+				line: 12,
+				column: 21,
+				message: 'math › divides: expect(received).toBe(expected)',
+			},
+			{
+				tool: 'jest',
+				severity: 'error',
+				file: 'src/math.test.js',
+				message: 'math › rounds: TypeError: round is not a function',
+			},
+		]);
+	});
+});
+
+suite('parseNextBuildDiagnostics', () => {
+	test('parses build errors and next lint messages', () => {
+		const output = [
+			'Failed to compile.',
+			'',
+			'./src/app/page.tsx:4:10',
+			"Type error: Property 'title' does not exist on type 'Props'.",
+			'',
+			'./src/app/layout.tsx',
+			'12:5  Warning: Do not use <img>.  @next/next/no-img-element',
+		].join('\n');
+
+		assert.deepStrictEqual(parseNextBuildDiagnostics(output), [
+			{
+				tool: 'next',
+				severity: 'error',
+				file: 'src/app/page.tsx',
+				line: 4,
+				column: 10,
+				message: "Type error: Property 'title' does not exist on type 'Props'.",
+			},
+			{
+				tool: 'next',
+				severity: 'warning',
+				file: 'src/app/layout.tsx',
+				line: 12,
+				column: 5,
+				code: '@next/next/no-img-element',
+				message: 'Do not use <img>.',
+			},
+		]);
+	});
+});
+
+suite('parseCommandDiagnostics', () => {
+	test('normalizes line endings and drops duplicates', () => {
+		const line = "src/a.ts(1,1): error TS2304: Cannot find name 'x'.";
+
+		assert.strictEqual(parseCommandDiagnostics(`${line}\r\n${line}\r\n`).length, 1);
+	});
+
+	test('caps the number of diagnostics', () => {
+		const output = Array.from(
+			{ length: MAX_COMMAND_DIAGNOSTICS + 20 },
+			(_, index) => `src/a.ts(${index + 1},1): error TS2304: Cannot find name 'x'.`,
+		).join('\n');
+
+		assert.strictEqual(parseCommandDiagnostics(output).length, MAX_COMMAND_DIAGNOSTICS);
+	});
+});
+
+suite('buildFixErrorsPrompt', () => {
+	const diagnostic = (severity: CommandDiagnostic['severity'], file: string): CommandDiagnostic => ({
+		tool: 'tsc',
+		severity,
+		file,
+		line: 2,
+		column: 5,
+		code: 'TS2322',
+		message: 'Type mismatch.',
+	});
+
+	test('lists only errors when there are any', () => {
+		assert.strictEqual(
+			buildFixErrorsPrompt('pnpm run typecheck', [diagnostic('warning', 'src/w.ts'), diagnostic('error', 'src/e.ts')]),
+			[
+				'`pnpm run typecheck` reports 1 error:',
+				'',
+				'- src/e.ts:2:5 [TS2322] Type mismatch.',
+				'',
+				'Fix it without changing unrelated behavior, then rerun `pnpm run typecheck`.',
+			].join('\n'),
+		);
+	});
+
+	test('falls back to warnings and summarizes long lists', () => {
+		const prompt = buildFixErrorsPrompt(
+			'pnpm lint',
+			Array.from({ length: 32 }, (_, index) => diagnostic('warning', `src/${index}.ts`)),
+		);
+
+		assert.ok(prompt.startsWith('`pnpm lint` reports 32 problems:'));
+		assert.ok(prompt.includes('- …and 2 more'));
+		assert.ok(prompt.endsWith('Fix them without changing unrelated behavior, then rerun `pnpm lint`.'));
+	});
+});
@@ -0,0 +1,292 @@
+import * as assert from 'assert';
+import {
+	addApplyPatch,
+	addRunCmd,
+	makeSystem,
+	makeToolCallMessage,
+	makeToolResultMessage,
+	makeUser,
+} from '../lib/record-builders';
+import type { CommandDiagnostic } from '../lib/diagnostics/command-diagnostic';
+import { CHECKPOINT_READ_CALL_PREFIX } from '../lib/record-linter/checkpoint-read';
+import { failingDiagnosticsPatchedRule } from '../lib/record-linter/failing-diagnostics-patched-rule';
+import { lintRecord } from '../lib/record-linter/lint-record';
+import { readBeforeEditRule } from '../lib/record-linter/read-before-edit-rule';
+import { searchBeforeMultiEditRule } from '../lib/record-linter/search-before-multi-edit-rule';
+import type { RecordLintContext } from '../lib/record-linter/types';
+import { validationAfterLastPatchRule } from '../lib/record-linter/validation-after-last-patch-rule';
+import { findCheckpointInsertIndex } from '../lib/session-manager/find-checkpoint-insert-index';
+import type { ApplyPatchOperation, RunCmdArgs, ToolName, TrainingRecord } from '../lib/tooling';
+
+class RecordFixture {
+	public readonly record: TrainingRecord = { messages: [makeSystem('system'), makeUser('task')] };
+	public readonly commandOutcomes: RecordLintContext['commandOutcomes'] = new Map();
+	private seq = 0;
+
+	public tool(name: ToolName, args: unknown): this {
+		const callId = this.nextId();
+		this.record.messages.push(makeToolCallMessage(callId, name, args));
+		this.record.messages.push(makeToolResultMessage(callId, 'ok'));
+		return this;
+	}
+
+	public read(path: string): this {
+		return this.tool('repo.readFile', { path });
+	}
+
+	public patch(...operations: ApplyPatchOperation[]): this {
+		addApplyPatch(this.record, this.nextId(), { data: { action: { operations } } });
+		return this;
+	}
+
+	public run(args: RunCmdArgs, exitCode: number | null, diagnostics?: CommandDiagnostic[]): this {
+		const callId = this.nextId();
+		addRunCmd(this.record, callId, args, 'output');
+		this.commandOutcomes.set(callId, { failed: exitCode !== 0, exitCode, diagnostics });
+		return this;
+	}
+
+	public user(content: string): this {
+		this.record.messages.push(makeUser(content));
+		return this;
+	}
+
+	public context(): RecordLintContext {
+		return { record: this.record, commandOutcomes: this.commandOutcomes };
+	}
+
+	private nextId(): string {
+		this.seq += 1;
+		return `call_${this.seq}`;
+	}
+}
+
+const update = (path: string): ApplyPatchOperation => ({ type: 'update_file', path, diff: '@@' });
+
+suite('readBeforeEditRule', () => {
+	test('passes when every edited file was read or created first', () => {
+		const fixture = new RecordFixture()
+			.read('src/a.ts')
+			.patch(update('src/a.ts'), { type: 'create_file', path: 'src/b.ts', diff: '+b' })
+			.patch(update('src/b.ts'));
+
+		assert.deepStrictEqual(readBeforeEditRule.check(fixture.context()), []);
+	});
+
+	test('flags updates, deletes and moves of unread files', () => {
+		const fixture = new RecordFixture().patch(
+			update('src/a.ts'),
+			{ type: 'delete_file', path: 'src/old.ts' },
+			{ type: 'move_file', from: 'src/x.ts', path: 'src/y.ts' },
+		);
+
+		assert.deepStrictEqual(readBeforeEditRule.check(fixture.context()), [
+			'call_1: update_file src/a.ts without a prior repo.readFile',
+			'call_1: delete_file src/old.ts without a prior repo.readFile',
+			'call_1: move_file src/x.ts without a prior repo.readFile',
+		]);
+	});
+
+	test('forgets deleted files', () => {
+		const fixture = new RecordFixture()
+			.read('src/a.ts')
+			.patch({ type: 'delete_file', path: 'src/a.ts' })
+			.patch(update('src/a.ts'));
+
+		assert.deepStrictEqual(readBeforeEditRule.check(fixture.context()), [
+			'call_3: update_file src/a.ts without a prior repo.readFile',
+		]);
+	});
+
+	test('does not count reads a checkpoint inserted for its own patch', () => {
+		const fixture = new RecordFixture();
+		fixture.record.messages.push(
+			makeToolCallMessage(`${CHECKPOINT_READ_CALL_PREFIX}_1`, 'repo.readFile', { path: 'src/a.ts' }),
+			makeToolResultMessage(`${CHECKPOINT_READ_CALL_PREFIX}_1`, 'old'),
+		);
+		fixture.patch(update('src/a.ts'));
+
+		assert.deepStrictEqual(readBeforeEditRule.check(fixture.context()), [
+			'call_1: update_file src/a.ts without a prior repo.readFile',
+		]);
+	});
+});
+
+suite('searchBeforeMultiEditRule', () => {
+	test('requires a search in the same turn before a multi-file patch', () => {
+		const fixture = new RecordFixture()
+			.tool('repo.search', { query: 'foo' })
+			.patch(update('a.ts'), update('b.ts'))
+			.user('follow-up')
+			.patch(update('a.ts'), update('c.ts'))
+			.patch(update('a.ts'));
+
+		assert.deepStrictEqual(searchBeforeMultiEditRule.check(fixture.context()), [
+			'call_3: patch touches 2 files without a prior repo.search',
+		]);
+	});
+});
+
+suite('validationAfterLastPatchRule', () => {
+	test('passes when the last validation after the final patch succeeded', () => {
+		const fixture = new RecordFixture()
+			.patch(update('a.ts'))
+			.run({ cmd: 'pnpm', args: ['test'] }, 1)
+			.run({ cmd: 'pnpm', args: ['test'] }, 0);
+
+		assert.deepStrictEqual(validationAfterLastPatchRule.check(fixture.context()), []);
+	});
+
+	test('flags missing, failing and timed-out validation', () => {
+		const missing = new RecordFixture().run({ cmd: 'pnpm', args: ['lint'] }, 0).patch(update('a.ts'));
+		assert.deepStrictEqual(validationAfterLastPatchRule.check(missing.context()), [
+			'no validation command ran after the last apply_patch',
+		]);
+
+		const failing = new RecordFixture().patch(update('a.ts')).run({ cmd: 'pnpm', args: ['build'] }, 2);
+		assert.deepStrictEqual(validationAfterLastPatchRule.check(failing.context()), [
+			'call_2: last validation command exited with 2',
+		]);
+
+		const timedOut = new RecordFixture().patch(update('a.ts')).run({ cmd: 'pnpm', args: ['test'] }, null);
+		timedOut.commandOutcomes.set('call_2', { failed: true, exitCode: null, timedOut: true });
+		assert.deepStrictEqual(validationAfterLastPatchRule.check(timedOut.context()), [
+			'call_2: last validation command timed out',
+		]);
+	});
+
+	test('uses the recorded validation flag instead of matching argument text', () => {
+		const fixture = new RecordFixture()
+			.patch(update('a.ts'))
+			.run({ cmd: 'pnpm', args: ['typecheck'] }, 1)
+			.run({ cmd: 'pnpm', args: ['--filter', 'test', 'add', 'zod'] }, 0);
+		fixture.commandOutcomes.set('call_2', { failed: true, exitCode: 1, validation: true });
+		fixture.commandOutcomes.set('call_3', { failed: false, exitCode: 0, validation: false });
+
+		assert.deepStrictEqual(validationAfterLastPatchRule.check(fixture.context()), [
+			'call_2: last validation command exited with 1',
+		]);
+	});
+
+	test('requires a patch', () => {
+		assert.deepStrictEqual(validationAfterLastPatchRule.check(new RecordFixture().context()), [
+			'record has no apply_patch call',
+		]);
+	});
+});
+
+suite('failingDiagnosticsPatchedRule', () => {
+	const tscError = (file: string): CommandDiagnostic => ({
+		tool: 'tsc',
+		severity: 'error',
+		file,
+		line: 1,
+		column: 1,
+		code: 'TS2322',
+		message: 'Type mismatch.',
+	});
+	const typecheck: RunCmdArgs = { cmd: 'pnpm', args: ['run', 'typecheck'] };
+
+	test('flags repo files with errors that were never patched afterwards', () => {
+		const fixture = new RecordFixture()
+			.run(typecheck, 2, [tscError('src/a.ts'), tscError('src/b.ts')])
+			.read('src/a.ts')
+			.patch(update('src/a.ts'));
+
+		assert.deepStrictEqual(failingDiagnosticsPatchedRule.check(fixture.context()), [
+			'call_1: src/b.ts has errors but no later apply_patch touched it',
+		]);
+	});
+
+	test('ignores warnings, passing commands and files patched by a move', () => {
+		const fixture = new RecordFixture()
+			.run(typecheck, 0, [tscError('src/ok.ts')])
+			.run(typecheck, 2, [{ ...tscError('src/warn.ts'), severity: 'warning' }, tscError('src/old.ts')])
+			.patch({ type: 'move_file', from: 'src/old.ts', path: 'src/new.ts' });
+
+		assert.deepStrictEqual(failingDiagnosticsPatchedRule.check(fixture.context()), []);
+	});
+
+	test('counts only diagnostics in repo files outside node_modules', () => {
+		const fixture = new RecordFixture().run(typecheck, 2, [
+			tscError('/home/me/other-repo/src/a.ts'),
+			tscError('C:\\work\\other\\a.ts'),
+			tscError('~/code/shared/a.ts'),
+			tscError('../sibling/a.ts'),
+			tscError('node_modules/@types/node/index.d.ts'),
+			tscError('web/node_modules/react/index.d.ts'),
+			tscError('web/src/app.tsx'),
+		]);
+
+		assert.deepStrictEqual(failingDiagnosticsPatchedRule.check(fixture.context()), [
+			'call_1: web/src/app.tsx has errors but no later apply_patch touched it',
+		]);
+	});
+});
+
+suite('lintRecord', () => {
+	test('reports each rule and passes only when all do', () => {
+		const fixture = new RecordFixture().read('a.ts').patch(update('a.ts'));
+		const report = lintRecord(fixture.context(), [readBeforeEditRule, validationAfterLastPatchRule]);
+
+		assert.strictEqual(report.passed, false);
+		assert.deepStrictEqual(
+			report.rules.map((rule) => [rule.id, rule.passed]),
+			[
+				['read-before-edit', true],
+				['validation-after-last-patch-passed', false],
+			],
+		);
+	});
+});
+
+suite('lintRecord on a recorded session', () => {
+	// Search, read, edit, run lint, then stop without a checkpoint: the stop-time patch lands before the lint run.
+	function recordSession(): RecordLintContext {
+		const record: TrainingRecord = { messages: [makeSystem('system'), makeUser('Fix the totals rounding')] };
+		const commandOutcomes: RecordLintContext['commandOutcomes'] = new Map();
+		record.messages.push(makeToolCallMessage('search_1', 'repo.search', { query: 'roundTotal' }));
+		record.messages.push(makeToolResultMessage('search_1', 'src/totals.ts:3'));
+		record.messages.push(makeToolCallMessage('read_2', 'repo.readFile', { path: 'src/totals.ts' }));
+		record.messages.push(makeToolResultMessage('read_2', 'export const roundTotal = Math.floor;\n'));
+		addRunCmd(record, 'run_cmd_3', { cmd: 'pnpm', args: ['lint'] }, 'ok');
+		commandOutcomes.set('run_cmd_3', { failed: false, exitCode: 0, validation: true });
+		record.messages.push(makeToolCallMessage('diagnostics_4', 'repo.diagnostics', {}));
+		record.messages.push(makeToolResultMessage('diagnostics_4', 'No diagnostics.'));
+
+		const insertAt = findCheckpointInsertIndex(record, (callId) => callId === 'run_cmd_3');
+		const checkpoint: TrainingRecord = { messages: [] };
+		checkpoint.messages.push(makeToolCallMessage('checkpoint_read_5', 'repo.readFile', { path: 'src/config.ts' }));
+		checkpoint.messages.push(makeToolResultMessage('checkpoint_read_5', 'export const precision = 0;\n'));
+		addApplyPatch(checkpoint, 'apply_patch_6', {
+			data: { action: { operations: [update('src/totals.ts'), update('src/config.ts')] } },
+		});
+		record.messages.splice(insertAt, 0, ...checkpoint.messages);
+
+		return { record, commandOutcomes };
+	}
+
+	test('places the stop-time patch before the lint run that followed the edits', () => {
+		const report = lintRecord(recordSession());
+
+		assert.deepStrictEqual(
+			report.rules.map((rule) => [rule.id, rule.violations]),
+			[
+				['read-before-edit', ['apply_patch_6: update_file src/config.ts without a prior repo.readFile']],
+				['search-before-multi-edit', []],
+				['validation-after-last-patch-passed', []],
+				['failing-diagnostics-patched', []],
+			],
+		);
+	});
+
+	test('keeps the patch after commands that ran before the edits', () => {
+		const record: TrainingRecord = { messages: [makeSystem('system'), makeUser('task')] };
+		addRunCmd(record, 'run_cmd_1', { cmd: 'pnpm', args: ['lint'] }, 'ok');
+		addRunCmd(record, 'run_cmd_2', { cmd: 'pnpm', args: ['test'] }, 'ok');
+
+		assert.strictEqual(findCheckpointInsertIndex(record, (callId) => callId === 'run_cmd_2'), 4);
+		assert.strictEqual(findCheckpointInsertIndex(record, () => false), record.messages.length);
+		assert.strictEqual(findCheckpointInsertIndex(record, () => true), 2);
+	});
+});
@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import {
+	assertRecordSchemaVersionAccepted,
+	getRecordSchemaVersion,
+	getRequiredRecordSchemaVersion,
+	LATEST_RECORD_SCHEMA_VERSION,
+	migrateSessionRecord,
+} from '../lib/record-schema';
+import { migrateExportJsonl } from '../lib/extension/migrate-export-jsonl';
+import { addApplyPatch, makeSystem } from '../lib/record-builders';
+import type { TrainingRecord } from '../lib/tooling';
+
+const unversioned = {
+	taskId: 'task-1',
+	repo: { name: 'app', root: '/work/app', branch: 'main' },
+	baseRef: 'abc',
+	headRef: 'def',
+	metrics: { filesChanged: 1, commandsRun: ['pnpm test'] },
+	record: { messages: [{ role: 'system', content: 's' }, { role: 'user', content: 'u' }] },
+};
+
+suite('record schema', () => {
+	test('migrates unversioned records to the latest version by default', () => {
+		const migration = migrateSessionRecord<Record<string, unknown>>(unversioned);
+
+		assert.strictEqual(migration.fromVersion, 0);
+		assert.strictEqual(migration.migrated, true);
+		assert.strictEqual(migration.payload.schemaVersion, LATEST_RECORD_SCHEMA_VERSION);
+		assert.deepStrictEqual(migration.payload.repos, [
+			{
+				name: 'app',
+				root: '/work/app',
+				branch: 'main',
+				prefix: '',
+				baseRef: 'abc',
+				headRef: 'def',
+				baseline: 'head',
+			},
+		]);
+		assert.deepStrictEqual(migration.payload.metrics, {
+			filesChanged: 1,
+			checkpoints: 1,
+			turnCount: 1,
+			commandsRun: ['pnpm test'],
+			commandResults: [{ command: 'pnpm test', exitCode: null, signal: null, timedOut: false, cancelled: false }],
+		});
+	});
+
+	test('can stop at an explicit target version', () => {
+		const migration = migrateSessionRecord<Record<string, unknown>>(unversioned, 1);
+		assert.strictEqual(migration.payload.schemaVersion, 1);
+	});
+
+	test('keeps existing command results when upgrading version 1', () => {
+		const commandResults = [{ command: 'pnpm lint', exitCode: 0, signal: null, timedOut: false, cancelled: false }];
+		const migration = migrateSessionRecord<Record<string, unknown>>({
+			...unversioned,
+			schemaVersion: 1,
+			metrics: { commandsRun: ['pnpm lint'], commandResults },
+		});
+
+		assert.strictEqual(migration.payload.schemaVersion, 2);
+		assert.deepStrictEqual((migration.payload.metrics as { commandResults: unknown }).commandResults, commandResults);
+	});
+
+	test('leaves current records untouched', () => {
+		const current = { ...unversioned, schemaVersion: LATEST_RECORD_SCHEMA_VERSION };
+		const migration = migrateSessionRecord(current);
+
+		assert.strictEqual(migration.migrated, false);
+		assert.strictEqual(migration.payload, current);
+	});
+
+	test('rejects records that are newer, malformed or missing messages', () => {
+		assert.throws(
+			() => migrateSessionRecord({ ...unversioned, schemaVersion: LATEST_RECORD_SCHEMA_VERSION + 1 }),
+			/newer than this extension supports/,
+		);
+		assert.throws(() => getRecordSchemaVersion({ schemaVersion: '2' }), /Invalid session record schemaVersion/);
+		assert.throws(() => getRecordSchemaVersion([]), /must be a JSON object/);
+		assert.throws(() => migrateSessionRecord({ schemaVersion: 2, record: {} }), /missing record.messages/);
+	});
+
+	test('refuses versions the cloud does not accept', () => {
+		assert.doesNotThrow(() => assertRecordSchemaVersionAccepted({ schemaVersion: 2 }, [1, 2]));
+		assert.throws(
+			() => assertRecordSchemaVersionAccepted({ schemaVersion: 2 }, [1]),
+			/does not accept record schemaVersion 2 \(accepted: 1\)/,
+		);
+	});
+});
+
+suite('getRequiredRecordSchemaVersion', () => {
+	test('stamps version 1 unless the record contains move_file', () => {
+		const record: TrainingRecord = { messages: [makeSystem('system')] };
+		assert.strictEqual(getRequiredRecordSchemaVersion(record), 1);
+
+		addApplyPatch(record, 'apply_patch_1', {
+			data: {
+				action: {
+					operations: [
+						{ type: 'delete_file', path: 'old.ts' },
+						{ type: 'create_file', path: 'new.ts', diff: '+x' },
+					],
+				},
+			},
+		});
+		assert.strictEqual(getRequiredRecordSchemaVersion(record), 1);
+
+		addApplyPatch(record, 'apply_patch_2', {
+			data: { action: { operations: [{ type: 'move_file', from: 'new.ts', path: 'src/new.ts' }] } },
+		});
+		assert.strictEqual(getRequiredRecordSchemaVersion(record), 2);
+	});
+});
+
+suite('migrateExportJsonl', () => {
+	test('migrates session lines and leaves other lines alone', () => {
+		const jsonl = [JSON.stringify(unversioned), '{"messages":[]}', 'not json', ''].join('\n');
+		const [session, plain, invalid, empty] = migrateExportJsonl(jsonl).split('\n');
+
+		assert.strictEqual(JSON.parse(session).schemaVersion, LATEST_RECORD_SCHEMA_VERSION);
+		assert.strictEqual(plain, '{"messages":[]}');
+		assert.strictEqual(invalid, 'not json');
+		assert.strictEqual(empty, '');
+	});
+});
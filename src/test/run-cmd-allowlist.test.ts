@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { discoverPackageScripts } from '../lib/run-cmd/discover-package-scripts';
+import { matchRunCmdRules } from '../lib/run-cmd/match-run-cmd-rules';
+import { normalizeRunCmdAllowRules } from '../lib/run-cmd/run-cmd-allow-rule';
+import { formatScriptInvocation, splitScriptInvocation } from '../lib/run-cmd/script-invocation';
+
+suite('splitScriptInvocation', () => {
+	test('splits each manager’s workspace selector, verb and arguments', () => {
+		assert.deepStrictEqual(splitScriptInvocation('pnpm', ['--filter', 'web', 'run', 'test', '--', 'a.ts']), {
+			kind: 'script',
+			name: 'test',
+			args: ['a.ts'],
+			filter: 'web',
+			recursive: undefined,
+		});
+		assert.deepStrictEqual(splitScriptInvocation('npm', ['exec', '--', 'tsc', '--noEmit']), {
+			kind: 'exec',
+			name: 'tsc',
+			args: ['--noEmit'],
+			filter: undefined,
+		});
+		assert.deepStrictEqual(splitScriptInvocation('yarn', ['workspaces', 'foreach', '-A', 'typecheck']), {
+			kind: 'script',
+			name: 'typecheck',
+			args: [],
+			filter: undefined,
+			recursive: true,
+		});
+		assert.deepStrictEqual(splitScriptInvocation('bun', ['x', 'vitest', 'run']), {
+			kind: 'exec',
+			name: 'vitest',
+			args: ['run'],
+			filter: undefined,
+		});
+	});
+
+	test('rejects invocations each manager would not run as a script', () => {
+		assert.throws(() => splitScriptInvocation('npm', ['typecheck']), /must be invoked with 'run'/);
+		assert.throws(() => splitScriptInvocation('npm', ['run', 'test', 'a.ts']), /needs '--'/);
+		assert.throws(() => splitScriptInvocation('pnpm', ['-r', 'exec', 'tsc']), /cannot be combined/);
+		assert.throws(() => splitScriptInvocation('pnpm', ['run', '--evil']), /script must be non-empty/);
+	});
+
+	test('formats invocations back into the same args', () => {
+		const args = ['--workspace', 'web', 'run', 'test', '--', 'a.ts'];
+		assert.deepStrictEqual(formatScriptInvocation('npm', splitScriptInvocation('npm', args)), args);
+	});
+});
+
+suite('matchRunCmdRules', () => {
+	const rules = normalizeRunCmdAllowRules(
+		[
+			{ script: 'test', args: ['[\\w./-]+'] },
+			{ exec: 'tsc', args: ['--noEmit'], managers: ['pnpm'] },
+			{ script: 'e2e', filter: true },
+		],
+		'test',
+	);
+
+	test('returns the invocation with the rule that allowed it', () => {
+		assert.deepStrictEqual(matchRunCmdRules('pnpm', ['test', 'src/a.test.ts'], rules, 'preset'), {
+			kind: 'script',
+			name: 'test',
+			args: ['src/a.test.ts'],
+			filter: undefined,
+			recursive: undefined,
+			rule: 'script:test',
+			validation: undefined,
+		});
+		assert.strictEqual(matchRunCmdRules('pnpm', ['--filter', 'web', 'e2e'], rules, 'preset').rule, 'script:e2e');
+	});
+
+	test('explains why each candidate rule rejected the command', () => {
+		assert.throws(() => matchRunCmdRules('pnpm', ['test', '--watch=true'], rules, 'preset'), /matches none of/);
+		assert.throws(() => matchRunCmdRules('npm', ['exec', 'tsc', '--noEmit'], rules, 'preset'), /only enabled for pnpm/);
+		assert.throws(() => matchRunCmdRules('pnpm', ['--filter', 'web', 'test'], rules, 'preset'), /workspace selectors/);
+		assert.throws(() => matchRunCmdRules('pnpm', ['deploy'], rules, 'preset'), /no rule allows script 'deploy'/);
+	});
+});
+
+suite('normalizeRunCmdAllowRules', () => {
+	test('validates rule shape', () => {
+		assert.throws(() => normalizeRunCmdAllowRules({}, 'cfg'), /must be an array/);
+		assert.throws(() => normalizeRunCmdAllowRules([{ script: 'a', exec: 'b' }], 'cfg'), /exactly one of/);
+		assert.throws(() => normalizeRunCmdAllowRules([{ script: 'a', args: ['('] }], 'cfg'), /invalid args pattern/);
+		assert.throws(() => normalizeRunCmdAllowRules([{ exec: 'a', managers: ['make'] }], 'cfg'), /"managers"/);
+		assert.throws(() => normalizeRunCmdAllowRules([{ script: 'a', validation: 'yes' }], 'cfg'), /"validation"/);
+	});
+});
+
+suite('discoverPackageScripts', () => {
+	let root: string;
+
+	setup(async () => {
+		root = await fs.mkdtemp(path.join(os.tmpdir(), 'dataset-scripts-test-'));
+	});
+
+	teardown(async () => {
+		await fs.rm(root, { recursive: true, force: true });
+	});
+
+	test('lists root scripts and scripts from matching workspaces', async () => {
+		const write = async (dir: string, pkg: unknown) => {
+			await fs.mkdir(path.join(root, dir), { recursive: true });
+			await fs.writeFile(path.join(root, dir, 'package.json'), JSON.stringify(pkg));
+		};
+		await write('.', { scripts: { lint: 'eslint .' }, workspaces: ['packages/*', '!packages/skip'] });
+		await write('packages/web', { name: '@acme/web', scripts: { test: 'vitest run' } });
+		await write('packages/skip', { scripts: { test: 'exit 1' } });
+		await write('tools', { scripts: { build: 'tsc' } });
+
+		const scripts = await discoverPackageScripts(root, [
+			'package.json',
+			'packages/web/package.json',
+			'packages/skip/package.json',
+			'tools/package.json',
+		]);
+
+		assert.deepStrictEqual(scripts, [
+			{ script: 'lint', command: 'eslint .', packageDir: '.', packageName: undefined },
+			{ script: 'test', command: 'vitest run', packageDir: 'packages/web', packageName: '@acme/web' },
+		]);
+	});
+});
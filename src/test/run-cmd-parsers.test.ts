@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { formatAllowedRunCmd } from '../lib/run-cmd/format-allowed-run-cmd';
+import type { PackageManager } from '../lib/run-cmd/package-manager';
+import { parseBunRunCmd } from '../lib/run-cmd/parse-bun-run-cmd';
+import { parseNpmRunCmd } from '../lib/run-cmd/parse-npm-run-cmd';
+import { parsePnpmRunCmd } from '../lib/run-cmd/parse-pnpm-run-cmd';
+import { parseYarnRunCmd } from '../lib/run-cmd/parse-yarn-run-cmd';
+import { buildScriptRunCmd } from '../lib/run-cmd/build-script-run-cmd';
+import { parseAllowedRunCmd, type PresetRunCmd } from '../lib/tooling';
+
+suite('run_cmd preset parsers', () => {
+	test('pnpm accepts validation, install and dependency commands', () => {
+		assert.deepStrictEqual(parsePnpmRunCmd(['test']), { kind: 'test', filter: undefined });
+		assert.deepStrictEqual(parsePnpmRunCmd(['--filter', 'web', 'lint']), { kind: 'lint', filter: 'web' });
+		assert.deepStrictEqual(parsePnpmRunCmd(['-r', 'build']), { kind: 'build', recursive: true });
+		assert.deepStrictEqual(parsePnpmRunCmd(['i']), { kind: 'install', filter: undefined });
+		assert.deepStrictEqual(parsePnpmRunCmd(['add', '-D', 'vitest']), {
+			kind: 'add',
+			filter: undefined,
+			dev: true,
+			packages: ['vitest'],
+		});
+	});
+
+	test('npm accepts run scripts, workspaces and install/uninstall', () => {
+		assert.deepStrictEqual(parseNpmRunCmd(['test']), { kind: 'test', filter: undefined });
+		assert.deepStrictEqual(parseNpmRunCmd(['--workspace', 'web', 'run', 'lint']), { kind: 'lint', filter: 'web' });
+		assert.deepStrictEqual(parseNpmRunCmd(['--workspaces', 'run', 'build']), { kind: 'build', recursive: true });
+		assert.deepStrictEqual(parseNpmRunCmd(['uninstall', 'left-pad']), {
+			kind: 'remove',
+			filter: undefined,
+			packages: ['left-pad'],
+		});
+	});
+
+	test('yarn accepts workspace, foreach and focus forms', () => {
+		assert.deepStrictEqual(parseYarnRunCmd(['lint']), { kind: 'lint', filter: undefined });
+		assert.deepStrictEqual(parseYarnRunCmd(['workspace', 'web', 'test']), { kind: 'test', filter: 'web' });
+		assert.deepStrictEqual(parseYarnRunCmd(['workspaces', 'foreach', '-A', 'run', 'build']), {
+			kind: 'build',
+			recursive: true,
+		});
+		assert.deepStrictEqual(parseYarnRunCmd(['workspaces', 'focus', 'web']), { kind: 'install', filter: 'web' });
+	});
+
+	test('bun accepts run, filter and add forms', () => {
+		assert.deepStrictEqual(parseBunRunCmd(['run', 'test']), { kind: 'test' });
+		assert.deepStrictEqual(parseBunRunCmd(['--filter', '*', 'run', 'lint']), { kind: 'lint', recursive: true });
+		assert.deepStrictEqual(parseBunRunCmd(['--filter', 'web', 'run', 'build']), { kind: 'build', filter: 'web' });
+		assert.deepStrictEqual(parseBunRunCmd(['add', '-d', 'zod']), { kind: 'add', dev: true, packages: ['zod'] });
+	});
+
+	test('rejects commands outside the allowlist and unsafe tokens', () => {
+		assert.throws(() => parsePnpmRunCmd(['exec', 'rm', '-rf']), /not in allowlist/);
+		assert.throws(() => parsePnpmRunCmd(['--filter', '--evil', 'test']), /filter must be non-empty/);
+		assert.throws(() => parseNpmRunCmd(['publish']), /not in allowlist/);
+		assert.throws(() => parseYarnRunCmd(['workspaces', 'foreach', 'run', 'test']), /workspaces foreach/);
+		assert.throws(() => parseBunRunCmd(['add']), /not in allowlist/);
+		assert.throws(() => parseAllowedRunCmd({ cmd: 'make' as PackageManager, args: ['test'] }), /must be one of/);
+	});
+
+	test('formats every preset back into args the parser accepts', () => {
+		const presets: PresetRunCmd[] = [
+			{ kind: 'test' },
+			{ kind: 'lint', filter: 'web' },
+			{ kind: 'build', recursive: true },
+			{ kind: 'install' },
+			{ kind: 'add', dev: true, packages: ['zod'] },
+			{ kind: 'remove', packages: ['zod'] },
+		];
+		for (const manager of ['pnpm', 'npm', 'yarn', 'bun'] as PackageManager[]) {
+			for (const preset of presets) {
+				const args = formatAllowedRunCmd(manager, preset);
+				const parsed = parseAllowedRunCmd({ cmd: manager, args });
+				assert.strictEqual(parsed.kind, preset.kind, `${manager} ${args.join(' ')}`);
+				assert.deepStrictEqual(formatAllowedRunCmd(manager, parsed), args, `${manager} ${args.join(' ')}`);
+			}
+		}
+	});
+});
+
+suite('buildScriptRunCmd', () => {
+	const unnamed = { script: 'test', packageDir: 'packages/web' };
+
+	test('selects workspaces by package name', () => {
+		const named = { ...unnamed, packageName: '@acme/web' };
+		assert.deepStrictEqual(buildScriptRunCmd('yarn', named, []).args, ['workspace', '@acme/web', 'test']);
+		assert.deepStrictEqual(buildScriptRunCmd('pnpm', named, ['--watch=false']).args, [
+			'--filter',
+			'@acme/web',
+			'run',
+			'test',
+			'--watch=false',
+		]);
+	});
+
+	test('falls back to a path selector only where the manager supports one', () => {
+		assert.deepStrictEqual(buildScriptRunCmd('pnpm', unnamed, []).args, ['--filter', './packages/web', 'test']);
+		assert.deepStrictEqual(buildScriptRunCmd('npm', unnamed, []).args, [
+			'--workspace',
+			'./packages/web',
+			'run',
+			'test',
+		]);
+		assert.throws(() => buildScriptRunCmd('yarn', unnamed, []), /yarn workspace needs a package name/);
+	});
+});
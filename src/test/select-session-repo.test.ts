@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as path from 'node:path';
+import type { SessionRepo } from '../lib/session-manager/active-session';
+import { findRepoForAbsolutePath } from '../lib/session-manager/find-repo-for-absolute-path';
+import { selectSessionRepo } from '../lib/session-manager/select-session-repo';
+
+function repo(root: string, prefix: string): SessionRepo {
+	return {
+		name: path.basename(root),
+		root,
+		prefix,
+		baseRef: 'base',
+		headRef: 'head',
+		baseline: 'head',
+		branch: 'main',
+		checkpointRef: 'base',
+	};
+}
+
+suite('selectSessionRepo', () => {
+	const web = repo(path.resolve('/work/web'), 'web/');
+	const api = repo(path.resolve('/work/api'), 'api/');
+
+	test('passes paths through for a single unprefixed repo', () => {
+		const single = repo(path.resolve('/work/web'), '');
+		assert.deepStrictEqual(selectSessionRepo([single], 'src/a.ts'), { repo: single, rest: 'src/a.ts' });
+	});
+
+	test('routes prefixed paths to the matching repo', () => {
+		assert.deepStrictEqual(selectSessionRepo([web, api], './api/src/a.ts'), { repo: api, rest: 'src/a.ts' });
+		assert.deepStrictEqual(selectSessionRepo([web, api], 'web'), { repo: web, rest: '' });
+		assert.strictEqual(selectSessionRepo([web, api], '.'), undefined);
+	});
+
+	test('resolves absolute paths inside a session folder', () => {
+		const absolute = path.join(api.root, 'src', 'a.ts');
+		assert.deepStrictEqual(selectSessionRepo([web, api], absolute), { repo: api, rest: 'src/a.ts' });
+		assert.throws(() => selectSessionRepo([web, api], path.resolve('/elsewhere/a.ts')), /inside one of the session/);
+	});
+
+	test('rejects paths outside every prefix', () => {
+		assert.throws(() => selectSessionRepo([web, api], 'docs/readme.md'), /web\/, api\//);
+	});
+});
+
+suite('findRepoForAbsolutePath', () => {
+	test('prefers the most specific nested root', () => {
+		const outer = repo(path.resolve('/work/mono'), 'mono/');
+		const inner = repo(path.resolve('/work/mono/packages/app'), 'app/');
+		const match = findRepoForAbsolutePath([outer, inner], path.join(inner.root, 'index.ts'));
+
+		assert.strictEqual(match?.repo, inner);
+		assert.strictEqual(match?.relativePath, 'index.ts');
+	});
+
+	test('does not match sibling directories that share a prefix', () => {
+		const web = repo(path.resolve('/work/web'), 'web/');
+		assert.strictEqual(findRepoForAbsolutePath([web], path.resolve('/work/web-old/a.ts')), undefined);
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { captureWorkingTreeSnapshot } from '../lib/session-manager/capture-working-tree-snapshot';
+import { buildSnapshotRef, removeSnapshotRefs } from '../lib/session-manager/snapshot-refs';
+
+const execFileAsync = promisify(execFile);
+
+suite('snapshot refs', () => {
+	let repoRoot: string;
+
+	const git = async (...args: string[]) => {
+		const { stdout } = await execFileAsync('git', args, { cwd: repoRoot, encoding: 'utf8' });
+		return stdout.trim();
+	};
+
+	setup(async () => {
+		repoRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'dataset-snapshot-refs-'));
+		await git('init', '-q');
+		await fs.writeFile(path.join(repoRoot, 'a.txt'), 'one\n');
+		await git('add', 'a.txt');
+		await git('-c', 'user.name=test', '-c', 'user.email=test@localhost', 'commit', '-qm', 'init');
+	});
+
+	teardown(async () => {
+		await fs.rm(repoRoot, { recursive: true, force: true });
+	});
+
+	test('pins each snapshot under the session namespace until the session releases it', async () => {
+		const head = await git('rev-parse', 'HEAD');
+		await fs.writeFile(path.join(repoRoot, 'a.txt'), 'two\n');
+		const baseline = await captureWorkingTreeSnapshot(
+			repoRoot,
+			head,
+			'baseline',
+			buildSnapshotRef('key1', 'baseline'),
+		);
+		await fs.writeFile(path.join(repoRoot, 'a.txt'), 'three\n');
+		const checkpoint = await captureWorkingTreeSnapshot(
+			repoRoot,
+			baseline,
+			'checkpoint 1',
+			buildSnapshotRef('key1', 'checkpoint-1'),
+		);
+		const other = await captureWorkingTreeSnapshot(repoRoot, head, 'other', buildSnapshotRef('key2', 'baseline'));
+
+		assert.strictEqual(await git('rev-parse', 'refs/dataset/key1/baseline'), baseline);
+		assert.strictEqual(await git('rev-parse', 'refs/dataset/key1/checkpoint-1'), checkpoint);
+		assert.strictEqual(await git('show', `${checkpoint}:a.txt`), 'three');
+
+		await removeSnapshotRefs(repoRoot, 'key1');
+
+		assert.strictEqual(
+			await git('for-each-ref', '--format=%(refname) %(objectname)', 'refs/dataset/'),
+			`refs/dataset/key2/baseline ${other}`,
+		);
+	});
+});
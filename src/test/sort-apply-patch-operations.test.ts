@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { sortApplyPatchOperations } from '../lib/session-manager/sort-apply-patch-operations';
+import type { ApplyPatchOperation } from '../lib/tooling';
+
+suite('sortApplyPatchOperations', () => {
+	test('orders deletes, moves, updates, creates and binaries, then by path', () => {
+		const operations: ApplyPatchOperation[] = [
+			{ type: 'create_file', path: 'src/new.ts', diff: 'x' },
+			{ type: 'binary_file', action: 'create', path: 'logo.png', size: 1, sha256: 'abc' },
+			{ type: 'update_file', path: 'src/b.ts', diff: '@@' },
+			{ type: 'delete_file', path: 'src/old.ts' },
+			{ type: 'update_file', path: 'src/a.ts', diff: '@@' },
+			{ type: 'move_file', from: 'src/x.ts', path: 'src/y.ts' },
+		];
+
+		assert.deepStrictEqual(
+			sortApplyPatchOperations(operations).map((operation) => `${operation.type} ${operation.path}`),
+			[
+				'delete_file src/old.ts',
+				'move_file src/y.ts',
+				'update_file src/a.ts',
+				'update_file src/b.ts',
+				'create_file src/new.ts',
+				'binary_file logo.png',
+			],
+		);
+		assert.strictEqual(operations[0].type, 'create_file');
+	});
+});
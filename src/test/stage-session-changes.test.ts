@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { addApplyPatch, addRunCmd, makeSystem, makeUser } from '../lib/record-builders';
+import { createSecretDetector } from '../lib/secret-detector/create-secret-detector';
+import type { ActiveSession } from '../lib/session-manager/active-session';
+import { findRecordSecrets } from '../lib/session-manager/redact-record-secrets';
+import { stageSessionChanges } from '../lib/session-manager/stage-session-changes';
+
+const SECRET_DIFF = '@@ -0,0 +1 @@\n+const key = "sk-ant-REDACTED";';
+
+function makeSession(): ActiveSession {
+	return {
+		taskId: 'task',
+		systemPrompt: 'system',
+		userPrompt: 'fix it',
+		repos: [
+			{
+				name: 'app',
+				root: '/work/app',
+				prefix: '',
+				baseRef: 'base',
+				headRef: 'base',
+				baseline: 'head',
+				branch: 'main',
+				checkpointRef: 'base',
+			},
+		],
+		commandsRun: [],
+		runCmdEvents: [],
+		record: { messages: [makeSystem('system'), makeUser('fix it')] },
+		callSeq: 0,
+		checkpointCount: 0,
+		startedAt: '2026-01-01T00:00:00.000Z',
+		lastSearchResults: new Set<string>(),
+		readFilesRecorded: new Set<string>(['src/a.ts']),
+	};
+}
+
+function appendSecretCheckpoint(session: ActiveSession): void {
+	session.callSeq += 1;
+	addApplyPatch(session.record, `apply_patch_${session.callSeq}`, {
+		data: { action: { operations: [{ type: 'create_file', path: 'src/key.ts', diff: SECRET_DIFF }] } },
+	});
+	session.repos[0].checkpointRef = 'checkpoint-1';
+	session.checkpointCount += 1;
+	session.readFilesRecorded.add('src/key.ts');
+	session.patchWarnings = ['src/key.ts: rewritten'];
+}
+
+suite('stageSessionChanges', () => {
+	test('leaves the session unchanged when the stop is aborted at the secret prompt', async () => {
+		const session = makeSession();
+		const before = structuredClone(session);
+
+		await assert.rejects(
+			stageSessionChanges(session, async (staged) => {
+				appendSecretCheckpoint(staged);
+				const hits = findRecordSecrets(staged.record, createSecretDetector());
+				assert.strictEqual(hits.length, 1);
+				throw new Error(`Stop aborted: ${hits.length} possible secret(s) found in the record.`);
+			}),
+			/Stop aborted/,
+		);
+
+		assert.deepStrictEqual(session, before);
+		assert.deepStrictEqual(findRecordSecrets(session.record, createSecretDetector()), []);
+	});
+
+	test('commits the staged changes into the same session object', async () => {
+		const session = makeSession();
+		const { record, repos } = session;
+
+		const result = await stageSessionChanges(session, async (staged) => {
+			appendSecretCheckpoint(staged);
+			return staged.checkpointCount;
+		});
+
+		assert.strictEqual(result, 1);
+		assert.strictEqual(session.checkpointCount, 1);
+		assert.strictEqual(session.repos[0].checkpointRef, 'checkpoint-1');
+		assert.ok(session.readFilesRecorded.has('src/key.ts'));
+		assert.strictEqual(session.record.messages.length, 4);
+		assert.strictEqual(record.messages.length, 2);
+		assert.strictEqual(repos[0].checkpointRef, 'base');
+	});
+
+	test('refuses to overwrite changes made to the live session during the build', async () => {
+		const session = makeSession();
+
+		await assert.rejects(
+			stageSessionChanges(session, async (staged) => {
+				appendSecretCheckpoint(staged);
+				session.callSeq += 1;
+				addRunCmd(session.record, `run_cmd_${session.callSeq}`, { cmd: 'pnpm', args: ['test'] }, 'ok');
+				session.commandsRun.push('pnpm test');
+			}),
+			/changed while the stop was pending/,
+		);
+
+		assert.strictEqual(session.checkpointCount, 0);
+		assert.deepStrictEqual(session.commandsRun, ['pnpm test']);
+		assert.strictEqual(session.record.messages.length, 4);
+	});
+});
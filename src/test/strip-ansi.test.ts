@@ -0,0 +1,17 @@
+import * as assert from 'assert';
+import { createAnsiStreamStripper, stripAnsi } from '../lib/session-manager/strip-ansi';
+
+suite('stripAnsi', () => {
+	test('removes colour and cursor sequences', () => {
+		assert.strictEqual(stripAnsi('\u001b[31merror\u001b[0m \u001b[2K\u001b[1Gdone'), 'error done');
+	});
+
+	test('strips sequences split across streamed chunks the same way', () => {
+		const stripper = createAnsiStreamStripper();
+		const chunks = ['ok \u001b[3', '2mpass', '\u001b', '[0m end'];
+
+		const streamed = chunks.map((chunk) => stripper.push(chunk)).join('') + stripper.flush();
+		assert.strictEqual(streamed, 'ok pass end');
+		assert.strictEqual(streamed, stripAnsi(chunks.join('')));
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { OutputTruncationStrategy, truncateCommandOutput } from '../lib/session-manager/truncate-command-output';
+
+const STRATEGIES: OutputTruncationStrategy[] = ['head', 'head-tail', 'smart'];
+
+function buildTestOutput(): string {
+	const lines: string[] = [];
+	for (let index = 0; index < 400; index += 1) {
+		lines.push(`  ✓ src/feature-${index}.test.ts > renders item ${index} (${index % 7}ms)`);
+		if (index % 50 === 25) {
+			lines.push(`src/feature-${index}.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.`);
+		}
+	}
+	lines.push('Tests  8 failed | 392 passed (400)');
+	return lines.join('\n');
+}
+
+suite('truncateCommandOutput', () => {
+	test('returns output within the budget unchanged', () => {
+		for (const strategy of STRATEGIES) {
+			assert.strictEqual(truncateCommandOutput('short output', 100, strategy), 'short output');
+		}
+	});
+
+	test('never returns more than maxChars, markers included', () => {
+		const output = buildTestOutput();
+		for (const strategy of STRATEGIES) {
+			for (const maxChars of [5, 40, 200, 2000, 8000]) {
+				const truncated = truncateCommandOutput(output, maxChars, strategy);
+				assert.ok(truncated.length <= maxChars, `${strategy} at ${maxChars} returned ${truncated.length} chars`);
+			}
+		}
+	});
+
+	test('marks what each strategy elided', () => {
+		const output = buildTestOutput();
+		assert.ok(truncateCommandOutput(output, 2000, 'head').endsWith('\n(truncated)'));
+		assert.match(truncateCommandOutput(output, 2000, 'head-tail'), /\n\[\.\.\. \d+ chars elided \.\.\.\]\n/);
+		assert.match(truncateCommandOutput(output, 2000, 'smart'), /\[\.\.\. \d+ lines elided \.\.\.\]/);
+	});
+
+	test('smart keeps error lines and the summary', () => {
+		const truncated = truncateCommandOutput(buildTestOutput(), 2000, 'smart');
+		assert.ok(truncated.includes('src/feature-225.ts(12,5): error TS2322'));
+		assert.ok(truncated.endsWith('Tests  8 failed | 392 passed (400)'));
+	});
+
+	test('smart collapses repeated progress lines', () => {
+		const output = [...Array.from({ length: 200 }, (_, index) => `downloading ${index}%`), 'done'].join('\n');
+		assert.strictEqual(
+			truncateCommandOutput(output, 100, 'smart'),
+			'downloading 0%\n[... 198 similar lines collapsed ...]\ndownloading 199%\ndone'
+		);
+	});
+});
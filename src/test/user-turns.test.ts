@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { addApplyPatch, makeSystem, makeUser } from '../lib/record-builders';
+import { appendUserTurn } from '../lib/session-manager/append-user-turn';
+import { countUserTurns } from '../lib/session-manager/count-user-turns';
+import { hasPatchInLastTurn } from '../lib/session-manager/has-patch-in-last-turn';
+import type { TrainingRecord } from '../lib/tooling';
+
+function patchedRecord(): TrainingRecord {
+	const record: TrainingRecord = { messages: [makeSystem('system'), makeUser('Fix the bug')] };
+	addApplyPatch(record, 'apply_patch_1', {
+		data: { action: { operations: [{ type: 'update_file', path: 'src/a.ts', diff: '@@ -1 +1 @@\n-a\n+b' }] } },
+	});
+	return record;
+}
+
+suite('appendUserTurn', () => {
+	test('appends the optional assistant reply before the trimmed user message', () => {
+		const record = patchedRecord();
+
+		assert.strictEqual(appendUserTurn(record, '  Now add a test  ', '  Fixed the bug. '), 2);
+		assert.deepStrictEqual(record.messages.slice(-2), [
+			{ role: 'assistant', content: 'Fixed the bug.' },
+			{ role: 'user', content: 'Now add a test' },
+		]);
+		assert.strictEqual(appendUserTurn(record, 'And update the docs', '   '), 3);
+		assert.strictEqual(record.messages[record.messages.length - 2].role, 'user');
+		assert.strictEqual(countUserTurns(record), 3);
+	});
+
+	test('rejects an empty user message without touching the record', () => {
+		const record = patchedRecord();
+
+		assert.throws(() => appendUserTurn(record, '  ', 'reply'), /User message is required/);
+		assert.strictEqual(record.messages.length, 4);
+	});
+});
+
+suite('hasPatchInLastTurn', () => {
+	test('only counts patches after the latest user turn', () => {
+		const record = patchedRecord();
+		assert.strictEqual(hasPatchInLastTurn(record), true);
+
+		appendUserTurn(record, 'Now add a test');
+		assert.strictEqual(hasPatchInLastTurn(record), false);
+
+		addApplyPatch(record, 'apply_patch_2', {
+			data: { action: { operations: [{ type: 'create_file', path: 'src/a.test.ts', diff: 'test' }] } },
+		});
+		assert.strictEqual(hasPatchInLastTurn(record), true);
+	});
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { buildWorktreePath } from '../lib/session-manager/build-worktree-path';
+import { createDetachedWorktree } from '../lib/session-manager/create-detached-worktree';
+import { removeWorktree } from '../lib/session-manager/remove-worktree';
+
+const execFileAsync = promisify(execFile);
+
+suite('worktree sessions', () => {
+	let repoRoot: string;
+
+	const git = async (cwd: string, ...args: string[]) => {
+		const { stdout } = await execFileAsync('git', args, { cwd, encoding: 'utf8' });
+		return stdout.trim();
+	};
+	const commit = async (content: string) => {
+		await fs.writeFile(path.join(repoRoot, 'a.txt'), content);
+		await git(repoRoot, 'add', 'a.txt');
+		await git(repoRoot, '-c', 'user.name=test', '-c', 'user.email=test@localhost', 'commit', '-qm', content);
+		return git(repoRoot, 'rev-parse', 'HEAD');
+	};
+
+	setup(async () => {
+		repoRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'dataset-worktree-source-'));
+		await git(repoRoot, 'init', '-q');
+	});
+
+	teardown(async () => {
+		await fs.rm(repoRoot, { recursive: true, force: true });
+	});
+
+	test('names worktrees under the temp directory with a filesystem-safe timestamp', () => {
+		assert.strictEqual(
+			buildWorktreePath('shop', new Date('2026-03-04T05:06:07.089Z')),
+			path.join(os.tmpdir(), 'dataset-worktrees', 'shop-2026-03-04T05-06-07-089Z'),
+		);
+	});
+
+	test('checks out an older ref without touching the source working tree, then removes it', async () => {
+		const older = await commit('v1\n');
+		await commit('v2\n');
+		await fs.writeFile(path.join(repoRoot, 'a.txt'), 'uncommitted\n');
+		const worktreePath = buildWorktreePath(`test-${path.basename(repoRoot)}`);
+
+		await createDetachedWorktree(repoRoot, older, worktreePath);
+
+		assert.strictEqual(await fs.readFile(path.join(worktreePath, 'a.txt'), 'utf8'), 'v1\n');
+		assert.strictEqual(await git(worktreePath, 'rev-parse', 'HEAD'), older);
+		assert.strictEqual(await git(worktreePath, 'status', '--porcelain'), '');
+		assert.strictEqual(await fs.readFile(path.join(repoRoot, 'a.txt'), 'utf8'), 'uncommitted\n');
+
+		await removeWorktree(repoRoot, worktreePath);
+
+		await assert.rejects(fs.stat(worktreePath), { code: 'ENOENT' });
+		assert.ok(!(await git(repoRoot, 'worktree', 'list')).includes(worktreePath));
+		assert.strictEqual(await fs.readFile(path.join(repoRoot, 'a.txt'), 'utf8'), 'uncommitted\n');
+	});
+});
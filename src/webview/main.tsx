@@ -1,11 +1,16 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 
 type SidebarState = {
 	taskId: string;
 	isSessionActive: boolean;
+	packageManager?: 'pnpm' | 'npm' | 'yarn' | 'bun';
+	runCmd?: {
+		running?: { id: number; command: string; startedAt: string };
+		queued: Array<{ id: number; command: string; enqueuedAt: string }>;
+	};
 	defaultSystemPrompt?: string;
 	lastRecordPath?: string;
-	lastSessionStatus?: 'draft' | 'ready';
+	lastSessionStatus?: 'draft' | 'needs-review' | 'ready';
 	cloudStatus?: 'connected' | 'url-missing' | 'token-missing' | 'unreachable';
 	isCloudChecking?: boolean;
 	lastCloudCheckAt?: string;
@@ -17,17 +22,43 @@ type SidebarState = {
 		type: 'session' | 'export';
 		path: string;
 		createdAt: string;
-		status?: 'draft' | 'ready';
+		status?: 'draft' | 'needs-review' | 'ready';
 		cloudSessionId?: string;
 	}>;
 };
 
+type RunCmdOutputEvent =
+	| { kind: 'started'; command: string; startedAt: string }
+	| { kind: 'output'; text: string }
+	| {
+			kind: 'finished';
+			command: string;
+			exitCode: number | null;
+			timedOut: boolean;
+			cancelled: boolean;
+			durationMs: number;
+			recorded?: string;
+			notRecordedReason?: string;
+	  };
+
+type CommandOutput = {
+	command: string;
+	live: string;
+	finished?: Extract<RunCmdOutputEvent, { kind: 'finished' }>;
+};
+
 type ExtensionToWebview =
 	| {
 			type: 'state';
 			payload: SidebarState;
+	  }
+	| {
+			type: 'runCmdOutput';
+			payload: RunCmdOutputEvent;
 	  };
 
+const MAX_LIVE_OUTPUT_CHARS = 200_000;
+
 type WebviewToExtension =
 	| { type: 'ready' }
 	| { type: 'selectTask' }
@@ -37,15 +68,41 @@ type WebviewToExtension =
 	| { type: 'setApiToken' }
 	| { type: 'checkCloudConnection' }
 	| { type: 'syncLocalSessions' }
+	| { type: 'runScript' }
+	| { type: 'cancelRunCmd'; payload?: { queuedId?: number } }
 	| {
 			type: 'startSession';
 			payload?: {
 				systemPrompt?: string;
 				userPrompt?: string;
+				snapshotDirtyWorkingTree?: boolean;
+			};
+	  }
+	| {
+			type: 'startSessionInWorktree';
+			payload: {
+				systemPrompt?: string;
+				userPrompt?: string;
+				ref: string;
+			};
+	  }
+	| {
+			type: 'mineCommits';
+			payload: {
+				range: string;
+			};
+	  }
+	| {
+			type: 'addUserTurn';
+			payload: {
+				userMessage: string;
+				assistantReply?: string;
 			};
 	  }
+	| { type: 'addAssistantMessage'; payload: { content: string } }
 	| { type: 'submitFileChanges' }
-	| { type: 'stopSessionUpload' }
+	| { type: 'recordDiagnostics' }
+	| { type: 'stopSessionUpload'; payload?: { finalSummary?: string } }
 	| {
 			type: 'runPnpmCommand';
 			payload: {
@@ -79,8 +136,55 @@ type WebviewToExtension =
 	| { type: 'importJsonlUpdates' }
 	| { type: 'openRecentArtifact'; payload: { path: string } }
 	| { type: 'deleteRecentArtifact'; payload: { path: string } }
+	| { type: 'verifyRecentArtifact'; payload: { path: string } }
 	| { type: 'discardSession' };
 
+const RUN_CMD_LABELS: Record<
+	NonNullable<SidebarState['packageManager']>,
+	Record<'filter' | 'install' | 'add' | 'addDev' | 'remove' | 'lint' | 'test' | 'build', string>
+> = {
+	pnpm: {
+		filter: '--filter <value>',
+		install: 'pnpm i',
+		add: 'pnpm add',
+		addDev: 'pnpm add -D',
+		remove: 'pnpm remove',
+		lint: 'pnpm lint',
+		test: 'pnpm test',
+		build: 'pnpm build',
+	},
+	npm: {
+		filter: '--workspace <value>',
+		install: 'npm install',
+		add: 'npm install',
+		addDev: 'npm install --save-dev',
+		remove: 'npm uninstall',
+		lint: 'npm run lint',
+		test: 'npm run test',
+		build: 'npm run build',
+	},
+	yarn: {
+		filter: 'workspace <value> (install uses workspaces focus)',
+		install: 'yarn install',
+		add: 'yarn add',
+		addDev: 'yarn add -D',
+		remove: 'yarn remove',
+		lint: 'yarn lint',
+		test: 'yarn test',
+		build: 'yarn build',
+	},
+	bun: {
+		filter: '--filter <value> (not supported for add/remove)',
+		install: 'bun install',
+		add: 'bun add',
+		addDev: 'bun add -d',
+		remove: 'bun remove',
+		lint: 'bun run lint',
+		test: 'bun run test',
+		build: 'bun run build',
+	},
+};
+
 declare function acquireVsCodeApi(): {
 	postMessage(message: WebviewToExtension): void;
 };
@@ -104,6 +208,17 @@ function App() {
 	const [isCreateSessionOpen, setIsCreateSessionOpen] = useState(false);
 	const [systemPrompt, setSystemPrompt] = useState('');
 	const [userPrompt, setUserPrompt] = useState('Implement the requested change.');
+	const [snapshotDirtyWorkingTree, setSnapshotDirtyWorkingTree] = useState(false);
+	const [worktreeRef, setWorktreeRef] = useState('');
+	const [mineCommitsRange, setMineCommitsRange] = useState('');
+	const [followUpMessage, setFollowUpMessage] = useState('');
+	const [followUpAssistantReply, setFollowUpAssistantReply] = useState('');
+	const [assistantNarration, setAssistantNarration] = useState('');
+	const [finalSummary, setFinalSummary] = useState('');
+	const [now, setNow] = useState(Date.now());
+	const [commandOutput, setCommandOutput] = useState<CommandOutput | undefined>(undefined);
+	const [outputView, setOutputView] = useState<'live' | 'recorded'>('live');
+	const outputRef = useRef<HTMLPreElement>(null);
 
 	useEffect(() => {
 		const listener = (event: MessageEvent) => {
@@ -114,6 +229,22 @@ function App() {
 					setSystemPrompt(message.payload.defaultSystemPrompt);
 				}
 			}
+			if (message?.type === 'runCmdOutput') {
+				const event = message.payload;
+				if (event.kind === 'started') {
+					setCommandOutput({ command: event.command, live: '' });
+					setOutputView('live');
+				} else if (event.kind === 'output') {
+					setCommandOutput((current) =>
+						current ? { ...current, live: (current.live + event.text).slice(-MAX_LIVE_OUTPUT_CHARS) } : current,
+					);
+				} else {
+					setCommandOutput((current) => (current ? { ...current, finished: event } : current));
+					if (event.recorded !== undefined) {
+						setOutputView('recorded');
+					}
+				}
+			}
 		};
 
 		window.addEventListener('message', listener);
@@ -122,11 +253,31 @@ function App() {
 		return () => window.removeEventListener('message', listener);
 	}, [systemPrompt]);
 
+	const visibleOutput =
+		outputView === 'recorded' ? commandOutput?.finished?.recorded : commandOutput?.live;
+	useEffect(() => {
+		if (outputView === 'live' && outputRef.current) {
+			outputRef.current.scrollTop = outputRef.current.scrollHeight;
+		}
+	}, [visibleOutput, outputView]);
+
+	const runningCommandId = state.runCmd?.running?.id;
+	useEffect(() => {
+		if (runningCommandId === undefined) {
+			return;
+		}
+		setNow(Date.now());
+		const handle = window.setInterval(() => setNow(Date.now()), 1000);
+		return () => window.clearInterval(handle);
+	}, [runningCommandId]);
+
 	const statusText = useMemo(
 		() => (state.isSessionActive ? 'Active session' : 'No active session'),
 		[state.isSessionActive],
 	);
 
+	const runCmdLabels = RUN_CMD_LABELS[state.packageManager ?? 'pnpm'];
+
 	const runPreset = (
 		preset: 'install' | 'add' | 'addDev' | 'remove' | 'lint' | 'test' | 'build',
 	) => {
@@ -181,10 +332,59 @@ function App() {
 			payload: {
 				systemPrompt,
 				userPrompt,
+				snapshotDirtyWorkingTree: snapshotDirtyWorkingTree || undefined,
 			},
 		});
 	};
 
+	const startSessionInWorktree = () => {
+		vscode.postMessage({
+			type: 'startSessionInWorktree',
+			payload: {
+				systemPrompt,
+				userPrompt,
+				ref: worktreeRef.trim(),
+			},
+		});
+	};
+
+	const mineCommits = () => {
+		vscode.postMessage({
+			type: 'mineCommits',
+			payload: {
+				range: mineCommitsRange.trim(),
+			},
+		});
+	};
+
+	const addUserTurn = () => {
+		vscode.postMessage({
+			type: 'addUserTurn',
+			payload: {
+				userMessage: followUpMessage,
+				assistantReply: followUpAssistantReply.trim() || undefined,
+			},
+		});
+		setFollowUpMessage('');
+		setFollowUpAssistantReply('');
+	};
+
+	const addAssistantMessage = () => {
+		vscode.postMessage({
+			type: 'addAssistantMessage',
+			payload: { content: assistantNarration },
+		});
+		setAssistantNarration('');
+	};
+
+	const stopSession = () => {
+		vscode.postMessage({
+			type: 'stopSessionUpload',
+			payload: { finalSummary: finalSummary.trim() || undefined },
+		});
+		setFinalSummary('');
+	};
+
 	return (
 		<main style={styles.container}>
 			<div style={styles.headerRow}>
@@ -269,6 +469,15 @@ function App() {
 							onChange={(event) => setUserPrompt(event.target.value)}
 							disabled={state.isSessionActive}
 						/>
+						<label style={styles.checkboxRow}>
+							<input
+								type="checkbox"
+								checked={snapshotDirtyWorkingTree}
+								onChange={(event) => setSnapshotDirtyWorkingTree(event.currentTarget.checked)}
+								disabled={state.isSessionActive}
+							/>
+							Start from dirty working tree (snapshot baseline)
+						</label>
 						<button
 							style={styles.button}
 							onClick={startSession}
@@ -276,13 +485,41 @@ function App() {
 						>
 							Start Session
 						</button>
+						<input
+							style={styles.input}
+							placeholder="worktree ref (branch, tag or SHA)"
+							value={worktreeRef}
+							onChange={(event) => setWorktreeRef(event.target.value)}
+							disabled={state.isSessionActive}
+						/>
+						<button
+							style={styles.button}
+							onClick={startSessionInWorktree}
+							disabled={
+								state.isSessionActive || !systemPrompt.trim() || !userPrompt.trim() || !worktreeRef.trim()
+							}
+						>
+							Start Session in Worktree
+						</button>
 					</>
 				) : null}
-				<button
-					style={styles.button}
-					onClick={() => vscode.postMessage({ type: 'stopSessionUpload' })}
+				<input
+					style={styles.input}
+					placeholder="commit range or SHAs (e.g. main~20..main)"
+					value={mineCommitsRange}
+					onChange={(event) => setMineCommitsRange(event.target.value)}
+				/>
+				<button style={styles.button} onClick={mineCommits} disabled={!mineCommitsRange.trim()}>
+					Mine Commits
+				</button>
+				<textarea
+					style={styles.textarea}
+					placeholder="Final summary (optional, generated from changes and validation if empty)"
+					value={finalSummary}
+					onChange={(event) => setFinalSummary(event.target.value)}
 					disabled={!state.isSessionActive}
-				>
+				/>
+				<button style={styles.button} onClick={stopSession} disabled={!state.isSessionActive}>
 					Stop Session
 				</button>
 				<button
@@ -292,6 +529,13 @@ function App() {
 				>
 					Submit File Changes
 				</button>
+				<button
+					style={styles.button}
+					onClick={() => vscode.postMessage({ type: 'recordDiagnostics' })}
+					disabled={!state.isSessionActive}
+				>
+					Record Problems
+				</button>
 				<button
 					style={styles.button}
 					onClick={() => vscode.postMessage({ type: 'discardSession' })}
@@ -299,6 +543,41 @@ function App() {
 				>
 					Discard Session
 				</button>
+				<textarea
+					style={styles.textarea}
+					placeholder="Assistant reply before the follow-up (optional)"
+					value={followUpAssistantReply}
+					onChange={(event) => setFollowUpAssistantReply(event.target.value)}
+					disabled={!state.isSessionActive}
+				/>
+				<textarea
+					style={styles.textarea}
+					placeholder="Follow-up user message"
+					value={followUpMessage}
+					onChange={(event) => setFollowUpMessage(event.target.value)}
+					disabled={!state.isSessionActive}
+				/>
+				<button
+					style={styles.button}
+					onClick={addUserTurn}
+					disabled={!state.isSessionActive || !followUpMessage.trim()}
+				>
+					Add User Turn
+				</button>
+				<textarea
+					style={styles.textarea}
+					placeholder="Assistant plan or narration"
+					value={assistantNarration}
+					onChange={(event) => setAssistantNarration(event.target.value)}
+					disabled={!state.isSessionActive}
+				/>
+				<button
+					style={styles.button}
+					onClick={addAssistantMessage}
+					disabled={!state.isSessionActive || !assistantNarration.trim()}
+				>
+					Add Assistant Message
+				</button>
 				</div>
 			</details>
 
@@ -349,15 +628,47 @@ function App() {
 
 			<div style={styles.sectionCard}>
 				<div style={styles.section}>
-				<h3 style={styles.sectionTitle}>run_cmd</h3>
+				<h3 style={styles.sectionTitle}>run_cmd ({state.packageManager ?? 'pnpm'})</h3>
+				{state.runCmd?.running ? (
+					<div style={styles.recentItem}>
+						<span style={styles.recentOpenButton}>
+							<span style={styles.recentTitle}>{state.runCmd.running.command}</span>
+							<span style={styles.recentMeta}>
+								running {formatElapsed(state.runCmd.running.startedAt, now)}
+							</span>
+						</span>
+						<button
+							style={styles.deleteButton}
+							title="Cancel the running command"
+							onClick={() => vscode.postMessage({ type: 'cancelRunCmd' })}
+						>
+							■
+						</button>
+					</div>
+				) : null}
+				{(state.runCmd?.queued ?? []).map((entry, index) => (
+					<div key={entry.id} style={styles.recentItem}>
+						<span style={styles.recentOpenButton}>
+							<span style={styles.recentTitle}>{entry.command}</span>
+							<span style={styles.recentMeta}>queued #{index + 1}</span>
+						</span>
+						<button
+							style={styles.deleteButton}
+							title="Remove from queue"
+							onClick={() => vscode.postMessage({ type: 'cancelRunCmd', payload: { queuedId: entry.id } })}
+						>
+							✕
+						</button>
+					</div>
+				))}
 				<input
 					style={styles.input}
-					placeholder="--filter selector (optional)"
+					placeholder="workspace selector (optional)"
 					value={filter}
 					onChange={(event) => setFilter(event.target.value)}
 					disabled={!state.isSessionActive}
 				/>
-				<p style={styles.helperText}>Optional workspace selector used as `--filter &lt;value&gt;`.</p>
+				<p style={styles.helperText}>Optional workspace selector used as `{runCmdLabels.filter}`.</p>
 				<input
 					style={styles.input}
 					placeholder="packages for add/remove (space separated)"
@@ -376,27 +687,59 @@ function App() {
 				<p style={styles.helperText}>Command timeout in seconds (defaults to 120).</p>
 				<div style={styles.buttonGrid}>
 					<button style={styles.button} onClick={() => runPreset('install')} disabled={!state.isSessionActive}>
-						pnpm i
+						{runCmdLabels.install}
 					</button>
 					<button style={styles.button} onClick={() => runPreset('add')} disabled={!state.isSessionActive}>
-						pnpm add
+						{runCmdLabels.add}
 					</button>
 					<button style={styles.button} onClick={() => runPreset('addDev')} disabled={!state.isSessionActive}>
-						pnpm add -D
+						{runCmdLabels.addDev}
 					</button>
 					<button style={styles.button} onClick={() => runPreset('remove')} disabled={!state.isSessionActive}>
-						pnpm remove
+						{runCmdLabels.remove}
 					</button>
 					<button style={styles.button} onClick={() => runPreset('lint')} disabled={!state.isSessionActive}>
-						pnpm lint
+						{runCmdLabels.lint}
 					</button>
 					<button style={styles.button} onClick={() => runPreset('test')} disabled={!state.isSessionActive}>
-						pnpm test
+						{runCmdLabels.test}
 					</button>
 					<button style={styles.button} onClick={() => runPreset('build')} disabled={!state.isSessionActive}>
-						pnpm build
+						{runCmdLabels.build}
+					</button>
+					<button
+						style={styles.button}
+						onClick={() => vscode.postMessage({ type: 'runScript' })}
+						disabled={!state.isSessionActive}
+					>
+						scripts…
 					</button>
 				</div>
+				{commandOutput ? (
+					<>
+						<div style={styles.buttonGrid}>
+							<button
+								style={{ ...styles.button, opacity: outputView === 'live' ? 1 : 0.6 }}
+								onClick={() => setOutputView('live')}
+							>
+								live output
+							</button>
+							<button
+								style={{ ...styles.button, opacity: outputView === 'recorded' ? 1 : 0.6 }}
+								onClick={() => setOutputView('recorded')}
+								disabled={commandOutput.finished?.recorded === undefined}
+							>
+								recorded
+							</button>
+						</div>
+						<p style={styles.helperText}>
+							{formatCommandOutputStatus(commandOutput)}
+						</p>
+						<pre ref={outputRef} style={styles.outputPanel}>
+							{visibleOutput || (outputView === 'live' ? 'Waiting for output…' : '')}
+						</pre>
+					</>
+				) : null}
 				</div>
 			</div>
 
@@ -450,6 +793,17 @@ function App() {
 									</span>
 									<span style={styles.recentMeta}>{formatRelativeTime(artifact.createdAt)}</span>
 								</button>
+								{artifact.type === 'session' ? (
+									<button
+										style={styles.deleteButton}
+										title="Verify patches replay to the recorded end state"
+										onClick={() =>
+											vscode.postMessage({ type: 'verifyRecentArtifact', payload: { path: artifact.path } })
+										}
+									>
+										✓
+									</button>
+								) : null}
 								<button
 									style={styles.deleteButton}
 									title="Delete artifact"
@@ -509,6 +863,12 @@ const styles: Record<string, React.CSSProperties> = {
 		margin: 0,
 		opacity: 0.9,
 	},
+	checkboxRow: {
+		display: 'flex',
+		alignItems: 'center',
+		gap: 6,
+		fontSize: '0.8rem',
+	},
 	qualityRow: {
 		display: 'flex',
 		alignItems: 'center',
@@ -594,6 +954,19 @@ const styles: Record<string, React.CSSProperties> = {
 		borderRadius: 6,
 		color: 'var(--vscode-input-foreground)',
 	},
+	outputPanel: {
+		margin: 0,
+		padding: '6px 8px',
+		maxHeight: 240,
+		overflow: 'auto',
+		whiteSpace: 'pre-wrap',
+		wordBreak: 'break-word',
+		background: 'var(--vscode-textCodeBlock-background, var(--vscode-input-background))',
+		border: '1px solid var(--vscode-input-border)',
+		borderRadius: 6,
+		fontFamily: 'var(--vscode-editor-font-family, var(--vscode-font-family))',
+		fontSize: 'var(--vscode-editor-font-size, var(--vscode-font-size))',
+	},
 	textarea: {
 		padding: '6px 8px',
 		minHeight: 64,
@@ -623,7 +996,20 @@ const styles: Record<string, React.CSSProperties> = {
 	},
 };
 
-function getQualityBadgeStyle(status: 'draft' | 'ready'): React.CSSProperties {
+function getQualityBadgeStyle(status: 'draft' | 'needs-review' | 'ready'): React.CSSProperties {
+	if (status === 'needs-review') {
+		return {
+			padding: '1px 6px',
+			borderRadius: 999,
+			background: 'var(--vscode-badge-background)',
+			color: 'var(--vscode-badge-foreground)',
+			border: '1px solid var(--vscode-editorWarning-foreground)',
+			textTransform: 'uppercase',
+			fontSize: '0.72rem',
+			letterSpacing: '0.04em',
+		};
+	}
+
 	if (status === 'ready') {
 		return {
 			padding: '1px 6px',
@@ -731,6 +1117,34 @@ function formatRelativeTime(iso: string): string {
 	return `${Math.floor(deltaSeconds / 86400)}d ago`;
 }
 
+function formatCommandOutputStatus(output: CommandOutput): string {
+	const finished = output.finished;
+	if (!finished) {
+		return `${output.command} • running`;
+	}
+
+	const outcome = finished.cancelled
+		? 'cancelled'
+		: finished.timedOut
+			? 'timed out'
+			: `exit code ${finished.exitCode ?? 'unknown'}`;
+	const recording =
+		finished.recorded !== undefined
+			? 'recorded text as it will be saved: ANSI-stripped, redacted, truncated and anonymized'
+			: `not recorded: ${finished.notRecordedReason ?? 'unknown reason'}`;
+	return `${finished.command} • ${outcome} • ${(finished.durationMs / 1000).toFixed(1)}s • ${recording}`;
+}
+
+function formatElapsed(iso: string, now: number): string {
+	const value = new Date(iso).getTime();
+	if (Number.isNaN(value)) {
+		return '';
+	}
+
+	const seconds = Math.max(0, Math.floor((now - value) / 1000));
+	return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
 async function mountWebview() {
 	const rootElement = document.getElementById('root');
 	if (!rootElement) {